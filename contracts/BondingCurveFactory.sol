@@ -1,25 +1,16 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./MarketTokenDeployer.sol";
 import "./interfaces/IUniswapV2.sol";
-
-/**
- * @title MarketToken
- * @dev ERC20 token created for each market
- */
-contract MarketToken is ERC20 {
-    constructor(
-        string memory name,
-        string memory symbol,
-        uint256 initialSupply,
-        address factory
-    ) ERC20(name, symbol) {
-        _mint(factory, initialSupply);
-    }
-}
+import "./interfaces/IBondingCurve.sol";
+import "./curves/LinearCurve.sol";
+import "./curves/ExponentialCurve.sol";
+import "./curves/ConstantProductCurve.sol";
+import "./curves/SigmoidCurve.sol";
 
 /**
  * @title BondingCurveFactory
@@ -29,6 +20,14 @@ contract MarketToken is ERC20 {
  * - 30% to founding quorum (split by contribution weights)
  * - 60% bonded to curve (available for purchase)
  * - 10% to protocol treasury
+ *
+ * Curve Shapes:
+ * - Each market is priced by an IBondingCurve implementation chosen at creation
+ * - Linear (default), Exponential, ConstantProduct (virtual reserves), Sigmoid
+ *
+ * Market Parameters:
+ * - Quorums choose their own curve params and target raise at creation
+ * - Choices must fall within owner-configured min/max bounds
  */
 contract BondingCurveFactory is Ownable, ReentrancyGuard {
     // ============ Structs ============
@@ -41,13 +40,19 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
         uint256 targetRaise;        // ETH target for graduation
         uint256 currentRaised;      // ETH raised so far
         uint256 tokensSold;         // Tokens sold from curve
-        uint256 basePrice;          // Starting price in wei
-        uint256 slope;              // Price increase per token
+        CurveType curveType;        // Curve shape
+        address curve;              // IBondingCurve implementation (fixed at creation)
+        uint256[] curveParams;      // Curve-specific parameters
         bool graduated;             // True if graduated to DEX
         bool active;                // True if market is active
         string thesis;              // Business thesis
     }
 
+    struct CurveParamBounds {
+        uint256[] minParams;        // Per-index lower bound (inclusive)
+        uint256[] maxParams;        // Per-index upper bound (inclusive)
+    }
+
     // ============ State Variables ============
 
     mapping(uint256 => Market) public markets;
@@ -81,6 +86,30 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
     // Pending pause requests (marketId => timestamp when pause can execute)
     mapping(uint256 => uint256) public pendingPause;
 
+    // Deploys MarketToken instances (keeps token creation code out of the factory)
+    MarketTokenDeployer public immutable tokenDeployer;
+
+    // Curve implementation used for new markets of each type
+    mapping(CurveType => address) public curveImplementations;
+
+    // Bounds for quorum-chosen market parameters
+    // Every built-in curve type starts with param bounds; a curve type whose
+    // bounds the owner clears accepts any valid params
+    uint256 public minTargetRaise = 1 ether;
+    uint256 public maxTargetRaise = 100 ether;
+    mapping(CurveType => CurveParamBounds) internal curveParamBounds;
+
+    // Per-market fees set by governance, within owner-set bounds
+    // Markets without an override pay protocolFeeBps
+    uint256 public minMarketFeeBps = 0;
+    uint256 public maxMarketFeeBps = 500;
+    mapping(uint256 => bool) public hasMarketFee;
+    mapping(uint256 => uint256) internal marketFeeBps;
+
+    // Lowest raise governance may force-graduate a market at, so the DEX
+    // pool doesn't start with dust liquidity
+    uint256 public minGraduationRaise = 0.5 ether;
+
     // ============ Events ============
 
     event MarketCreated(
@@ -102,7 +131,8 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
         uint256 indexed marketId,
         address indexed seller,
         uint256 tokenAmount,
-        uint256 ethAmount
+        uint256 ethAmount,
+        uint256 newPrice
     );
 
     event MarketGraduated(
@@ -146,6 +176,29 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
         uint256 targetRaise
     );
 
+    event MarketCurveConfigured(
+        uint256 indexed marketId,
+        CurveType curveType,
+        address curve,
+        uint256[] params
+    );
+
+    event CurveImplementationUpdated(CurveType indexed curveType, address implementation);
+
+    event TargetRaiseBoundsUpdated(uint256 minTargetRaise, uint256 maxTargetRaise);
+
+    event CurveParamBoundsUpdated(CurveType indexed curveType, uint256[] minParams, uint256[] maxParams);
+
+    event MarketFeeBoundsUpdated(uint256 minFeeBps, uint256 maxFeeBps);
+
+    event MarketFeeUpdated(uint256 indexed marketId, uint256 feeBps);
+
+    event AgentWeightsUpdated(uint256 indexed marketId, address[] agents, uint256[] weights);
+
+    event QuorumMemberUpdated(uint256 indexed marketId, address indexed agent, bool member, uint256 weight);
+
+    event MinGraduationRaiseUpdated(uint256 minGraduationRaise);
+
     // ============ Constructor ============
 
     constructor(address _treasury, address _uniswapRouter) Ownable(msg.sender) {
@@ -153,12 +206,41 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
         if (_uniswapRouter != address(0)) {
             uniswapRouter = IUniswapV2Router02(_uniswapRouter);
         }
+
+        tokenDeployer = new MarketTokenDeployer();
+
+        // Curves are stateless, so one shared instance per shape is enough
+        curveImplementations[CurveType.Linear] = address(new LinearCurve());
+        curveImplementations[CurveType.Exponential] = address(new ExponentialCurve());
+        curveImplementations[CurveType.ConstantProduct] = address(new ConstantProductCurve());
+        curveImplementations[CurveType.Sigmoid] = address(new SigmoidCurve());
+
+        // Keep quorum-chosen linear curves within 10x of the default base price and 50x of the default slope
+        CurveParamBounds storage linearBounds = curveParamBounds[CurveType.Linear];
+        linearBounds.minParams = [uint256(0.00001 ether), 0];
+        linearBounds.maxParams = [uint256(0.001 ether), 0.0000001 ether];
+
+        // Growth rates up to 2e13 keep the exponent at or below 12 across the curve
+        // allocation, well inside expWad's range, so buys can't overflow
+        CurveParamBounds storage exponentialBounds = curveParamBounds[CurveType.Exponential];
+        exponentialBounds.minParams = [uint256(0.00001 ether), 1e12];
+        exponentialBounds.maxParams = [uint256(0.001 ether), 2e13];
+
+        // Virtual token reserve must exceed the 600k curve allocation so the price stays finite
+        CurveParamBounds storage constantProductBounds = curveParamBounds[CurveType.ConstantProduct];
+        constantProductBounds.minParams = [uint256(1 ether), 650_000 ether];
+        constantProductBounds.maxParams = [uint256(1000 ether), 10_000_000 ether];
+
+        // Midpoint within the curve allocation; smoothing between 10k^2 and 1M^2 tokens
+        CurveParamBounds storage sigmoidBounds = curveParamBounds[CurveType.Sigmoid];
+        sigmoidBounds.minParams = [uint256(0.00001 ether), 0, 1e44];
+        sigmoidBounds.maxParams = [uint256(0.001 ether), 600_000 ether, 1e48];
     }
 
     // ============ External Functions ============
 
     /**
-     * @dev Create a new market with bonding curve
+     * @dev Create a new market on the default linear curve
      * @param quorumAgents Array of agent addresses in the quorum
      * @param weights Contribution weights for each agent (must sum to 100)
      * @param name Token name
@@ -172,47 +254,46 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
         string calldata symbol,
         string calldata thesis
     ) external returns (uint256 marketId) {
-        require(quorumAgents.length >= 3 && quorumAgents.length <= 10, "Quorum size 3-10");
-        require(quorumAgents.length == weights.length, "Weights mismatch");
-        require(_sumWeights(weights) == 100, "Weights must sum to 100");
-        require(!_hasDuplicates(quorumAgents), "Duplicate agents");
-
-        marketId = marketCount++;
-
-        // Deploy token
-        MarketToken token = new MarketToken(name, symbol, TOTAL_SUPPLY, address(this));
-
-        // Calculate allocations
-        uint256 quorumSupply = (TOTAL_SUPPLY * QUORUM_ALLOCATION_BPS) / 10000;
-        uint256 treasurySupply = (TOTAL_SUPPLY * TREASURY_ALLOCATION_BPS) / 10000;
-        // curveSupply = TOTAL_SUPPLY - quorumSupply - treasurySupply (stays in factory)
-
-        // Distribute to quorum agents
-        for (uint256 i = 0; i < quorumAgents.length; i++) {
-            uint256 agentShare = (quorumSupply * weights[i]) / 100;
-            token.transfer(quorumAgents[i], agentShare);
-        }
-
-        // Transfer to protocol treasury
-        token.transfer(protocolTreasury, treasurySupply);
-
-        // Store market data
-        markets[marketId] = Market({
-            tokenAddress: address(token),
-            lpPair: address(0),
-            quorumAgents: quorumAgents,
-            agentWeights: weights,
-            targetRaise: defaultTargetRaise,
-            currentRaised: 0,
-            tokensSold: 0,
-            basePrice: defaultBasePrice,
-            slope: defaultSlope,
-            graduated: false,
-            active: true,
-            thesis: thesis
-        });
+        uint256[] memory curveParams = new uint256[](2);
+        curveParams[0] = defaultBasePrice;
+        curveParams[1] = defaultSlope;
+
+        return _createMarket(
+            quorumAgents,
+            weights,
+            name,
+            symbol,
+            thesis,
+            CurveType.Linear,
+            curveParams,
+            defaultTargetRaise
+        );
+    }
 
-        emit MarketCreated(marketId, address(token), quorumAgents, thesis);
+    /**
+     * @dev Create a new market with quorum-chosen curve and target raise
+     * Both must fall within the owner-configured bounds (see getParameterBounds)
+     * @param quorumAgents Array of agent addresses in the quorum
+     * @param weights Contribution weights for each agent (must sum to 100)
+     * @param name Token name
+     * @param symbol Token symbol
+     * @param thesis Business thesis for the market
+     * @param curveType Curve shape to price the market with
+     * @param curveParams Parameters for the curve (see each IBondingCurve implementation)
+     * @param targetRaise ETH target for graduation
+     */
+    function createMarketWithCurve(
+        address[] calldata quorumAgents,
+        uint256[] calldata weights,
+        string calldata name,
+        string calldata symbol,
+        string calldata thesis,
+        CurveType curveType,
+        uint256[] calldata curveParams,
+        uint256 targetRaise
+    ) external returns (uint256 marketId) {
+        validateMarketConfig(curveType, curveParams, targetRaise);
+        return _createMarket(quorumAgents, weights, name, symbol, thesis, curveType, curveParams, targetRaise);
     }
 
     /**
@@ -221,46 +302,50 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
      * @param minTokensOut Minimum tokens to receive (slippage protection against MEV)
      */
     function buy(uint256 marketId, uint256 minTokensOut) external payable nonReentrant {
-        Market storage market = markets[marketId];
-        require(market.active, "Market not active");
-        require(!market.graduated, "Market graduated");
-        require(msg.value >= MIN_PURCHASE, "Below minimum purchase");
-
-        // Calculate protocol fee
-        uint256 fee = (msg.value * protocolFeeBps) / BPS_DENOMINATOR;
-        uint256 netAmount = msg.value - fee;
-
-        // Calculate tokens to mint based on bonding curve
-        uint256 tokenAmount = _calculatePurchase(market, netAmount);
-        require(tokenAmount > 0, "Zero tokens");
-        require(tokenAmount >= minTokensOut, "Slippage exceeded");
-
-        // Update state
-        market.currentRaised += netAmount;
-        market.tokensSold += tokenAmount;
-
-        // Transfer tokens to buyer
-        MarketToken(market.tokenAddress).transfer(msg.sender, tokenAmount);
+        _buy(marketId, minTokensOut);
+    }
 
-        // Transfer fee to protocol treasury
-        if (fee > 0) {
-            (bool feeSuccess, ) = protocolTreasury.call{value: fee}("");
-            require(feeSuccess, "Fee transfer failed");
-            emit ProtocolFeeCollected(marketId, fee);
-        }
+    /**
+     * @dev buy() that reverts once block.timestamp passes deadline, so a
+     * transaction left pending in the mempool cannot execute at a stale price
+     * @param deadline Latest timestamp at which the buy may execute
+     */
+    function buyWithDeadline(
+        uint256 marketId,
+        uint256 minTokensOut,
+        uint256 deadline
+    ) external payable nonReentrant {
+        require(block.timestamp <= deadline, "Transaction expired");
+        _buy(marketId, minTokensOut);
+    }
 
-        emit TokensPurchased(
-            marketId,
-            msg.sender,
-            msg.value,
-            tokenAmount,
-            getCurrentPrice(marketId)
-        );
+    /**
+     * @dev Buy an exact amount of tokens, refunding any ETH above the cost
+     * @param marketId The market to buy from
+     * @param tokenAmount Exact amount of tokens to receive
+     * @param maxEthIn Maximum ETH to spend including the protocol fee (slippage protection)
+     *
+     * The fee is added on top of the curve cost: ethIn = cost + cost * feeBps / BPS_DENOMINATOR,
+     * where feeBps is the market's fee (see getMarketFeeBps).
+     * If the cost passes the remaining raise, fewer tokens are bought; if that
+     * leaves nothing to buy, the market graduates instead (see _buy).
+     */
+    function buyExactTokens(uint256 marketId, uint256 tokenAmount, uint256 maxEthIn) external payable nonReentrant {
+        _buyExactTokens(marketId, tokenAmount, maxEthIn);
+    }
 
-        // Check for graduation
-        if (market.currentRaised >= market.targetRaise) {
-            _graduate(marketId);
-        }
+    /**
+     * @dev buyExactTokens() that reverts once block.timestamp passes deadline
+     * @param deadline Latest timestamp at which the buy may execute
+     */
+    function buyExactTokensWithDeadline(
+        uint256 marketId,
+        uint256 tokenAmount,
+        uint256 maxEthIn,
+        uint256 deadline
+    ) external payable nonReentrant {
+        require(block.timestamp <= deadline, "Transaction expired");
+        _buyExactTokens(marketId, tokenAmount, maxEthIn);
     }
 
     /**
@@ -270,38 +355,54 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
      * @param minEthOut Minimum ETH to receive (slippage protection against MEV)
      */
     function sell(uint256 marketId, uint256 tokenAmount, uint256 minEthOut) external nonReentrant {
-        Market storage market = markets[marketId];
-        require(market.active, "Market not active");
-        require(!market.graduated, "Market graduated");
-        require(tokenAmount > 0, "Zero tokens");
-
-        // Calculate ETH to return
-        uint256 ethAmount = _calculateSale(market, tokenAmount);
-        require(ethAmount <= market.currentRaised, "Insufficient liquidity");
-
-        // Calculate protocol fee
-        uint256 fee = (ethAmount * protocolFeeBps) / BPS_DENOMINATOR;
-        uint256 netAmount = ethAmount - fee;
-        require(netAmount >= minEthOut, "Slippage exceeded");
-
-        // Transfer tokens from seller to factory
-        MarketToken(market.tokenAddress).transferFrom(msg.sender, address(this), tokenAmount);
-
-        // Update state
-        market.currentRaised -= ethAmount;
-        market.tokensSold -= tokenAmount;
-
-        // Transfer ETH to seller
-        (bool success, ) = msg.sender.call{value: netAmount}("");
-        require(success, "ETH transfer failed");
+        _sell(marketId, tokenAmount, minEthOut);
+    }
 
-        // Transfer fee to protocol treasury
-        if (fee > 0) {
-            (bool feeSuccess, ) = protocolTreasury.call{value: fee}("");
-            require(feeSuccess, "Fee transfer failed");
-        }
+    /**
+     * @dev sell() that reverts once block.timestamp passes deadline
+     * @param deadline Latest timestamp at which the sell may execute
+     */
+    function sellWithDeadline(
+        uint256 marketId,
+        uint256 tokenAmount,
+        uint256 minEthOut,
+        uint256 deadline
+    ) external nonReentrant {
+        require(block.timestamp <= deadline, "Transaction expired");
+        _sell(marketId, tokenAmount, minEthOut);
+    }
 
-        emit TokensSold(marketId, msg.sender, tokenAmount, netAmount);
+    /**
+     * @dev Sell with an EIP-2612 permit instead of a prior approve()
+     * @param deadline Expiry of both the permit and the sale
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     *
+     * The permit is attempted in a try/catch: if it was already submitted
+     * (e.g. front-run from the mempool) the allowance is in place and the sale
+     * proceeds; otherwise transferFrom reverts on the missing allowance.
+     */
+    function sellWithPermit(
+        uint256 marketId,
+        uint256 tokenAmount,
+        uint256 minEthOut,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant {
+        require(block.timestamp <= deadline, "Transaction expired");
+        try IERC20Permit(markets[marketId].tokenAddress).permit(
+            msg.sender,
+            address(this),
+            tokenAmount,
+            deadline,
+            v,
+            r,
+            s
+        ) {} catch {}
+        _sell(marketId, tokenAmount, minEthOut);
     }
 
     // ============ View Functions ============
@@ -311,7 +412,71 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
      */
     function getCurrentPrice(uint256 marketId) public view returns (uint256) {
         Market storage market = markets[marketId];
-        return market.basePrice + (market.slope * market.tokensSold / 10**18);
+        return IBondingCurve(market.curve).getPrice(market.tokensSold, market.curveParams);
+    }
+
+    /**
+     * @dev Get the curve a market is priced on
+     */
+    function getMarketCurve(uint256 marketId) external view returns (
+        CurveType curveType,
+        address curve,
+        uint256[] memory params
+    ) {
+        Market storage market = markets[marketId];
+        return (market.curveType, market.curve, market.curveParams);
+    }
+
+    /**
+     * @dev Get the bounds quorums must respect when choosing market parameters
+     * Empty param arrays mean the curve type has no param bounds configured
+     */
+    function getParameterBounds(CurveType curveType) external view returns (
+        uint256 minRaise,
+        uint256 maxRaise,
+        uint256[] memory minParams,
+        uint256[] memory maxParams
+    ) {
+        CurveParamBounds storage bounds = curveParamBounds[curveType];
+        return (minTargetRaise, maxTargetRaise, bounds.minParams, bounds.maxParams);
+    }
+
+    /**
+     * @dev Revert unless a quorum-chosen market config is within bounds and
+     * its curve can raise targetRaise from the curve allocation
+     * @param curveType Curve shape
+     * @param curveParams Parameters for the curve
+     * @param targetRaise ETH target for graduation
+     */
+    function validateMarketConfig(
+        CurveType curveType,
+        uint256[] calldata curveParams,
+        uint256 targetRaise
+    ) public view {
+        require(targetRaise >= minTargetRaise && targetRaise <= maxTargetRaise, "Target raise out of bounds");
+
+        address curve = curveImplementations[curveType];
+        require(curve != address(0), "Curve not supported");
+        require(IBondingCurve(curve).validateParams(curveParams), "Invalid curve params");
+
+        CurveParamBounds storage bounds = curveParamBounds[curveType];
+        if (bounds.minParams.length > 0) {
+            require(curveParams.length == bounds.minParams.length, "Invalid curve params");
+            for (uint256 i = 0; i < curveParams.length; i++) {
+                require(
+                    curveParams[i] >= bounds.minParams[i] && curveParams[i] <= bounds.maxParams[i],
+                    "Curve param out of bounds"
+                );
+            }
+        }
+
+        // Selling the whole curve allocation must raise the target, or the
+        // market runs out of tokens before it can graduate
+        uint256 curveSupply = (TOTAL_SUPPLY * CURVE_ALLOCATION_BPS) / BPS_DENOMINATOR;
+        require(
+            IBondingCurve(curve).getCostToBuy(0, curveSupply, curveParams) >= targetRaise,
+            "Target raise unreachable"
+        );
     }
 
     /**
@@ -344,6 +509,27 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
         );
     }
 
+    /**
+     * @dev Current quorum of a market and each agent's weight
+     * Kept in step with QuorumGovernance membership, so this is the
+     * canonical member list; getMarket returns the same arrays
+     */
+    function getQuorum(uint256 marketId) external view returns (
+        address[] memory agents,
+        uint256[] memory weights
+    ) {
+        Market storage market = markets[marketId];
+        return (market.quorumAgents, market.agentWeights);
+    }
+
+    /**
+     * @dev Fee in basis points charged on the market's buys and sells
+     * The governance-set override if there is one, otherwise protocolFeeBps
+     */
+    function getMarketFeeBps(uint256 marketId) public view returns (uint256) {
+        return hasMarketFee[marketId] ? marketFeeBps[marketId] : protocolFeeBps;
+    }
+
     /**
      * @dev Calculate tokens received for ETH amount
      */
@@ -352,6 +538,14 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
         return _calculatePurchase(market, ethAmount);
     }
 
+    /**
+     * @dev Calculate ETH the curve charges for an exact token amount (before protocol fee)
+     */
+    function calculateCostForTokens(uint256 marketId, uint256 tokenAmount) external view returns (uint256) {
+        Market storage market = markets[marketId];
+        return _calculateCost(market, tokenAmount);
+    }
+
     /**
      * @dev Calculate ETH received for token amount
      */
@@ -385,97 +579,322 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
         emit DefaultParametersUpdated(_basePrice, _slope, _targetRaise);
     }
 
+    /**
+     * @dev Set the curve implementation used for new markets of a type
+     * Existing markets keep the implementation they were created with
+     * @param curveType The curve shape
+     * @param implementation IBondingCurve implementation address
+     */
+    function setCurveImplementation(CurveType curveType, address implementation) external onlyOwner {
+        require(implementation != address(0), "Zero address");
+        curveImplementations[curveType] = implementation;
+        emit CurveImplementationUpdated(curveType, implementation);
+    }
+
+    /**
+     * @dev Set the range quorums may choose a target raise from
+     * @param _minTargetRaise Lowest allowed target raise
+     * @param _maxTargetRaise Highest allowed target raise
+     */
+    function setTargetRaiseBounds(uint256 _minTargetRaise, uint256 _maxTargetRaise) external onlyOwner {
+        require(_minTargetRaise > 0 && _minTargetRaise <= _maxTargetRaise, "Invalid bounds");
+        minTargetRaise = _minTargetRaise;
+        maxTargetRaise = _maxTargetRaise;
+        emit TargetRaiseBoundsUpdated(_minTargetRaise, _maxTargetRaise);
+    }
+
+    /**
+     * @dev Set the range governance may choose per-market fees from
+     * Overrides already set are kept until governance changes them
+     * @param _minFeeBps Lowest allowed market fee
+     * @param _maxFeeBps Highest allowed market fee (at most 5%)
+     */
+    function setMarketFeeBounds(uint256 _minFeeBps, uint256 _maxFeeBps) external onlyOwner {
+        require(_maxFeeBps <= 500, "Fee too high");
+        require(_minFeeBps <= _maxFeeBps, "Invalid bounds");
+        minMarketFeeBps = _minFeeBps;
+        maxMarketFeeBps = _maxFeeBps;
+        emit MarketFeeBoundsUpdated(_minFeeBps, _maxFeeBps);
+    }
+
+    /**
+     * @dev Set the raise a market needs before governance can force-graduate it
+     * @param _minGraduationRaise Minimum currentRaised for forceGraduate
+     */
+    function setMinGraduationRaise(uint256 _minGraduationRaise) external onlyOwner {
+        minGraduationRaise = _minGraduationRaise;
+        emit MinGraduationRaiseUpdated(_minGraduationRaise);
+    }
+
+    /**
+     * @dev Set per-param bounds for quorum-chosen params of a curve type
+     * Pass empty arrays to remove the bounds
+     * @param curveType The curve shape
+     * @param minParams Lower bound for each param index
+     * @param maxParams Upper bound for each param index
+     */
+    function setCurveParamBounds(
+        CurveType curveType,
+        uint256[] calldata minParams,
+        uint256[] calldata maxParams
+    ) external onlyOwner {
+        require(minParams.length == maxParams.length, "Bounds mismatch");
+        for (uint256 i = 0; i < minParams.length; i++) {
+            require(minParams[i] <= maxParams[i], "Invalid bounds");
+        }
+
+        curveParamBounds[curveType] = CurveParamBounds(minParams, maxParams);
+        emit CurveParamBoundsUpdated(curveType, minParams, maxParams);
+    }
+
     // ============ Internal Functions ============
 
+    function _createMarket(
+        address[] calldata quorumAgents,
+        uint256[] calldata weights,
+        string calldata name,
+        string calldata symbol,
+        string calldata thesis,
+        CurveType curveType,
+        uint256[] memory curveParams,
+        uint256 targetRaise
+    ) internal returns (uint256 marketId) {
+        require(quorumAgents.length >= 3 && quorumAgents.length <= 10, "Quorum size 3-10");
+        require(quorumAgents.length == weights.length, "Weights mismatch");
+        require(_sumWeights(weights) == 100, "Weights must sum to 100");
+        require(!_hasDuplicates(quorumAgents), "Duplicate agents");
+
+        address curve = curveImplementations[curveType];
+        require(curve != address(0), "Curve not supported");
+        require(IBondingCurve(curve).validateParams(curveParams), "Invalid curve params");
+
+        marketId = marketCount++;
+
+        // Deploy token
+        MarketToken token = MarketToken(tokenDeployer.deploy(name, symbol, TOTAL_SUPPLY));
+
+        // Calculate allocations
+        uint256 quorumSupply = (TOTAL_SUPPLY * QUORUM_ALLOCATION_BPS) / 10000;
+        uint256 treasurySupply = (TOTAL_SUPPLY * TREASURY_ALLOCATION_BPS) / 10000;
+        // curveSupply = TOTAL_SUPPLY - quorumSupply - treasurySupply (stays in factory)
+
+        // Distribute to quorum agents
+        for (uint256 i = 0; i < quorumAgents.length; i++) {
+            uint256 agentShare = (quorumSupply * weights[i]) / 100;
+            token.transfer(quorumAgents[i], agentShare);
+        }
+
+        // Transfer to protocol treasury
+        token.transfer(protocolTreasury, treasurySupply);
+
+        // Store market data
+        markets[marketId] = Market({
+            tokenAddress: address(token),
+            lpPair: address(0),
+            quorumAgents: quorumAgents,
+            agentWeights: weights,
+            targetRaise: targetRaise,
+            currentRaised: 0,
+            tokensSold: 0,
+            curveType: curveType,
+            curve: curve,
+            curveParams: curveParams,
+            graduated: false,
+            active: true,
+            thesis: thesis
+        });
+
+        emit MarketCreated(marketId, address(token), quorumAgents, thesis);
+        emit MarketCurveConfigured(marketId, curveType, curve, curveParams);
+    }
+
     /**
-     * @dev Calculate tokens from ETH using closed-form quadratic solution (HM-04)
+     * @dev Tokens received for ethAmount on the market's curve
+     */
+    function _calculatePurchase(Market storage market, uint256 ethAmount) internal view returns (uint256) {
+        return IBondingCurve(market.curve).getTokensForEth(market.tokensSold, ethAmount, market.curveParams);
+    }
+
+    /**
+     * @dev ETH cost of buying tokenAmount on the market's curve
+     */
+    function _calculateCost(Market storage market, uint256 tokenAmount) internal view returns (uint256) {
+        return IBondingCurve(market.curve).getCostToBuy(market.tokensSold, tokenAmount, market.curveParams);
+    }
+
+    /**
+     * @dev Calculate ETH from tokens for selling
+     */
+    function _calculateSale(Market storage market, uint256 tokenAmount) internal view returns (uint256) {
+        require(tokenAmount <= market.tokensSold, "Not enough tokens sold");
+        return IBondingCurve(market.curve).getSaleProceeds(market.tokensSold, tokenAmount, market.curveParams);
+    }
+
+    /**
+     * @dev Price and settle a buy of msg.value
      *
-     * For linear bonding curve: Cost(n) = basePrice * n + slope * n^2 / 2
-     * Solving for n given cost uses quadratic formula:
-     * n = (-basePrice + sqrt(basePrice^2 + 2 * slope * cost)) / slope
+     * A buy that would push currentRaised past targetRaise is filled only up to
+     * the remaining raise (plus its fee) and the rest of msg.value is refunded,
+     * so every market graduates at exactly targetRaise and the same curve price.
      *
-     * This replaces binary search for exact calculations with no precision loss.
+     * Once the remaining raise is dust (below MIN_PURCHASE, or worth zero
+     * tokens), no buy can fill it, so the next buy graduates the market and
+     * gets its whole msg.value back rather than reverting forever.
      */
-    function _calculatePurchase(Market storage market, uint256 ethAmount) internal view returns (uint256) {
-        uint256 currentTokens = market.tokensSold;
-        uint256 currentCost = _getTotalCost(market, currentTokens);
-        uint256 targetCost = currentCost + ethAmount;
+    function _buy(uint256 marketId, uint256 minTokensOut) internal {
+        Market storage market = markets[marketId];
+        require(market.active, "Market not active");
+        require(!market.graduated, "Market graduated");
+        require(msg.value >= MIN_PURCHASE, "Below minimum purchase");
 
-        // Use quadratic formula to find newTokens for targetCost
-        // n = (-basePrice + sqrt(basePrice^2 + 2 * slope * targetCost * 10^18)) / slope
-        // Note: we scale by 10^18 for precision since targetCost is in wei
+        // Calculate protocol fee
+        uint256 feeBps = getMarketFeeBps(marketId);
+        uint256 fee = (msg.value * feeBps) / BPS_DENOMINATOR;
+        uint256 netAmount = msg.value - fee;
 
-        uint256 basePrice = market.basePrice;
-        uint256 slope = market.slope;
+        // Partial fill: cap at the remaining raise, fee grossed up at the same rate
+        uint256 remaining = market.targetRaise - market.currentRaised;
+        if (netAmount > remaining) {
+            netAmount = remaining;
+            fee = (netAmount * feeBps) / (BPS_DENOMINATOR - feeBps);
+        }
+        uint256 ethIn = netAmount + fee;
 
-        // Handle edge case where slope is 0 (linear pricing only)
-        if (slope == 0) {
-            // Simple linear: tokens = ethAmount * 10^18 / basePrice
-            return (ethAmount * 10**18) / basePrice;
+        // Calculate tokens to mint based on bonding curve
+        uint256 tokenAmount = _calculatePurchase(market, netAmount);
+        if (remaining < MIN_PURCHASE || (tokenAmount == 0 && netAmount == remaining)) {
+            _graduateAndRefund(marketId);
+            return;
         }
+        require(tokenAmount > 0, "Zero tokens");
+        require(tokenAmount >= minTokensOut, "Slippage exceeded");
+
+        _completePurchase(marketId, ethIn, fee, tokenAmount);
+    }
 
-        // Calculate discriminant: basePrice^2 + 2 * slope * targetCost * 10^18
-        // Scale targetCost by 10^18 to match token units
-        uint256 scaledTargetCost = targetCost * 10**18;
-        uint256 discriminant = (basePrice * basePrice) + (2 * slope * scaledTargetCost / 10**18);
+    /**
+     * @dev Price and settle a buy of exactly tokenAmount (see buyExactTokens)
+     */
+    function _buyExactTokens(uint256 marketId, uint256 tokenAmount, uint256 maxEthIn) internal {
+        Market storage market = markets[marketId];
+        require(market.active, "Market not active");
+        require(!market.graduated, "Market graduated");
+        require(tokenAmount > 0, "Zero tokens");
+        require(
+            market.tokensSold + tokenAmount <= (TOTAL_SUPPLY * CURVE_ALLOCATION_BPS) / BPS_DENOMINATOR,
+            "Exceeds curve supply"
+        );
 
-        // Calculate sqrt of discriminant
-        uint256 sqrtDiscriminant = _sqrt(discriminant);
+        uint256 cost = _calculateCost(market, tokenAmount);
 
-        // Calculate new total tokens: (-basePrice + sqrt) * 10^18 / slope
-        // Since basePrice < sqrtDiscriminant for valid purchases, this won't underflow
-        uint256 newTokens;
-        if (sqrtDiscriminant > basePrice) {
-            newTokens = ((sqrtDiscriminant - basePrice) * 10**18) / slope;
-        } else {
-            return 0;
+        // Partial fill at the graduation target, as in buy()
+        uint256 remaining = market.targetRaise - market.currentRaised;
+        if (cost > remaining) {
+            cost = remaining;
+            tokenAmount = _calculatePurchase(market, cost);
         }
-
-        // Return tokens purchased (difference from current)
-        if (newTokens > currentTokens) {
-            return newTokens - currentTokens;
+        if (remaining < MIN_PURCHASE || tokenAmount == 0) {
+            _graduateAndRefund(marketId);
+            return;
         }
-        return 0;
+
+        uint256 fee = (cost * getMarketFeeBps(marketId)) / BPS_DENOMINATOR;
+        uint256 ethIn = cost + fee;
+        require(ethIn >= MIN_PURCHASE, "Below minimum purchase");
+        require(ethIn <= maxEthIn, "Slippage exceeded");
+        require(msg.value >= ethIn, "Insufficient ETH");
+
+        _completePurchase(marketId, ethIn, fee, tokenAmount);
     }
 
     /**
-     * @dev Integer square root using Babylonian method
-     * @param x The number to find the square root of
-     * @return y The square root of x
+     * @dev Price and settle a sale of tokenAmount
      */
-    function _sqrt(uint256 x) internal pure returns (uint256 y) {
-        if (x == 0) return 0;
+    function _sell(uint256 marketId, uint256 tokenAmount, uint256 minEthOut) internal {
+        Market storage market = markets[marketId];
+        require(market.active, "Market not active");
+        require(!market.graduated, "Market graduated");
+        require(tokenAmount > 0, "Zero tokens");
+
+        // Calculate ETH to return
+        uint256 ethAmount = _calculateSale(market, tokenAmount);
+        require(ethAmount <= market.currentRaised, "Insufficient liquidity");
+
+        // Calculate protocol fee
+        uint256 fee = (ethAmount * getMarketFeeBps(marketId)) / BPS_DENOMINATOR;
+        uint256 netAmount = ethAmount - fee;
+        require(netAmount >= minEthOut, "Slippage exceeded");
+
+        // Transfer tokens from seller to factory
+        MarketToken(market.tokenAddress).transferFrom(msg.sender, address(this), tokenAmount);
 
-        uint256 z = (x + 1) / 2;
-        y = x;
+        // Update state
+        market.currentRaised -= ethAmount;
+        market.tokensSold -= tokenAmount;
 
-        while (z < y) {
-            y = z;
-            z = (x / z + z) / 2;
+        // Transfer ETH to seller
+        (bool success, ) = msg.sender.call{value: netAmount}("");
+        require(success, "ETH transfer failed");
+
+        // Transfer fee to protocol treasury
+        if (fee > 0) {
+            (bool feeSuccess, ) = protocolTreasury.call{value: fee}("");
+            require(feeSuccess, "Fee transfer failed");
         }
+
+        emit TokensSold(marketId, msg.sender, tokenAmount, netAmount, getCurrentPrice(marketId));
     }
 
     /**
-     * @dev Calculate ETH from tokens for selling
+     * @dev Settle a priced buy: refund the excess, update curve state, deliver
+     * tokens, pay the fee and graduate once the target is reached
+     * @param ethIn ETH spent by the buyer including the fee; any msg.value above it is refunded
      */
-    function _calculateSale(Market storage market, uint256 tokenAmount) internal view returns (uint256) {
-        uint256 currentTokens = market.tokensSold;
-        require(tokenAmount <= currentTokens, "Not enough tokens sold");
+    function _completePurchase(uint256 marketId, uint256 ethIn, uint256 fee, uint256 tokenAmount) internal {
+        Market storage market = markets[marketId];
+
+        // Refund ETH sent above the amount spent
+        if (msg.value > ethIn) {
+            (bool refundSuccess, ) = msg.sender.call{value: msg.value - ethIn}("");
+            require(refundSuccess, "Refund failed");
+        }
 
-        uint256 currentCost = _getTotalCost(market, currentTokens);
-        uint256 newCost = _getTotalCost(market, currentTokens - tokenAmount);
+        // Update state
+        market.currentRaised += ethIn - fee;
+        market.tokensSold += tokenAmount;
+
+        // Transfer tokens to buyer
+        MarketToken(market.tokenAddress).transfer(msg.sender, tokenAmount);
 
-        return currentCost - newCost;
+        // Transfer fee to protocol treasury
+        if (fee > 0) {
+            (bool feeSuccess, ) = protocolTreasury.call{value: fee}("");
+            require(feeSuccess, "Fee transfer failed");
+            emit ProtocolFeeCollected(marketId, fee);
+        }
+
+        emit TokensPurchased(
+            marketId,
+            msg.sender,
+            ethIn,
+            tokenAmount,
+            getCurrentPrice(marketId)
+        );
+
+        // Check for graduation
+        if (market.currentRaised >= market.targetRaise) {
+            _graduate(marketId);
+        }
     }
 
     /**
-     * @dev Get total cost for a given number of tokens
+     * @dev Graduate a market left with a dust raise and refund the buyer in full
      */
-    function _getTotalCost(Market storage market, uint256 tokens) internal view returns (uint256) {
-        // Total cost = basePrice * tokens + slope * tokens^2 / 2
-        uint256 linearCost = (market.basePrice * tokens) / 10**18;
-        uint256 quadraticCost = (market.slope * tokens * tokens) / (2 * 10**36);
-        return linearCost + quadraticCost;
+    function _graduateAndRefund(uint256 marketId) internal {
+        _graduate(marketId);
+
+        (bool refundSuccess, ) = msg.sender.call{value: msg.value}("");
+        require(refundSuccess, "Refund failed");
     }
 
     function _sumWeights(uint256[] calldata weights) internal pure returns (uint256 sum) {
@@ -543,7 +962,8 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
 
     /**
      * @dev Force graduate a market before target is reached
-     * Can only be called by governance contract
+     * Can only be called by governance contract, once the market has raised
+     * at least minGraduationRaise
      * @param marketId The market to graduate
      */
     function forceGraduate(uint256 marketId) external {
@@ -551,10 +971,97 @@ contract BondingCurveFactory is Ownable, ReentrancyGuard {
         Market storage market = markets[marketId];
         require(market.active, "Market not active");
         require(!market.graduated, "Already graduated");
+        require(market.currentRaised >= minGraduationRaise, "Below graduation floor");
 
         _graduate(marketId);
     }
 
+    /**
+     * @dev Set a market's fee, replacing protocolFeeBps for its buys and sells
+     * Can only be called by governance contract (AdjustFees proposals)
+     * @param marketId The market to configure
+     * @param feeBps New fee in basis points, within the owner-set bounds
+     */
+    function setMarketFeeBps(uint256 marketId, uint256 feeBps) external {
+        require(msg.sender == governance, "Only governance");
+        require(marketId < marketCount, "Market does not exist");
+        require(feeBps >= minMarketFeeBps && feeBps <= maxMarketFeeBps, "Fee out of bounds");
+
+        hasMarketFee[marketId] = true;
+        marketFeeBps[marketId] = feeBps;
+        emit MarketFeeUpdated(marketId, feeBps);
+    }
+
+    /**
+     * @dev Update stored agentWeights for agents in a market's quorumAgents
+     * Can only be called by governance contract (SetWeight proposals)
+     * @param marketId The market to update
+     * @param agents Agents to update, each listed in the market's quorumAgents
+     * @param weights New weight for each agent
+     */
+    function setAgentWeights(uint256 marketId, address[] calldata agents, uint256[] calldata weights) external {
+        require(msg.sender == governance, "Only governance");
+        require(marketId < marketCount, "Market does not exist");
+        require(agents.length == weights.length, "Weights mismatch");
+
+        Market storage market = markets[marketId];
+        for (uint256 i = 0; i < agents.length; i++) {
+            bool found = false;
+            for (uint256 j = 0; j < market.quorumAgents.length; j++) {
+                if (market.quorumAgents[j] == agents[i]) {
+                    market.agentWeights[j] = weights[i];
+                    found = true;
+                    break;
+                }
+            }
+            require(found, "Agent not in market");
+        }
+
+        emit AgentWeightsUpdated(marketId, agents, weights);
+    }
+
+    /**
+     * @dev Add, reweight or remove an agent in a market's quorumAgents
+     * Can only be called by governance contract (AddAgent/RemoveAgent
+     * proposals). Removal swaps the last agent into the removed slot.
+     * @param marketId The market to update
+     * @param agent The agent to add, update or remove
+     * @param member Whether the agent is in the quorum after the update
+     * @param weight The agent's weight; ignored when removing
+     */
+    function setQuorumMember(uint256 marketId, address agent, bool member, uint256 weight) external {
+        require(msg.sender == governance, "Only governance");
+        require(marketId < marketCount, "Market does not exist");
+
+        Market storage market = markets[marketId];
+        uint256 length = market.quorumAgents.length;
+        uint256 index = length;
+        for (uint256 i = 0; i < length; i++) {
+            if (market.quorumAgents[i] == agent) {
+                index = i;
+                break;
+            }
+        }
+
+        if (member) {
+            if (index == length) {
+                market.quorumAgents.push(agent);
+                market.agentWeights.push(weight);
+            } else {
+                market.agentWeights[index] = weight;
+            }
+        } else {
+            require(index < length, "Agent not in market");
+            market.quorumAgents[index] = market.quorumAgents[length - 1];
+            market.agentWeights[index] = market.agentWeights[length - 1];
+            market.quorumAgents.pop();
+            market.agentWeights.pop();
+            weight = 0;
+        }
+
+        emit QuorumMemberUpdated(marketId, agent, member, weight);
+    }
+
     /**
      * @dev Set governance contract address (for permission checks)
      * @param _governance The governance contract address
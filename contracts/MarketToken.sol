@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
+
+/**
+ * @title MarketToken
+ * @dev ERC20 token created for each market, with EIP-2612 permit so holders
+ * can approve the factory with a signature instead of a transaction
+ *
+ * Balances are checkpointed (ERC20Votes) for the token-holder voting track in
+ * QuorumGovernance. Holders must delegate, to themselves or another address,
+ * before their balance counts as votes.
+ *
+ * The factory delegates to itself and nobody else can delegate to it, so its
+ * checkpointed votes are exactly its unsold balance. getPastCirculatingSupply
+ * subtracts them from the total supply for the token-holder quorum.
+ */
+contract MarketToken is ERC20, ERC20Permit, ERC20Votes {
+    address public immutable factory;
+
+    constructor(
+        string memory name,
+        string memory symbol,
+        uint256 initialSupply,
+        address _factory
+    ) ERC20(name, symbol) ERC20Permit(name) {
+        factory = _factory;
+        _delegate(_factory, _factory);
+        _mint(_factory, initialSupply);
+    }
+
+    /**
+     * @dev Supply outside the factory at a past block: the total supply minus
+     * the factory's unsold balance, which can never vote
+     */
+    function getPastCirculatingSupply(uint256 timepoint) external view returns (uint256) {
+        return getPastTotalSupply(timepoint) - getPastVotes(factory, timepoint);
+    }
+
+    // ============ Overrides ============
+
+    function _update(address from, address to, uint256 value) internal override(ERC20, ERC20Votes) {
+        super._update(from, to, value);
+    }
+
+    /**
+     * @dev Keep the factory's votes equal to its own balance
+     */
+    function _delegate(address account, address delegatee) internal override {
+        require(delegatee != factory || account == factory, "Cannot delegate to factory");
+        super._delegate(account, delegatee);
+    }
+
+    function nonces(address owner) public view override(ERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(owner);
+    }
+}
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./MarketToken.sol";
+
+/**
+ * @title MarketTokenDeployer
+ * @dev Deploys MarketToken instances for BondingCurveFactory
+ *
+ * Holding MarketToken's creation code here instead of in the factory keeps the
+ * factory's runtime bytecode under the 24KB contract size limit. The factory
+ * creates its deployer in its constructor, so only that factory can use it.
+ */
+contract MarketTokenDeployer {
+    address public immutable factory;
+
+    constructor() {
+        factory = msg.sender;
+    }
+
+    /**
+     * @dev Deploy a market token with the full supply minted to the factory
+     */
+    function deploy(
+        string calldata name,
+        string calldata symbol,
+        uint256 initialSupply
+    ) external returns (address) {
+        require(msg.sender == factory, "Only factory");
+        return address(new MarketToken(name, symbol, initialSupply, factory));
+    }
+}
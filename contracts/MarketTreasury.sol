@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+
+/**
+ * @title MarketTreasury
+ * @dev Per-market vault controlled by the market's quorum through governance
+ *
+ * QuorumGovernance deploys one treasury, through MarketTreasuryDeployer, when
+ * a quorum forms a market. Anyone can deposit ETH or tokens (including the
+ * market's own token); only governance can move them, when a TreasurySpend
+ * proposal executes.
+ *
+ * The treasury is also the market's executor: Call proposals run from its
+ * address, so calls act on behalf of the market and spend its ETH.
+ */
+contract MarketTreasury {
+    using SafeERC20 for IERC20;
+
+    address public immutable governance;
+    uint256 public immutable marketId;
+
+    // ============ Events ============
+
+    event Deposited(address indexed from, uint256 amount);
+
+    event ETHSpent(address indexed recipient, uint256 amount);
+
+    event TokenSpent(address indexed token, address indexed recipient, uint256 amount);
+
+    event Executed(address indexed target, uint256 value, bytes data);
+
+    // ============ Constructor ============
+
+    constructor(address _governance, uint256 _marketId) {
+        governance = _governance;
+        marketId = _marketId;
+    }
+
+    receive() external payable {
+        emit Deposited(msg.sender, msg.value);
+    }
+
+    // ============ Governance Functions ============
+
+    /**
+     * @dev Send ETH held by the treasury
+     * @param recipient Address to pay
+     * @param amount ETH amount in wei
+     */
+    function spendETH(address payable recipient, uint256 amount) external {
+        require(msg.sender == governance, "Only governance");
+        require(recipient != address(0), "Zero address");
+        require(address(this).balance >= amount, "Insufficient ETH");
+
+        (bool success, ) = recipient.call{value: amount}("");
+        require(success, "ETH transfer failed");
+
+        emit ETHSpent(recipient, amount);
+    }
+
+    /**
+     * @dev Send ERC20 tokens held by the treasury
+     * @param token Token to send
+     * @param recipient Address to pay
+     * @param amount Token amount
+     */
+    function spendToken(address token, address recipient, uint256 amount) external {
+        require(msg.sender == governance, "Only governance");
+        require(recipient != address(0), "Zero address");
+
+        IERC20(token).safeTransfer(recipient, amount);
+
+        emit TokenSpent(token, recipient, amount);
+    }
+
+    /**
+     * @dev Call target with value and data from the treasury
+     * Reverts with the target's revert data if the call fails
+     * @param target Contract to call
+     * @param value ETH to send from the treasury
+     * @param data Calldata
+     */
+    function execute(address target, uint256 value, bytes calldata data) external returns (bytes memory) {
+        require(msg.sender == governance, "Only governance");
+
+        bytes memory result = Address.functionCallWithValue(target, data, value);
+
+        emit Executed(target, value, data);
+        return result;
+    }
+}
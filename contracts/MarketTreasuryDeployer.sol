@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./MarketTreasury.sol";
+
+/**
+ * @title MarketTreasuryDeployer
+ * @dev Deploys MarketTreasury instances for QuorumGovernance
+ *
+ * Holding MarketTreasury's creation code here instead of in governance keeps
+ * governance's runtime bytecode under the 24KB contract size limit.
+ * Governance creates its deployer in its constructor, so only that
+ * governance can use it.
+ */
+contract MarketTreasuryDeployer {
+    address public immutable governance;
+
+    constructor() {
+        governance = msg.sender;
+    }
+
+    /**
+     * @dev Deploy a treasury controlled by governance for a market
+     */
+    function deploy(uint256 marketId) external returns (address) {
+        require(msg.sender == governance, "Only governance");
+        return address(new MarketTreasury(governance, marketId));
+    }
+}
@@ -2,11 +2,21 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/governance/utils/IVotes.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Multicall.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "./interfaces/IBondingCurve.sol";
+import "./MarketToken.sol";
+import "./MarketTreasuryDeployer.sol";
 
 interface IBondingCurveFactory {
     function getMarket(uint256 marketId) external view returns (
         address tokenAddress,
+        address lpPair,
         address[] memory quorumAgents,
         uint256[] memory agentWeights,
         uint256 targetRaise,
@@ -24,6 +34,33 @@ interface IBondingCurveFactory {
         string calldata symbol,
         string calldata thesis
     ) external returns (uint256 marketId);
+
+    function createMarketWithCurve(
+        address[] calldata quorumAgents,
+        uint256[] calldata weights,
+        string calldata name,
+        string calldata symbol,
+        string calldata thesis,
+        CurveType curveType,
+        uint256[] calldata curveParams,
+        uint256 targetRaise
+    ) external returns (uint256 marketId);
+
+    function validateMarketConfig(
+        CurveType curveType,
+        uint256[] calldata curveParams,
+        uint256 targetRaise
+    ) external view;
+
+    function setMarketFeeBps(uint256 marketId, uint256 feeBps) external;
+
+    function forceGraduate(uint256 marketId) external;
+
+    function setAgentWeights(uint256 marketId, address[] calldata agents, uint256[] calldata weights) external;
+
+    function setQuorumMember(uint256 marketId, address agent, bool member, uint256 weight) external;
+
+    function getQuorum(uint256 marketId) external view returns (address[] memory agents, uint256[] memory weights);
 }
 
 /**
@@ -31,14 +68,67 @@ interface IBondingCurveFactory {
  * @dev Agent voting on treasury, membership, and market parameters
  *
  * Proposal Types:
- * - AddAgent: Add new agent to quorum
- * - RemoveAgent: Remove agent from quorum
- * - TreasurySpend: Spend from market treasury
- * - AdjustFees: Modify fee parameters
- * - ForceGraduate: Force market graduation
+ * - AddAgent: Add new agent to quorum (mirrored in the factory's quorumAgents)
+ * - RemoveAgent: Remove agent from quorum (mirrored in the factory's quorumAgents)
+ * - TreasurySpend: Pay ETH or tokens from the market's MarketTreasury
+ * - AdjustFees: Set the market's trading fee on the factory
+ * - ForceGraduate: Graduate the market before its target raise
  * - ProposeQuorum: Propose new quorum formation (creates market)
+ * - Call: Call an owner-allowlisted target with value and data from the
+ *   market's MarketTreasury
+ * - SetWeight: Set the weights of existing members together; data is
+ *   abi.encode(address[] agents, uint256[] weights). The factory's stored
+ *   agentWeights are updated too, so getQuorum always matches governance
+ *
+ * Quorum Formation:
+ * - A quorum proposal forms its market once every proposed agent approves
+ * - Any proposed agent can reject it, ending it immediately
+ * - getQuorumProposal reports Pending, Formed, Rejected or Expired
+ *
+ * Token-Holder Voting:
+ * - The owner can require a token-holder vote for selected proposal types
+ *   in a market. Holders vote with their MarketToken votes checkpointed the
+ *   block before the proposal was created
+ * - Such a proposal passes only if the agent vote passes and token votes
+ *   for exceed votes against, with at least tokenQuorumBps of the
+ *   circulating supply (outside the factory) voting
+ *
+ * Voting:
+ * - castVote takes for, against or abstain with a reason; vote() is for/against
+ * - Abstentions count toward the 2/3 participation quorum but not the majority
+ *
+ * Vote Snapshots:
+ * - Each proposal counts agent weights, eligible voters and the market's
+ *   total weight as they were when it was created, so membership and weight
+ *   changes executed during its vote don't move its quorum or tally
+ * - Only members at creation can vote or vote to cancel, with their weight
+ *   at creation; a member whose weight was zero may vote, but adds nothing
+ *
+ * Delegation:
+ * - A member can delegate their weight to another member of the market, who
+ *   then votes with both. delegate() to yourself takes the weight back
+ * - Delegation is one hop: a member with delegators can't delegate, and
+ *   nobody can delegate to a member who has delegated
+ * - Each member's weight counts once per proposal, whether cast by the
+ *   member or by whoever they delegated to when the vote was cast
+ * - Removing a member ends its delegation and returns its delegators' weight
+ *
+ * Cancellation:
+ * - The proposer can withdraw a proposal before any votes are cast
+ * - Otherwise members vote to cancel, and 2/3 of the market's weight
+ *   cancels the proposal at any time before it is executed
+ *
+ * Timelock:
+ * - Markets with a timelock delay must queue() a passed proposal, then
+ *   execute() it once the delay has elapsed, within EXECUTION_WINDOW
+ * - Markets without one execute passed proposals directly
+ *
+ * Meta-transactions:
+ * - approveQuorum, vote, castVote and propose have EIP-712 signed variants (*BySig)
+ *   so agents without ETH can act through a relayer
+ * - Each signer has a sequential nonce; multicall lets a relayer batch them
  */
-contract QuorumGovernance is Ownable, ReentrancyGuard {
+contract QuorumGovernance is Ownable, ReentrancyGuard, EIP712, Nonces, Multicall {
     // ============ Enums ============
 
     enum ProposalType {
@@ -47,7 +137,9 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
         TreasurySpend,
         AdjustFees,
         ForceGraduate,
-        ProposeQuorum
+        ProposeQuorum,
+        Call,
+        SetWeight
     }
 
     enum ProposalStatus {
@@ -55,7 +147,15 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
         Passed,
         Failed,
         Executed,
-        Cancelled
+        Cancelled,
+        Queued
+    }
+
+    enum QuorumStatus {
+        Pending,
+        Formed,
+        Rejected,
+        Expired
     }
 
     // ============ Structs ============
@@ -73,6 +173,8 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
         ProposalStatus status;
         address proposer;
         string description;
+        uint256 eta;             // Earliest execution time once queued
+        uint256 abstainVotes;    // Count toward quorum but not majority
     }
 
     struct QuorumProposal {
@@ -86,28 +188,99 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
         uint256 deadline;
         bool executed;
         mapping(address => bool) hasApproved;
+        bool customCurve;        // False uses the factory's default curve and target raise
+        CurveType curveType;
+        uint256[] curveParams;
+        uint256 targetRaise;
+        bool rejected;
+    }
+
+    struct TokenVote {
+        bool required;
+        uint48 snapshot;         // Block whose checkpointed token votes count
+        uint256 forVotes;
+        uint256 againstVotes;
+    }
+
+    struct WeightCheckpoint {
+        uint48 key;              // proposalCount when the entry was written
+        bool member;             // Unused in market totals
+        uint200 weight;
     }
 
     // ============ State Variables ============
 
     IBondingCurveFactory public factory;
+    MarketTreasuryDeployer public immutable treasuryDeployer;
 
-    mapping(uint256 => Proposal) public proposals;
+    mapping(uint256 => Proposal) internal proposals;
     uint256 public proposalCount;
 
-    mapping(uint256 => QuorumProposal) public quorumProposals;
+    mapping(uint256 => QuorumProposal) internal quorumProposals;
     uint256 public quorumProposalCount;
 
     mapping(uint256 => mapping(address => bool)) public hasVoted;
+
+    // Weight that has voted to cancel each proposal
+    mapping(uint256 => uint256) public cancelVotes;
+    mapping(uint256 => mapping(address => bool)) public hasVotedCancel;
     mapping(uint256 => mapping(address => bool)) public isQuorumMember;
 
     // Local storage for voting weights (HM-06) - avoids external calls
     mapping(uint256 => mapping(address => uint256)) public agentWeight;
     mapping(uint256 => uint256) public marketTotalWeight;
 
+    // History of each agent's membership and weight, and each market's total
+    // weight, keyed by proposalCount when they changed. A proposal's snapshot is the
+    // latest entry at or before its own ID.
+    mapping(uint256 => mapping(address => WeightCheckpoint[])) internal weightHistory;
+    mapping(uint256 => WeightCheckpoint[]) internal totalWeightHistory;
+
+    // Member each agent has delegated their weight to (zero if none), and the
+    // members delegating to each agent
+    mapping(uint256 => mapping(address => address)) public delegates;
+    mapping(uint256 => mapping(address => address[])) internal delegators;
+
+    // Vault deployed for each market formed through governance
+    mapping(uint256 => address) public marketTreasury;
+
+    // Contracts Call proposals may target, set by the owner
+    mapping(address => bool) public allowedCallTargets;
+
+    // Token-holder voting track: each market's token, the proposal types that
+    // need a token vote, and each proposal's token tally
+    mapping(uint256 => address) public marketToken;
+    mapping(uint256 => mapping(ProposalType => bool)) public tokenVoteRequired;
+    mapping(uint256 => TokenVote) public tokenVotes;
+    mapping(uint256 => mapping(address => bool)) public hasVotedWithTokens;
+    uint256 public tokenQuorumBps = 100;                 // 1% of token supply must vote
+
     uint256 public constant VOTING_PERIOD = 3 days;
     uint256 public constant EXECUTION_WINDOW = 7 days;   // Time window to execute after voting ends (HM-05)
     uint256 public constant QUORUM_THRESHOLD_BPS = 6666; // 2/3 = 66.66%
+    uint256 public constant MAX_TIMELOCK_DELAY = 3 days; // Leaves time to execute within EXECUTION_WINDOW
+
+    // castVote support values
+    uint8 public constant VOTE_AGAINST = 0;
+    uint8 public constant VOTE_FOR = 1;
+    uint8 public constant VOTE_ABSTAIN = 2;
+
+    // Delay between queue() and execute() for each market, and the delay
+    // given to newly formed markets
+    mapping(uint256 => uint256) public marketTimelockDelay;
+    uint256 public defaultTimelockDelay;
+
+    // EIP-712 typehashes for signed governance actions
+    bytes32 private constant APPROVE_QUORUM_TYPEHASH =
+        keccak256("ApproveQuorum(uint256 proposalId,address agent,uint256 nonce,uint256 deadline)");
+    bytes32 private constant VOTE_TYPEHASH =
+        keccak256("Vote(uint256 proposalId,bool support,address voter,uint256 nonce,uint256 deadline)");
+    bytes32 private constant CAST_VOTE_TYPEHASH =
+        keccak256("CastVote(uint256 proposalId,uint8 support,string reason,address voter,uint256 nonce,uint256 deadline)");
+    bytes32 private constant PROPOSE_TYPEHASH =
+        keccak256(
+            "Propose(uint256 marketId,uint8 pType,address target,uint256 value,bytes data,string description,address proposer,uint256 nonce,uint256 deadline)"
+        );
 
     // ============ Events ============
 
@@ -122,10 +295,34 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
     event VoteCast(
         uint256 indexed proposalId,
         address indexed voter,
-        bool support,
+        uint8 support,
+        uint256 weight,
+        string reason
+    );
+
+    event ProposalQueued(
+        uint256 indexed proposalId,
+        uint256 indexed marketId,
+        uint256 eta
+    );
+
+    event CancelVoteCast(
+        uint256 indexed proposalId,
+        address indexed voter,
         uint256 weight
     );
 
+    event TokenVoteCast(
+        uint256 indexed proposalId,
+        address indexed voter,
+        bool support,
+        uint256 votes
+    );
+
+    event ProposalCancelled(
+        uint256 indexed proposalId
+    );
+
     event ProposalExecuted(
         uint256 indexed proposalId,
         bool success
@@ -147,6 +344,16 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
         uint256 indexed marketId
     );
 
+    event QuorumRejected(
+        uint256 indexed proposalId,
+        address indexed agent
+    );
+
+    event MarketTreasuryCreated(
+        uint256 indexed marketId,
+        address treasury
+    );
+
     event TreasurySpendApproved(
         uint256 indexed marketId,
         address indexed recipient,
@@ -162,6 +369,37 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
         uint256 indexed marketId
     );
 
+    event CallExecuted(
+        uint256 indexed marketId,
+        address indexed target,
+        uint256 value
+    );
+
+    event CallTargetUpdated(
+        address indexed target,
+        bool allowed
+    );
+
+    event TimelockDelayUpdated(
+        uint256 indexed marketId,
+        uint256 delay
+    );
+
+    event TokenVoteRequirementUpdated(
+        uint256 indexed marketId,
+        ProposalType pType,
+        bool required
+    );
+
+    event TokenQuorumUpdated(uint256 bps);
+
+    event DelegateChanged(
+        uint256 indexed marketId,
+        address indexed delegator,
+        address fromDelegate,
+        address toDelegate
+    );
+
     event AgentWeightUpdated(
         uint256 indexed marketId,
         address indexed agent,
@@ -170,14 +408,15 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
 
     // ============ Constructor ============
 
-    constructor(address _factory) Ownable(msg.sender) {
+    constructor(address _factory) Ownable(msg.sender) EIP712("QuorumGovernance", "1") {
         factory = IBondingCurveFactory(_factory);
+        treasuryDeployer = new MarketTreasuryDeployer();
     }
 
     // ============ Quorum Proposal Functions ============
 
     /**
-     * @dev Propose formation of a new quorum
+     * @dev Propose formation of a new quorum on the factory's default curve
      * @param agents Array of agent addresses to form quorum
      * @param weights Contribution weights for each agent
      * @param name Token name for the market
@@ -191,28 +430,40 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
         string calldata symbol,
         string calldata thesis
     ) external returns (uint256 proposalId) {
-        require(agents.length >= 3 && agents.length <= 10, "Quorum size 3-10");
-        require(agents.length == weights.length, "Weights mismatch");
-        require(_sumWeights(weights) == 100, "Weights must sum to 100");
-        require(!_hasDuplicates(agents), "Duplicate agents");
-        require(_isInArray(msg.sender, agents), "Proposer must be in quorum");
+        return _proposeQuorum(agents, weights, name, symbol, thesis);
+    }
 
-        proposalId = quorumProposalCount++;
+    /**
+     * @dev Propose formation of a new quorum with its own curve and target raise
+     * The config is checked against the factory's parameter bounds up front
+     * @param agents Array of agent addresses to form quorum
+     * @param weights Contribution weights for each agent
+     * @param name Token name for the market
+     * @param symbol Token symbol
+     * @param thesis Business thesis
+     * @param curveType Curve shape for the market
+     * @param curveParams Parameters for the curve
+     * @param targetRaise ETH target for graduation
+     */
+    function proposeQuorumWithCurve(
+        address[] calldata agents,
+        uint256[] calldata weights,
+        string calldata name,
+        string calldata symbol,
+        string calldata thesis,
+        CurveType curveType,
+        uint256[] calldata curveParams,
+        uint256 targetRaise
+    ) external returns (uint256 proposalId) {
+        factory.validateMarketConfig(curveType, curveParams, targetRaise);
 
-        QuorumProposal storage proposal = quorumProposals[proposalId];
-        proposal.id = proposalId;
-        proposal.proposedAgents = agents;
-        proposal.weights = weights;
-        proposal.name = name;
-        proposal.symbol = symbol;
-        proposal.thesis = thesis;
-        proposal.approvalCount = 1; // Proposer auto-approves
-        proposal.deadline = block.timestamp + VOTING_PERIOD;
-        proposal.executed = false;
-        proposal.hasApproved[msg.sender] = true;
+        proposalId = _proposeQuorum(agents, weights, name, symbol, thesis);
 
-        emit QuorumProposalCreated(proposalId, agents, thesis);
-        emit QuorumApproval(proposalId, msg.sender);
+        QuorumProposal storage proposal = quorumProposals[proposalId];
+        proposal.customCurve = true;
+        proposal.curveType = curveType;
+        proposal.curveParams = curveParams;
+        proposal.targetRaise = targetRaise;
     }
 
     /**
@@ -220,21 +471,44 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
      * @param proposalId The quorum proposal to approve
      */
     function approveQuorum(uint256 proposalId) external {
+        _approveQuorum(proposalId, msg.sender);
+    }
+
+    /**
+     * @dev Approve a quorum proposal with an EIP-712 signature from the agent
+     * @param agent The proposed agent who signed the approval
+     * @param deadline Timestamp after which the signature is no longer valid
+     * @param signature Signature over ApproveQuorum
+     */
+    function approveQuorumBySig(
+        uint256 proposalId,
+        address agent,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        _checkSignature(
+            agent,
+            deadline,
+            keccak256(abi.encode(APPROVE_QUORUM_TYPEHASH, proposalId, agent, _useNonce(agent), deadline)),
+            signature
+        );
+        _approveQuorum(proposalId, agent);
+    }
+
+    /**
+     * @dev Decline a quorum proposal as one of its proposed agents
+     * Every agent must approve for the market to form, so one rejection ends
+     * the proposal immediately. The proposer can use this to withdraw it.
+     * @param proposalId The quorum proposal to reject
+     */
+    function rejectQuorum(uint256 proposalId) external {
         QuorumProposal storage proposal = quorumProposals[proposalId];
-        require(block.timestamp < proposal.deadline, "Voting ended");
-        require(!proposal.executed, "Already executed");
-        require(!proposal.hasApproved[msg.sender], "Already approved");
+        require(_quorumStatus(proposal) == QuorumStatus.Pending, "Quorum not pending");
         require(_isInArray(msg.sender, proposal.proposedAgents), "Not in proposed quorum");
 
-        proposal.hasApproved[msg.sender] = true;
-        proposal.approvalCount++;
-
-        emit QuorumApproval(proposalId, msg.sender);
+        proposal.rejected = true;
 
-        // If all agents approved, execute
-        if (proposal.approvalCount == proposal.proposedAgents.length) {
-            _executeQuorumProposal(proposalId);
-        }
+        emit QuorumRejected(proposalId, msg.sender);
     }
 
     /**
@@ -251,26 +525,41 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
         proposal.executed = true;
 
         // Create market through factory
-        uint256 marketId = factory.createMarket(
-            proposal.proposedAgents,
-            proposal.weights,
-            proposal.name,
-            proposal.symbol,
-            proposal.thesis
-        );
+        uint256 marketId;
+        if (proposal.customCurve) {
+            marketId = factory.createMarketWithCurve(
+                proposal.proposedAgents,
+                proposal.weights,
+                proposal.name,
+                proposal.symbol,
+                proposal.thesis,
+                proposal.curveType,
+                proposal.curveParams,
+                proposal.targetRaise
+            );
+        } else {
+            marketId = factory.createMarket(
+                proposal.proposedAgents,
+                proposal.weights,
+                proposal.name,
+                proposal.symbol,
+                proposal.thesis
+            );
+        }
 
         // Register quorum members and store weights locally (HM-06)
-        uint256 totalWeight = 0;
         for (uint256 i = 0; i < proposal.proposedAgents.length; i++) {
             address agent = proposal.proposedAgents[i];
-            uint256 weight = proposal.weights[i];
 
-            isQuorumMember[marketId][agent] = true;
-            agentWeight[marketId][agent] = weight;
-            totalWeight += weight;
+            _setMember(marketId, agent, true, proposal.weights[i]);
         }
-        marketTotalWeight[marketId] = totalWeight;
+        marketTimelockDelay[marketId] = defaultTimelockDelay;
+        (marketToken[marketId], , , , , , , , , ) = factory.getMarket(marketId);
+
+        address treasury = treasuryDeployer.deploy(marketId);
+        marketTreasury[marketId] = treasury;
 
+        emit MarketTreasuryCreated(marketId, treasury);
         emit QuorumFormed(proposalId, marketId);
     }
 
@@ -287,8 +576,363 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
         bytes calldata data,
         string calldata description
     ) external returns (uint256 proposalId) {
+        return _propose(marketId, pType, target, value, data, description, msg.sender);
+    }
+
+    /**
+     * @dev Create a proposal with an EIP-712 signature from a quorum member
+     * @param proposer The quorum member who signed the proposal
+     * @param deadline Timestamp after which the signature is no longer valid
+     * @param signature Signature over Propose
+     */
+    function proposeBySig(
+        uint256 marketId,
+        ProposalType pType,
+        address target,
+        uint256 value,
+        bytes calldata data,
+        string calldata description,
+        address proposer,
+        uint256 deadline,
+        bytes calldata signature
+    ) external returns (uint256 proposalId) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                PROPOSE_TYPEHASH,
+                marketId,
+                pType,
+                target,
+                value,
+                keccak256(data),
+                keccak256(bytes(description)),
+                proposer,
+                _useNonce(proposer),
+                deadline
+            )
+        );
+        _checkSignature(proposer, deadline, structHash, signature);
+        return _propose(marketId, pType, target, value, data, description, proposer);
+    }
+
+    /**
+     * @dev Vote on a governance proposal
+     */
+    function vote(uint256 proposalId, bool support) external {
+        _vote(proposalId, msg.sender, support ? VOTE_FOR : VOTE_AGAINST, "");
+    }
+
+    /**
+     * @dev Vote for, against or abstain, with a reason emitted in VoteCast
+     * Abstaining counts toward the 2/3 participation quorum but not the majority
+     * @param support 0 = against, 1 = for, 2 = abstain
+     * @param reason Free-form explanation, may be empty
+     */
+    function castVote(uint256 proposalId, uint8 support, string calldata reason) external {
+        _vote(proposalId, msg.sender, support, reason);
+    }
+
+    /**
+     * @dev Vote with an EIP-712 signature from a quorum member
+     * @param voter The quorum member who signed the vote
+     * @param deadline Timestamp after which the signature is no longer valid
+     * @param signature Signature over Vote
+     */
+    function voteBySig(
+        uint256 proposalId,
+        bool support,
+        address voter,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        _checkSignature(
+            voter,
+            deadline,
+            keccak256(abi.encode(VOTE_TYPEHASH, proposalId, support, voter, _useNonce(voter), deadline)),
+            signature
+        );
+        _vote(proposalId, voter, support ? VOTE_FOR : VOTE_AGAINST, "");
+    }
+
+    /**
+     * @dev castVote with an EIP-712 signature from a quorum member
+     * @param voter The quorum member who signed the vote
+     * @param deadline Timestamp after which the signature is no longer valid
+     * @param signature Signature over CastVote, which includes the reason
+     */
+    function castVoteBySig(
+        uint256 proposalId,
+        uint8 support,
+        string calldata reason,
+        address voter,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        _checkSignature(
+            voter,
+            deadline,
+            keccak256(
+                abi.encode(CAST_VOTE_TYPEHASH, proposalId, support, keccak256(bytes(reason)), voter, _useNonce(voter), deadline)
+            ),
+            signature
+        );
+        _vote(proposalId, voter, support, reason);
+    }
+
+    /**
+     * @dev Vote on a proposal's token-holder track with the sender's
+     * checkpointed MarketToken votes at the proposal's snapshot
+     */
+    function voteWithTokens(uint256 proposalId, bool support) external {
+        Proposal storage proposal = proposals[proposalId];
+        TokenVote storage tally = tokenVotes[proposalId];
+        require(block.timestamp < proposal.deadline, "Voting ended");
+        require(proposal.status == ProposalStatus.Active, "Proposal not active");
+        require(tally.required, "No token vote");
+        require(!hasVotedWithTokens[proposalId][msg.sender], "Already voted");
+
+        uint256 votes = IVotes(marketToken[proposal.marketId]).getPastVotes(msg.sender, tally.snapshot);
+        require(votes > 0, "No voting power");
+
+        hasVotedWithTokens[proposalId][msg.sender] = true;
+        if (support) {
+            tally.forVotes += votes;
+        } else {
+            tally.againstVotes += votes;
+        }
+
+        emit TokenVoteCast(proposalId, msg.sender, support, votes);
+    }
+
+    /**
+     * @dev Delegate the sender's voting weight in a market to another member
+     * Pass your own address to stop delegating. Applies to votes cast after
+     * the change, including on proposals already open.
+     * @param delegatee Member who will vote with the sender's weight
+     */
+    function delegate(uint256 marketId, address delegatee) external {
         require(isQuorumMember[marketId][msg.sender], "Not quorum member");
 
+        address previous = delegates[marketId][msg.sender];
+        if (previous != address(0)) {
+            _removeDelegator(marketId, previous, msg.sender);
+        }
+
+        if (delegatee == msg.sender) {
+            delete delegates[marketId][msg.sender];
+        } else {
+            require(isQuorumMember[marketId][delegatee], "Delegatee not quorum member");
+            require(delegates[marketId][delegatee] == address(0), "Delegatee has delegated");
+            require(delegators[marketId][msg.sender].length == 0, "Sender has delegators");
+
+            delegates[marketId][msg.sender] = delegatee;
+            delegators[marketId][delegatee].push(msg.sender);
+        }
+
+        emit DelegateChanged(marketId, msg.sender, previous == address(0) ? msg.sender : previous, delegatee);
+    }
+
+    /**
+     * @dev Cancel a proposal that hasn't been executed
+     * The proposer can withdraw it while no votes have been cast. Otherwise the
+     * call is the sender's vote to cancel, and the proposal is cancelled once
+     * 2/3 of the market's weight has voted to cancel.
+     */
+    function cancel(uint256 proposalId) external {
+        require(proposalId < proposalCount, "Unknown proposal");
+        Proposal storage proposal = proposals[proposalId];
+        require(
+            proposal.status == ProposalStatus.Active || proposal.status == ProposalStatus.Queued,
+            "Proposal not active"
+        );
+
+        if (msg.sender == proposal.proposer && proposal.forVotes + proposal.againstVotes + proposal.abstainVotes == 0) {
+            _cancel(proposalId, proposal);
+            return;
+        }
+
+        // Counts delegated weight the same way as _vote
+        (bool eligible, uint256 weight) = _getVotingWeight(proposal, msg.sender);
+        require(eligible, "Not quorum member");
+        require(!hasVotedCancel[proposalId][msg.sender], "Already voted to cancel");
+        require(delegates[proposal.marketId][msg.sender] == address(0), "Weight delegated");
+
+        hasVotedCancel[proposalId][msg.sender] = true;
+        weight += _delegatedWeight(proposal, msg.sender, hasVotedCancel[proposalId]);
+        cancelVotes[proposalId] += weight;
+
+        emit CancelVoteCast(proposalId, msg.sender, weight);
+
+        if (cancelVotes[proposalId] * 10000 >= _getTotalWeight(proposal) * QUORUM_THRESHOLD_BPS) {
+            _cancel(proposalId, proposal);
+        }
+    }
+
+    /**
+     * @dev Queue a passed proposal, starting its market's timelock delay
+     * @notice The ETA must fall within EXECUTION_WINDOW after voting ends
+     */
+    function queue(uint256 proposalId) external {
+        Proposal storage proposal = proposals[proposalId];
+        _checkVoteResult(proposal);
+        require(_passed(proposalId, proposal), "Proposal defeated");
+
+        uint256 eta = block.timestamp + marketTimelockDelay[proposal.marketId];
+        require(eta <= proposal.deadline + EXECUTION_WINDOW, "Timelock exceeds window");
+
+        proposal.status = ProposalStatus.Queued;
+        proposal.eta = eta;
+
+        emit ProposalQueued(proposalId, proposal.marketId, eta);
+    }
+
+    /**
+     * @dev Execute a passed proposal, or mark a defeated one Failed
+     * @notice Must be executed within EXECUTION_WINDOW after voting ends.
+     * Passed proposals in markets with a timelock must be queued first.
+     */
+    function execute(uint256 proposalId) external nonReentrant {
+        Proposal storage proposal = proposals[proposalId];
+
+        if (proposal.status == ProposalStatus.Queued) {
+            require(block.timestamp >= proposal.eta, "Timelock not expired");
+            require(block.timestamp <= proposal.deadline + EXECUTION_WINDOW, "Execution expired");
+            _executePassed(proposalId, proposal);
+            return;
+        }
+
+        _checkVoteResult(proposal);
+
+        // Check majority
+        if (_passed(proposalId, proposal)) {
+            require(marketTimelockDelay[proposal.marketId] == 0, "Proposal not queued");
+            _executePassed(proposalId, proposal);
+        } else {
+            proposal.status = ProposalStatus.Failed;
+            emit ProposalExecuted(proposalId, false);
+        }
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @dev Revert unless voting has ended, the execution window is open and
+     * the proposal is active with 2/3 participation
+     */
+    function _checkVoteResult(Proposal storage proposal) internal view {
+        require(block.timestamp >= proposal.deadline, "Voting ongoing");
+        require(block.timestamp <= proposal.deadline + EXECUTION_WINDOW, "Execution expired");
+        require(proposal.status == ProposalStatus.Active, "Proposal not active");
+
+        // Check quorum (2/3 participation, abstentions included)
+        uint256 totalVotes = proposal.forVotes + proposal.againstVotes + proposal.abstainVotes;
+        uint256 totalWeight = _getTotalWeight(proposal);
+        require(
+            totalVotes * 10000 >= totalWeight * QUORUM_THRESHOLD_BPS,
+            "Quorum not reached"
+        );
+    }
+
+    /**
+     * @dev Whether the agent majority, and the token-holder vote if the
+     * proposal has one, are in favour
+     */
+    function _passed(uint256 proposalId, Proposal storage proposal) internal view returns (bool) {
+        if (proposal.forVotes <= proposal.againstVotes) return false;
+
+        TokenVote storage tally = tokenVotes[proposalId];
+        if (!tally.required) return true;
+
+        uint256 supply = MarketToken(marketToken[proposal.marketId]).getPastCirculatingSupply(tally.snapshot);
+        return tally.forVotes > tally.againstVotes &&
+            (tally.forVotes + tally.againstVotes) * 10000 >= supply * tokenQuorumBps;
+    }
+
+    /**
+     * @dev Expired is derived: a proposal still pending at its deadline has
+     * no transaction to mark it, so it is reported from the deadline
+     */
+    function _quorumStatus(QuorumProposal storage proposal) internal view returns (QuorumStatus) {
+        if (proposal.executed) return QuorumStatus.Formed;
+        if (proposal.rejected) return QuorumStatus.Rejected;
+        if (block.timestamp >= proposal.deadline) return QuorumStatus.Expired;
+        return QuorumStatus.Pending;
+    }
+
+    function _cancel(uint256 proposalId, Proposal storage proposal) internal {
+        proposal.status = ProposalStatus.Cancelled;
+        emit ProposalCancelled(proposalId);
+    }
+
+    function _executePassed(uint256 proposalId, Proposal storage proposal) internal {
+        proposal.status = ProposalStatus.Passed;
+        bool success = _executeProposal(proposal);
+        proposal.status = success ? ProposalStatus.Executed : ProposalStatus.Failed;
+        emit ProposalExecuted(proposalId, success);
+    }
+
+    function _proposeQuorum(
+        address[] calldata agents,
+        uint256[] calldata weights,
+        string calldata name,
+        string calldata symbol,
+        string calldata thesis
+    ) internal returns (uint256 proposalId) {
+        require(agents.length >= 3 && agents.length <= 10, "Quorum size 3-10");
+        require(agents.length == weights.length, "Weights mismatch");
+        require(_sumWeights(weights) == 100, "Weights must sum to 100");
+        require(!_hasDuplicates(agents), "Duplicate agents");
+        require(_isInArray(msg.sender, agents), "Proposer must be in quorum");
+
+        proposalId = quorumProposalCount++;
+
+        QuorumProposal storage proposal = quorumProposals[proposalId];
+        proposal.id = proposalId;
+        proposal.proposedAgents = agents;
+        proposal.weights = weights;
+        proposal.name = name;
+        proposal.symbol = symbol;
+        proposal.thesis = thesis;
+        proposal.approvalCount = 1; // Proposer auto-approves
+        proposal.deadline = block.timestamp + VOTING_PERIOD;
+        proposal.executed = false;
+        proposal.hasApproved[msg.sender] = true;
+
+        emit QuorumProposalCreated(proposalId, agents, thesis);
+        emit QuorumApproval(proposalId, msg.sender);
+    }
+
+    function _approveQuorum(uint256 proposalId, address agent) internal {
+        QuorumProposal storage proposal = quorumProposals[proposalId];
+        require(block.timestamp < proposal.deadline, "Voting ended");
+        require(!proposal.executed, "Already executed");
+        require(!proposal.rejected, "Quorum rejected");
+        require(!proposal.hasApproved[agent], "Already approved");
+        require(_isInArray(agent, proposal.proposedAgents), "Not in proposed quorum");
+
+        proposal.hasApproved[agent] = true;
+        proposal.approvalCount++;
+
+        emit QuorumApproval(proposalId, agent);
+
+        // If all agents approved, execute
+        if (proposal.approvalCount == proposal.proposedAgents.length) {
+            _executeQuorumProposal(proposalId);
+        }
+    }
+
+    function _propose(
+        uint256 marketId,
+        ProposalType pType,
+        address target,
+        uint256 value,
+        bytes calldata data,
+        string calldata description,
+        address proposer
+    ) internal returns (uint256 proposalId) {
+        require(isQuorumMember[marketId][proposer], "Not quorum member");
+        require(pType != ProposalType.Call || allowedCallTargets[target], "Target not allowed");
+        require(pType != ProposalType.SetWeight || _validWeightChange(marketId, data), "Invalid weights");
+
         proposalId = proposalCount++;
 
         proposals[proposalId] = Proposal({
@@ -302,130 +946,309 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
             againstVotes: 0,
             deadline: block.timestamp + VOTING_PERIOD,
             status: ProposalStatus.Active,
-            proposer: msg.sender,
-            description: description
+            proposer: proposer,
+            description: description,
+            eta: 0,
+            abstainVotes: 0
         });
 
-        emit ProposalCreated(proposalId, marketId, pType, msg.sender, description);
+        if (tokenVoteRequired[marketId][pType]) {
+            // The previous block is final, so votes bought after proposing don't count
+            tokenVotes[proposalId] = TokenVote({
+                required: true,
+                snapshot: uint48(block.number - 1),
+                forVotes: 0,
+                againstVotes: 0
+            });
+        }
+
+        emit ProposalCreated(proposalId, marketId, pType, proposer, description);
     }
 
-    /**
-     * @dev Vote on a governance proposal
-     */
-    function vote(uint256 proposalId, bool support) external {
+    function _vote(uint256 proposalId, address voter, uint8 support, string memory reason) internal {
         Proposal storage proposal = proposals[proposalId];
         require(block.timestamp < proposal.deadline, "Voting ended");
         require(proposal.status == ProposalStatus.Active, "Proposal not active");
-        require(isQuorumMember[proposal.marketId][msg.sender], "Not quorum member");
-        require(!hasVoted[proposalId][msg.sender], "Already voted");
+        require(support <= VOTE_ABSTAIN, "Invalid vote type");
 
-        hasVoted[proposalId][msg.sender] = true;
+        // Get voting weight at the proposal's snapshot, plus delegators'
+        // weight not yet counted on this proposal
+        (bool eligible, uint256 weight) = _getVotingWeight(proposal, voter);
+        require(eligible, "Not quorum member");
+        require(!hasVoted[proposalId][voter], "Already voted");
+        require(delegates[proposal.marketId][voter] == address(0), "Weight delegated");
 
-        // Get voting weight from market
-        uint256 weight = _getVotingWeight(proposal.marketId, msg.sender);
+        hasVoted[proposalId][voter] = true;
+        weight += _delegatedWeight(proposal, voter, hasVoted[proposalId]);
 
-        if (support) {
+        if (support == VOTE_FOR) {
             proposal.forVotes += weight;
-        } else {
+        } else if (support == VOTE_AGAINST) {
             proposal.againstVotes += weight;
+        } else {
+            proposal.abstainVotes += weight;
         }
 
-        emit VoteCast(proposalId, msg.sender, support, weight);
+        emit VoteCast(proposalId, voter, support, weight, reason);
     }
 
     /**
-     * @dev Execute a passed proposal
-     * @notice Must be executed within EXECUTION_WINDOW after voting ends
+     * @dev Snapshot weight of delegatee's delegators not yet in counted,
+     * marking them counted so the weight can't be added twice
      */
-    function execute(uint256 proposalId) external nonReentrant {
-        Proposal storage proposal = proposals[proposalId];
-        require(block.timestamp >= proposal.deadline, "Voting ongoing");
-        require(block.timestamp <= proposal.deadline + EXECUTION_WINDOW, "Execution expired");
-        require(proposal.status == ProposalStatus.Active, "Proposal not active");
-
-        // Check quorum (2/3 participation)
-        uint256 totalVotes = proposal.forVotes + proposal.againstVotes;
-        uint256 totalWeight = _getTotalWeight(proposal.marketId);
-        require(
-            totalVotes * 10000 >= totalWeight * QUORUM_THRESHOLD_BPS,
-            "Quorum not reached"
-        );
-
-        // Check majority
-        if (proposal.forVotes > proposal.againstVotes) {
-            proposal.status = ProposalStatus.Passed;
-            bool success = _executeProposal(proposal);
-            proposal.status = success ? ProposalStatus.Executed : ProposalStatus.Failed;
-            emit ProposalExecuted(proposalId, success);
-        } else {
-            proposal.status = ProposalStatus.Failed;
-            emit ProposalExecuted(proposalId, false);
+    function _delegatedWeight(
+        Proposal storage proposal,
+        address delegatee,
+        mapping(address => bool) storage counted
+    ) internal returns (uint256 weight) {
+        address[] storage from = delegators[proposal.marketId][delegatee];
+        for (uint256 i = 0; i < from.length; i++) {
+            if (!counted[from[i]]) {
+                counted[from[i]] = true;
+                (, uint256 delegated) = _getVotingWeight(proposal, from[i]);
+                weight += delegated;
+            }
         }
     }
 
-    // ============ Internal Functions ============
+    /**
+     * @dev Revert unless signature is signer's valid, unexpired signature over structHash
+     * The caller consumes the signer's nonce while building structHash, so a
+     * signature can only be used once and in order
+     */
+    function _checkSignature(
+        address signer,
+        uint256 deadline,
+        bytes32 structHash,
+        bytes calldata signature
+    ) internal view {
+        require(block.timestamp <= deadline, "Signature expired");
+        (address recovered, ECDSA.RecoverError err, ) = ECDSA.tryRecover(_hashTypedDataV4(structHash), signature);
+        require(err == ECDSA.RecoverError.NoError && recovered == signer, "Invalid signature");
+    }
 
     function _executeProposal(Proposal storage proposal) internal returns (bool) {
-        if (proposal.pType == ProposalType.AddAgent) {
-            // NEW-01 FIX: Assign voting weight from proposal.value
-            isQuorumMember[proposal.marketId][proposal.target] = true;
-            uint256 newWeight = proposal.value;
-            if (newWeight > 0) {
-                agentWeight[proposal.marketId][proposal.target] = newWeight;
-                marketTotalWeight[proposal.marketId] += newWeight;
-                emit AgentWeightUpdated(proposal.marketId, proposal.target, newWeight);
-            }
-            return true;
-        } else if (proposal.pType == ProposalType.RemoveAgent) {
-            // NEW-02 FIX: Clear weight and update total
-            isQuorumMember[proposal.marketId][proposal.target] = false;
-            uint256 oldWeight = agentWeight[proposal.marketId][proposal.target];
-            if (oldWeight > 0) {
-                agentWeight[proposal.marketId][proposal.target] = 0;
-                marketTotalWeight[proposal.marketId] -= oldWeight;
-                emit AgentWeightUpdated(proposal.marketId, proposal.target, 0);
-            }
-            return true;
+        if (proposal.pType == ProposalType.AddAgent || proposal.pType == ProposalType.RemoveAgent) {
+            return _executeMembership(proposal);
         } else if (proposal.pType == ProposalType.TreasurySpend) {
-            // Treasury spending is handled off-chain via proposal.target (recipient)
-            // and proposal.value (amount). The actual transfer must be executed
-            // by a separate treasury contract or multisig that monitors this event.
-            // This allows flexible treasury management without holding funds in governance.
-            emit TreasurySpendApproved(proposal.marketId, proposal.target, proposal.value);
-            return true;
+            return _executeTreasurySpend(proposal);
         } else if (proposal.pType == ProposalType.AdjustFees) {
-            // Fee adjustments are recorded on-chain. The actual fee change must be
-            // applied to the factory contract by the owner/admin based on this approval.
-            // proposal.value contains the new fee in basis points
+            // proposal.value is the new fee in basis points; the factory rejects
+            // fees outside its owner-set bounds, which fails the proposal
+            try factory.setMarketFeeBps(proposal.marketId, proposal.value) {} catch {
+                return false;
+            }
             emit FeeAdjustmentApproved(proposal.marketId, proposal.value);
             return true;
         } else if (proposal.pType == ProposalType.ForceGraduate) {
-            // Force graduation signals that the quorum wants to graduate the market
-            // even if the target raise hasn't been met. The factory must implement
-            // a function to allow governance to trigger graduation.
+            // The factory rejects markets that are paused, already graduated or
+            // below its minimum graduation raise, which fails the proposal
+            try factory.forceGraduate(proposal.marketId) {} catch {
+                return false;
+            }
             emit ForceGraduationApproved(proposal.marketId);
             return true;
+        } else if (proposal.pType == ProposalType.Call) {
+            return _executeCall(proposal);
+        } else if (proposal.pType == ProposalType.SetWeight) {
+            return _executeSetWeight(proposal);
         }
         return false;
     }
 
     /**
-     * @dev Get voting weight for an agent (uses local storage - HM-06)
-     * @param marketId The market ID
+     * @dev Add or remove proposal.target, mirroring the change in the
+     * factory's quorumAgents. Returns false if the factory rejects it.
+     */
+    function _executeMembership(Proposal storage proposal) internal returns (bool) {
+        uint256 marketId = proposal.marketId;
+        address agent = proposal.target;
+        bool member = proposal.pType == ProposalType.AddAgent;
+        // NEW-01 FIX: Assign voting weight from proposal.value
+        // NEW-02 FIX: Clear weight and update total
+        uint256 weight = member ? (proposal.value > 0 ? proposal.value : agentWeight[marketId][agent]) : 0;
+        bool weightChanged = member ? proposal.value > 0 : agentWeight[marketId][agent] > 0;
+
+        try factory.setQuorumMember(marketId, agent, member, weight) {} catch {
+            return false;
+        }
+        _setMember(marketId, agent, member, weight);
+        if (!member) {
+            _clearDelegation(marketId, agent);
+        }
+        if (weightChanged) {
+            emit AgentWeightUpdated(marketId, agent, weight);
+        }
+        return true;
+    }
+
+    /**
+     * @dev Apply every weight in a SetWeight proposal or none of them
+     * Returns false if the change is no longer valid (e.g. an agent was
+     * removed since it was proposed) or the factory rejects the new weights.
+     */
+    function _executeSetWeight(Proposal storage proposal) internal returns (bool) {
+        uint256 marketId = proposal.marketId;
+        if (!_validWeightChange(marketId, proposal.data)) return false;
+
+        (address[] memory agents, uint256[] memory weights) = abi.decode(proposal.data, (address[], uint256[]));
+        try factory.setAgentWeights(marketId, agents, weights) {} catch {
+            return false;
+        }
+
+        for (uint256 i = 0; i < agents.length; i++) {
+            _setMember(marketId, agents[i], true, weights[i]);
+            emit AgentWeightUpdated(marketId, agents[i], weights[i]);
+        }
+        return true;
+    }
+
+    /**
+     * @dev Pay proposal.value to proposal.target from the market's treasury
+     * Empty data spends ETH; otherwise data is abi.encode(token) and the
+     * spend is an ERC20 transfer. Returns false if the treasury can't pay.
+     */
+    function _executeTreasurySpend(Proposal storage proposal) internal returns (bool) {
+        MarketTreasury treasury = MarketTreasury(payable(marketTreasury[proposal.marketId]));
+        if (address(treasury) == address(0)) return false;
+
+        if (proposal.data.length == 0) {
+            try treasury.spendETH(payable(proposal.target), proposal.value) {} catch {
+                return false;
+            }
+        } else if (proposal.data.length == 32) {
+            address token = abi.decode(proposal.data, (address));
+            try treasury.spendToken(token, proposal.target, proposal.value) {} catch {
+                return false;
+            }
+        } else {
+            return false;
+        }
+
+        emit TreasurySpendApproved(proposal.marketId, proposal.target, proposal.value);
+        return true;
+    }
+
+    /**
+     * @dev Run proposal.target.call{value: proposal.value}(proposal.data) from the
+     * market's treasury. Returns false if the target was removed from the
+     * allowlist after the proposal was made or the call reverts.
+     */
+    function _executeCall(Proposal storage proposal) internal returns (bool) {
+        address treasury = marketTreasury[proposal.marketId];
+        if (treasury == address(0) || !allowedCallTargets[proposal.target]) return false;
+
+        try MarketTreasury(payable(treasury)).execute(proposal.target, proposal.value, proposal.data) {} catch {
+            return false;
+        }
+
+        emit CallExecuted(proposal.marketId, proposal.target, proposal.value);
+        return true;
+    }
+
+    /**
+     * @dev Get an agent's membership and voting weight when a proposal was
+     * created (uses local storage - HM-06)
+     * @param proposal The proposal being voted on
      * @param voter The agent address
-     * @return The agent's voting weight
+     * @return member Whether the agent was a quorum member
+     * @return weight The agent's voting weight
+     */
+    function _getVotingWeight(Proposal storage proposal, address voter) internal view returns (
+        bool member,
+        uint256 weight
+    ) {
+        WeightCheckpoint memory checkpoint = _checkpointAt(weightHistory[proposal.marketId][voter], proposal.id);
+        return (checkpoint.member, checkpoint.weight);
+    }
+
+    /**
+     * @dev Set an agent's membership and weight, keeping the market total and
+     * the history proposals snapshot in step
+     */
+    function _setMember(uint256 marketId, address agent, bool member, uint256 weight) internal {
+        uint256 total = marketTotalWeight[marketId] - agentWeight[marketId][agent] + weight;
+        isQuorumMember[marketId][agent] = member;
+        agentWeight[marketId][agent] = weight;
+        marketTotalWeight[marketId] = total;
+
+        _pushCheckpoint(weightHistory[marketId][agent], member, weight);
+        _pushCheckpoint(totalWeightHistory[marketId], true, total);
+    }
+
+    function _pushCheckpoint(WeightCheckpoint[] storage history, bool member, uint256 weight) internal {
+        WeightCheckpoint memory checkpoint = WeightCheckpoint(
+            SafeCast.toUint48(proposalCount),
+            member,
+            SafeCast.toUint200(weight)
+        );
+        uint256 length = history.length;
+        if (length > 0 && history[length - 1].key == checkpoint.key) {
+            history[length - 1] = checkpoint;
+        } else {
+            history.push(checkpoint);
+        }
+    }
+
+    /**
+     * @dev Latest checkpoint in history written at or before key, or an
+     * empty one (not a member, no weight)
+     */
+    function _checkpointAt(WeightCheckpoint[] storage history, uint256 key) internal view returns (
+        WeightCheckpoint memory
+    ) {
+        uint256 low = 0;
+        uint256 high = history.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (history[mid].key > key) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        return high == 0 ? WeightCheckpoint(0, false, 0) : history[high - 1];
+    }
+
+    function _removeDelegator(uint256 marketId, address delegatee, address delegator) internal {
+        address[] storage list = delegators[marketId][delegatee];
+        for (uint256 i = 0; i < list.length; i++) {
+            if (list[i] == delegator) {
+                list[i] = list[list.length - 1];
+                list.pop();
+                return;
+            }
+        }
+    }
+
+    /**
+     * @dev Undo a removed member's delegation both ways: take it out of its
+     * delegatee's delegators, and hand each of its delegators their weight back
      */
-    function _getVotingWeight(uint256 marketId, address voter) internal view returns (uint256) {
-        return agentWeight[marketId][voter];
+    function _clearDelegation(uint256 marketId, address agent) internal {
+        address delegatee = delegates[marketId][agent];
+        if (delegatee != address(0)) {
+            _removeDelegator(marketId, delegatee, agent);
+            delete delegates[marketId][agent];
+            emit DelegateChanged(marketId, agent, delegatee, agent);
+        }
+
+        address[] storage list = delegators[marketId][agent];
+        for (uint256 i = 0; i < list.length; i++) {
+            delete delegates[marketId][list[i]];
+            emit DelegateChanged(marketId, list[i], agent, list[i]);
+        }
+        delete delegators[marketId][agent];
     }
 
     /**
-     * @dev Get total voting weight for a market (uses local storage - HM-06)
-     * @param marketId The market ID
+     * @dev Get the market's total voting weight when a proposal was created
+     * (uses local storage - HM-06)
+     * @param proposal The proposal being voted on
      * @return The total voting weight
      */
-    function _getTotalWeight(uint256 marketId) internal view returns (uint256) {
-        return marketTotalWeight[marketId];
+    function _getTotalWeight(Proposal storage proposal) internal view returns (uint256) {
+        return _checkpointAt(totalWeightHistory[proposal.marketId], proposal.id).weight;
     }
 
     function _isInArray(address addr, address[] memory arr) internal pure returns (bool) {
@@ -444,10 +1267,26 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
         }
     }
 
+    /**
+     * @dev Whether data encodes a SetWeight change of distinct current members
+     * that leaves the market with some weight
+     */
+    function _validWeightChange(uint256 marketId, bytes memory data) internal view returns (bool) {
+        (address[] memory agents, uint256[] memory weights) = abi.decode(data, (address[], uint256[]));
+        if (agents.length == 0 || agents.length != weights.length || _hasDuplicates(agents)) return false;
+
+        uint256 total = marketTotalWeight[marketId];
+        for (uint256 i = 0; i < agents.length; i++) {
+            if (!isQuorumMember[marketId][agents[i]]) return false;
+            total = total - agentWeight[marketId][agents[i]] + weights[i];
+        }
+        return total > 0;
+    }
+
     /**
      * @dev Check for duplicate addresses (NEW-04 FIX)
      */
-    function _hasDuplicates(address[] calldata arr) internal pure returns (bool) {
+    function _hasDuplicates(address[] memory arr) internal pure returns (bool) {
         for (uint256 i = 0; i < arr.length; i++) {
             for (uint256 j = i + 1; j < arr.length; j++) {
                 if (arr[i] == arr[j]) return true;
@@ -469,7 +1308,9 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
         uint256 deadline,
         ProposalStatus status,
         address proposer,
-        string memory description
+        string memory description,
+        uint256 eta,
+        uint256 abstainVotes
     ) {
         Proposal storage p = proposals[proposalId];
         return (
@@ -483,10 +1324,20 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
             p.deadline,
             p.status,
             p.proposer,
-            p.description
+            p.description,
+            p.eta,
+            p.abstainVotes
         );
     }
 
+    /**
+     * @dev Proposal data, which getProposal leaves out (SetWeight weights,
+     * TreasurySpend token, Call calldata)
+     */
+    function getProposalData(uint256 proposalId) external view returns (bytes memory) {
+        return proposals[proposalId].data;
+    }
+
     function getQuorumProposal(uint256 proposalId) external view returns (
         uint256 id,
         address[] memory proposedAgents,
@@ -496,7 +1347,8 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
         string memory thesis,
         uint256 approvalCount,
         uint256 deadline,
-        bool executed
+        bool executed,
+        QuorumStatus status
     ) {
         QuorumProposal storage p = quorumProposals[proposalId];
         return (
@@ -508,14 +1360,114 @@ contract QuorumGovernance is Ownable, ReentrancyGuard {
             p.thesis,
             p.approvalCount,
             p.deadline,
-            p.executed
+            p.executed,
+            _quorumStatus(p)
         );
     }
 
+    /**
+     * @dev EIP-712 domain separator for signed governance actions
+     */
+    function DOMAIN_SEPARATOR() external view returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
+    /**
+     * @dev An agent's weight and the market's total weight as of a proposal's
+     * creation, which is what the proposal's vote counts
+     */
+    function getProposalWeight(uint256 proposalId, address agent) external view returns (
+        uint256 weight,
+        uint256 totalWeight
+    ) {
+        Proposal storage proposal = proposals[proposalId];
+        (, weight) = _getVotingWeight(proposal, agent);
+        totalWeight = _getTotalWeight(proposal);
+    }
+
+    /**
+     * @dev Current quorum of a market, read from the factory, which governance
+     * keeps in step with isQuorumMember and agentWeight
+     */
+    function getQuorum(uint256 marketId) external view returns (address[] memory agents, uint256[] memory weights) {
+        return factory.getQuorum(marketId);
+    }
+
+    /**
+     * @dev Members currently delegating their weight in a market to delegatee
+     */
+    function getDelegators(uint256 marketId, address delegatee) external view returns (address[] memory) {
+        return delegators[marketId][delegatee];
+    }
+
+    /**
+     * @dev Get the market config a quorum proposal will create its market with
+     */
+    function getQuorumProposalConfig(uint256 proposalId) external view returns (
+        bool customCurve,
+        CurveType curveType,
+        uint256[] memory curveParams,
+        uint256 targetRaise
+    ) {
+        QuorumProposal storage p = quorumProposals[proposalId];
+        return (p.customCurve, p.curveType, p.curveParams, p.targetRaise);
+    }
+
     // ============ Admin Functions ============
 
     function setFactory(address _factory) external onlyOwner {
         require(_factory != address(0), "Zero address");
         factory = IBondingCurveFactory(_factory);
     }
+
+    /**
+     * @dev Set the timelock delay for a market's passed proposals
+     * Applies to proposals queued after the change
+     * @param marketId The market to configure
+     * @param delay Seconds between queue() and execute(), at most MAX_TIMELOCK_DELAY
+     */
+    function setMarketTimelockDelay(uint256 marketId, uint256 delay) external onlyOwner {
+        require(delay <= MAX_TIMELOCK_DELAY, "Delay too long");
+        marketTimelockDelay[marketId] = delay;
+        emit TimelockDelayUpdated(marketId, delay);
+    }
+
+    /**
+     * @dev Set the timelock delay given to markets formed from now on
+     * @param delay Seconds between queue() and execute(), at most MAX_TIMELOCK_DELAY
+     */
+    function setDefaultTimelockDelay(uint256 delay) external onlyOwner {
+        require(delay <= MAX_TIMELOCK_DELAY, "Delay too long");
+        defaultTimelockDelay = delay;
+    }
+
+    /**
+     * @dev Allow or disallow a contract as the target of Call proposals
+     * @param target Contract address
+     * @param allowed Whether Call proposals may target it
+     */
+    function setCallTarget(address target, bool allowed) external onlyOwner {
+        require(target != address(0), "Zero address");
+        allowedCallTargets[target] = allowed;
+        emit CallTargetUpdated(target, allowed);
+    }
+
+    /**
+     * @dev Require or stop requiring a token-holder vote for a proposal type
+     * Applies to proposals created after the change
+     */
+    function setTokenVoteRequired(uint256 marketId, ProposalType pType, bool required) external onlyOwner {
+        tokenVoteRequired[marketId][pType] = required;
+        emit TokenVoteRequirementUpdated(marketId, pType, required);
+    }
+
+    /**
+     * @dev Set the share of token supply, in basis points, that must vote
+     * for a token-holder vote to count
+     */
+    function setTokenQuorumBps(uint256 bps) external onlyOwner {
+        require(bps <= 10000, "Invalid bps");
+        tokenQuorumBps = bps;
+        emit TokenQuorumUpdated(bps);
+    }
 }
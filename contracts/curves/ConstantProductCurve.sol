@@ -0,0 +1,77 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IBondingCurve.sol";
+import "./CurveMath.sol";
+
+/**
+ * @title ConstantProductCurve
+ * @dev pump.fun style CPMM over virtual reserves: ethReserve * tokenReserve = k
+ *
+ * Params: [virtualEthReserve, virtualTokenReserve]
+ *   virtualEthReserve   - ETH reserve (wei) at tokensSold = 0
+ *   virtualTokenReserve - token reserve (token wei) at tokensSold = 0
+ *
+ * Starting price is virtualEthReserve / virtualTokenReserve. The token
+ * reserve should exceed the curve allocation so the price stays finite.
+ */
+contract ConstantProductCurve is IBondingCurve {
+    uint256 private constant WAD = CurveMath.WAD;
+
+    function getPrice(uint256 tokensSold, uint256[] calldata params) external pure returns (uint256) {
+        uint256 tokenReserve = _tokenReserve(tokensSold, params);
+        return (_ethReserve(tokenReserve, params) * WAD) / tokenReserve;
+    }
+
+    function getCostToBuy(
+        uint256 tokensSold,
+        uint256 tokenAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256) {
+        return _getTotalCost(tokensSold + tokenAmount, params) - _getTotalCost(tokensSold, params);
+    }
+
+    function getSaleProceeds(
+        uint256 tokensSold,
+        uint256 tokenAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256) {
+        require(tokenAmount <= tokensSold, "Not enough tokens sold");
+        return _getTotalCost(tokensSold, params) - _getTotalCost(tokensSold - tokenAmount, params);
+    }
+
+    /**
+     * @dev Standard CPMM swap; the new token reserve rounds up so the
+     * buyer never receives more than ethAmount pays for
+     */
+    function getTokensForEth(
+        uint256 tokensSold,
+        uint256 ethAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256) {
+        uint256 tokenReserve = _tokenReserve(tokensSold, params);
+        uint256 newEthReserve = _ethReserve(tokenReserve, params) + ethAmount;
+
+        uint256 k = params[0] * params[1];
+        uint256 newTokenReserve = (k + newEthReserve - 1) / newEthReserve;
+
+        return tokenReserve > newTokenReserve ? tokenReserve - newTokenReserve : 0;
+    }
+
+    function validateParams(uint256[] calldata params) external pure returns (bool) {
+        return params.length == 2 && params[0] > 0 && params[1] > 0;
+    }
+
+    function _tokenReserve(uint256 tokensSold, uint256[] calldata params) internal pure returns (uint256) {
+        require(tokensSold < params[1], "Exceeds virtual reserve");
+        return params[1] - tokensSold;
+    }
+
+    function _ethReserve(uint256 tokenReserve, uint256[] calldata params) internal pure returns (uint256) {
+        return (params[0] * params[1]) / tokenReserve;
+    }
+
+    function _getTotalCost(uint256 tokens, uint256[] calldata params) internal pure returns (uint256) {
+        return _ethReserve(_tokenReserve(tokens, params), params) - params[0];
+    }
+}
@@ -0,0 +1,85 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title CurveMath
+ * @dev Fixed-point helpers shared by the bonding curve implementations
+ *
+ * All fixed-point values use 18 decimals (WAD). These functions are mirrored
+ * operation-for-operation in src/sdk/curves/math.ts, so any change here must
+ * be made there too or off-chain quotes will drift.
+ */
+library CurveMath {
+    uint256 internal constant WAD = 1e18;
+    uint256 internal constant LN2_WAD = 693147180559945309;
+
+    // e^60 * 1e18 ~= 1.1e44, leaving headroom for multiplication by prices
+    uint256 internal constant MAX_EXPONENT = 60 * WAD;
+
+    /**
+     * @dev Integer square root using Babylonian method
+     * @param x The number to find the square root of
+     * @return y The square root of x
+     */
+    function sqrt(uint256 x) internal pure returns (uint256 y) {
+        if (x == 0) return 0;
+
+        uint256 z = (x + 1) / 2;
+        y = x;
+
+        while (z < y) {
+            y = z;
+            z = (x / z + z) / 2;
+        }
+    }
+
+    /**
+     * @dev e^x for a WAD exponent, rounded down
+     *
+     * Range reduction: e^x = 2^k * e^r with r = x - k * ln2 in [0, ln2),
+     * then a Taylor series for e^r that stops once terms reach zero.
+     */
+    function expWad(uint256 x) internal pure returns (uint256) {
+        require(x <= MAX_EXPONENT, "Exponent too large");
+
+        uint256 k = x / LN2_WAD;
+        uint256 r = x - k * LN2_WAD;
+
+        uint256 term = WAD;
+        uint256 sum = WAD;
+        for (uint256 i = 1; term != 0; i++) {
+            term = (term * r) / (i * WAD);
+            sum += term;
+        }
+
+        return sum << k;
+    }
+
+    /**
+     * @dev ln(y) for a WAD value y >= 1, rounded down
+     *
+     * Range reduction: y = 2^k * z with z in [1, 2), then
+     * ln(z) = 2 * atanh((z - 1) / (z + 1)) as an odd power series.
+     */
+    function lnWad(uint256 y) internal pure returns (uint256) {
+        require(y >= WAD, "Log below one");
+
+        uint256 k = 0;
+        while (y >= 2 * WAD) {
+            y >>= 1;
+            k++;
+        }
+
+        uint256 u = ((y - WAD) * WAD) / (y + WAD);
+        uint256 u2 = (u * u) / WAD;
+
+        uint256 term = u;
+        uint256 sum = 0;
+        for (uint256 i = 1; term != 0; i += 2) {
+            sum += term / i;
+            term = (term * u2) / WAD;
+        }
+
+        return k * LN2_WAD + 2 * sum;
+    }
+}
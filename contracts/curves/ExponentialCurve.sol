@@ -0,0 +1,69 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IBondingCurve.sol";
+import "./CurveMath.sol";
+
+/**
+ * @title ExponentialCurve
+ * @dev Exponential bonding curve: price = basePrice * e^(growthRate * tokensSold)
+ *
+ * Params: [basePrice, growthRate]
+ *   basePrice  - starting price in wei per token
+ *   growthRate - continuous growth per whole token, 18 decimals
+ *                (1e13 => price grows by e^0.00001 per token)
+ *
+ * Total cost from zero: basePrice * (e^(growthRate * n) - 1) / growthRate
+ * Purchases invert the cost with a natural log, so no search is needed.
+ */
+contract ExponentialCurve is IBondingCurve {
+    uint256 private constant WAD = CurveMath.WAD;
+
+    function getPrice(uint256 tokensSold, uint256[] calldata params) external pure returns (uint256) {
+        return (params[0] * CurveMath.expWad(_exponent(tokensSold, params))) / WAD;
+    }
+
+    function getCostToBuy(
+        uint256 tokensSold,
+        uint256 tokenAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256) {
+        return _getTotalCost(tokensSold + tokenAmount, params) - _getTotalCost(tokensSold, params);
+    }
+
+    function getSaleProceeds(
+        uint256 tokensSold,
+        uint256 tokenAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256) {
+        require(tokenAmount <= tokensSold, "Not enough tokens sold");
+        return _getTotalCost(tokensSold, params) - _getTotalCost(tokensSold - tokenAmount, params);
+    }
+
+    /**
+     * @dev Solve basePrice * (e^x1 - e^x0) / growthRate = ethAmount for x1:
+     * x1 = ln(e^x0 + ethAmount * growthRate / basePrice)
+     */
+    function getTokensForEth(
+        uint256 tokensSold,
+        uint256 ethAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256) {
+        uint256 growth = CurveMath.expWad(_exponent(tokensSold, params)) + (ethAmount * params[1]) / params[0];
+        uint256 newTokens = (CurveMath.lnWad(growth) * WAD) / params[1];
+
+        return newTokens > tokensSold ? newTokens - tokensSold : 0;
+    }
+
+    function validateParams(uint256[] calldata params) external pure returns (bool) {
+        return params.length == 2 && params[0] > 0 && params[1] > 0;
+    }
+
+    function _exponent(uint256 tokens, uint256[] calldata params) internal pure returns (uint256) {
+        return (params[1] * tokens) / WAD;
+    }
+
+    function _getTotalCost(uint256 tokens, uint256[] calldata params) internal pure returns (uint256) {
+        return (params[0] * (CurveMath.expWad(_exponent(tokens, params)) - WAD)) / params[1];
+    }
+}
@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IBondingCurve.sol";
+import "./CurveMath.sol";
+
+/**
+ * @title LinearCurve
+ * @dev Linear bonding curve: price = basePrice + slope * tokensSold
+ *
+ * Params: [basePrice, slope]
+ *   basePrice - starting price in wei per token
+ *   slope     - price increase in wei per token sold
+ *
+ * Total cost from zero: basePrice * n + slope * n^2 / 2
+ */
+contract LinearCurve is IBondingCurve {
+    uint256 private constant WAD = CurveMath.WAD;
+
+    function getPrice(uint256 tokensSold, uint256[] calldata params) external pure returns (uint256) {
+        return params[0] + (params[1] * tokensSold / WAD);
+    }
+
+    function getCostToBuy(
+        uint256 tokensSold,
+        uint256 tokenAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256) {
+        return _getTotalCost(tokensSold + tokenAmount, params) - _getTotalCost(tokensSold, params);
+    }
+
+    function getSaleProceeds(
+        uint256 tokensSold,
+        uint256 tokenAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256) {
+        require(tokenAmount <= tokensSold, "Not enough tokens sold");
+        return _getTotalCost(tokensSold, params) - _getTotalCost(tokensSold - tokenAmount, params);
+    }
+
+    /**
+     * @dev Calculate tokens from ETH using closed-form quadratic solution (HM-04)
+     *
+     * Solving Cost(n) = targetCost for n:
+     * n = (-basePrice + sqrt(basePrice^2 + 2 * slope * cost)) / slope
+     */
+    function getTokensForEth(
+        uint256 tokensSold,
+        uint256 ethAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256) {
+        uint256 basePrice = params[0];
+        uint256 slope = params[1];
+
+        uint256 targetCost = _getTotalCost(tokensSold, params) + ethAmount;
+
+        // Handle edge case where slope is 0 (linear pricing only)
+        if (slope == 0) {
+            return (ethAmount * WAD) / basePrice;
+        }
+
+        // Scale targetCost by 10^18 to match token units
+        uint256 scaledTargetCost = targetCost * WAD;
+        uint256 discriminant = (basePrice * basePrice) + (2 * slope * scaledTargetCost / WAD);
+        uint256 sqrtDiscriminant = CurveMath.sqrt(discriminant);
+
+        if (sqrtDiscriminant <= basePrice) {
+            return 0;
+        }
+        uint256 newTokens = ((sqrtDiscriminant - basePrice) * WAD) / slope;
+
+        return newTokens > tokensSold ? newTokens - tokensSold : 0;
+    }
+
+    function validateParams(uint256[] calldata params) external pure returns (bool) {
+        return params.length == 2 && params[0] > 0;
+    }
+
+    function _getTotalCost(uint256 tokens, uint256[] calldata params) internal pure returns (uint256) {
+        uint256 linearCost = (params[0] * tokens) / WAD;
+        uint256 quadraticCost = (params[1] * tokens * tokens) / (2 * WAD * WAD);
+        return linearCost + quadraticCost;
+    }
+}
@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IBondingCurve.sol";
+import "./CurveMath.sol";
+
+/**
+ * @title SigmoidCurve
+ * @dev Algebraic sigmoid: price = a * ((s - b) / sqrt(c + (s - b)^2) + 1)
+ *
+ * Params: [halfMaxPrice, midpoint, smoothing]
+ *   halfMaxPrice (a) - price at the midpoint; the price approaches 2a
+ *   midpoint (b)     - tokensSold (token wei) where the price is steepest
+ *   smoothing (c)    - curvature in token wei squared; larger is flatter
+ *
+ * Total cost from zero: a * (sqrt(c + (s - b)^2) + s - sqrt(c + b^2))
+ * which inverts in closed form (see getTokensForEth).
+ */
+contract SigmoidCurve is IBondingCurve {
+    uint256 private constant WAD = CurveMath.WAD;
+
+    function getPrice(uint256 tokensSold, uint256[] calldata params) external pure returns (uint256) {
+        uint256 a = params[0];
+        uint256 distance = _distance(tokensSold, params[1]);
+        uint256 offset = (a * distance) / _radius(distance, params[2]);
+
+        return tokensSold >= params[1] ? a + offset : a - offset;
+    }
+
+    function getCostToBuy(
+        uint256 tokensSold,
+        uint256 tokenAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256) {
+        return _getTotalCost(tokensSold + tokenAmount, params) - _getTotalCost(tokensSold, params);
+    }
+
+    function getSaleProceeds(
+        uint256 tokensSold,
+        uint256 tokenAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256) {
+        require(tokenAmount <= tokensSold, "Not enough tokens sold");
+        return _getTotalCost(tokensSold, params) - _getTotalCost(tokensSold - tokenAmount, params);
+    }
+
+    /**
+     * @dev With N = sqrt(c + u^2) + u and u = s - b, solving for u gives
+     * u = (N^2 - c) / (2N). N follows from the target cost, and both
+     * branches round so the new tokensSold is never overstated.
+     */
+    function getTokensForEth(
+        uint256 tokensSold,
+        uint256 ethAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256) {
+        uint256 b = params[1];
+        uint256 c = params[2];
+
+        uint256 targetCost = _getTotalCost(tokensSold, params) + ethAmount;
+        uint256 m = (targetCost * WAD) / params[0] + _radius(b, c);
+        if (m <= b) {
+            return 0;
+        }
+        uint256 n = m - b;
+        uint256 nSquared = n * n;
+
+        uint256 newTokens;
+        if (nSquared >= c) {
+            newTokens = b + (nSquared - c) / (2 * n);
+        } else {
+            uint256 below = (c - nSquared + 2 * n - 1) / (2 * n);
+            newTokens = b > below ? b - below : 0;
+        }
+
+        return newTokens > tokensSold ? newTokens - tokensSold : 0;
+    }
+
+    function validateParams(uint256[] calldata params) external pure returns (bool) {
+        return params.length == 3 && params[0] > 0 && params[2] > 0;
+    }
+
+    function _distance(uint256 tokens, uint256 midpoint) internal pure returns (uint256) {
+        return tokens >= midpoint ? tokens - midpoint : midpoint - tokens;
+    }
+
+    function _radius(uint256 distance, uint256 smoothing) internal pure returns (uint256) {
+        return CurveMath.sqrt(smoothing + distance * distance);
+    }
+
+    function _getTotalCost(uint256 tokens, uint256[] calldata params) internal pure returns (uint256) {
+        uint256 radius = _radius(_distance(tokens, params[1]), params[2]);
+        return (params[0] * (radius + tokens - _radius(params[1], params[2]))) / WAD;
+    }
+}
@@ -0,0 +1,60 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @dev Curve shapes supported by BondingCurveFactory
+ * Order must stay in sync with CurveType in src/sdk/types.ts
+ */
+enum CurveType {
+    Linear,
+    Exponential,
+    ConstantProduct,
+    Sigmoid
+}
+
+/**
+ * @title IBondingCurve
+ * @dev Common interface for bonding curve shapes
+ *
+ * Curves are stateless: the factory passes the current tokensSold and the
+ * market's parameter array on every call. All token amounts are in token wei
+ * (18 decimals) and all prices/costs are in ETH wei.
+ */
+interface IBondingCurve {
+    /**
+     * @dev Spot price (wei per whole token) at the given tokensSold
+     */
+    function getPrice(uint256 tokensSold, uint256[] calldata params) external pure returns (uint256);
+
+    /**
+     * @dev ETH needed to buy tokenAmount starting from tokensSold
+     */
+    function getCostToBuy(
+        uint256 tokensSold,
+        uint256 tokenAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256);
+
+    /**
+     * @dev ETH released by selling tokenAmount back from tokensSold
+     */
+    function getSaleProceeds(
+        uint256 tokensSold,
+        uint256 tokenAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256);
+
+    /**
+     * @dev Tokens received for spending ethAmount starting from tokensSold (rounds down)
+     */
+    function getTokensForEth(
+        uint256 tokensSold,
+        uint256 ethAmount,
+        uint256[] calldata params
+    ) external pure returns (uint256);
+
+    /**
+     * @dev True if params are well-formed for this curve
+     */
+    function validateParams(uint256[] calldata params) external pure returns (bool);
+}
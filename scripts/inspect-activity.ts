@@ -43,6 +43,7 @@ async function main() {
     console.log("  Seller:", event.args[1]);
     console.log("  Tokens:", ethers.formatEther(event.args[2]));
     console.log("  ETH:", ethers.formatEther(event.args[3]));
+    console.log("  New price:", ethers.formatEther(event.args[4]));
   }
 
   // Get market created events
@@ -1,9 +1,13 @@
 /**
  * Bonding Curve Economics Comparison
  *
- * Models: pump.fun vs Headless Markets (current) vs Headless Markets (adjusted)
+ * Models: pump.fun vs Headless Markets (current) vs Headless Markets (adjusted),
+ * plus every on-chain curve shape simulated with the SDK's wei-exact curve math
  */
 
+import { formatEther, parseEther } from "ethers";
+import { curveMath, CurveType } from "../src/sdk";
+
 // ============ PUMP.FUN MODEL ============
 // pump.fun uses Constant Product Market Maker (CPMM) with virtual reserves
 // Formula: Price = virtualSOL / virtualTokens
@@ -179,6 +183,54 @@ console.log(`| Headless (20x) | ${headless20x.fdvLiquidityRatio.toFixed(1)}x | $
 console.log(`| Headless (25x) | ${headless25x.fdvLiquidityRatio.toFixed(1)}x | ${headless25x.tokensSold.toFixed(0)} | ${(headless25x.finalPrice / headless25x.params.basePrice).toFixed(1)}x | ${headless25x.fdvAtGraduation.toFixed(0)} ETH |`);
 console.log(`| Headless (pump match) | ${headlessPumpMatch.fdvLiquidityRatio.toFixed(1)}x | ${headlessPumpMatch.tokensSold.toFixed(0)} | ${(headlessPumpMatch.finalPrice / headlessPumpMatch.params.basePrice).toFixed(1)}x | ${headlessPumpMatch.fdvAtGraduation.toFixed(0)} ETH |`);
 
+// ============ CURVE SHAPES (ON-CHAIN MATH) ============
+// Uses src/sdk/curves, which matches the curve contracts wei-for-wei
+
+function modelCurveShape(label: string, curveType: CurveType, params: bigint[], targetRaise: bigint) {
+  const totalSupply = 1_000_000;
+  const start: curveMath.CurveState = { curveType, params, tokensSold: 0n };
+  const end = curveMath.applyPurchase(start, targetRaise);
+
+  const tokensSold = Number(formatEther(end.tokensSold));
+  const initialPrice = Number(formatEther(curveMath.getCurrentPrice(start)));
+  const finalPrice = Number(formatEther(curveMath.getCurrentPrice(end)));
+  const fdvAtGraduation = finalPrice * totalSupply;
+  const fdvLiquidityRatio = fdvAtGraduation / Number(formatEther(targetRaise));
+
+  console.log(`\n============ ${label} ============`);
+  console.log(`Params: [${params.join(", ")}]`);
+  console.log(`Tokens Sold at Graduation: ${tokensSold.toFixed(0)} (${(tokensSold / 600_000 * 100).toFixed(1)}% of curve)`);
+  console.log(`Initial Price: ${initialPrice.toFixed(8)} ETH`);
+  console.log(`Final Price: ${finalPrice.toFixed(8)} ETH`);
+  console.log(`Price Multiple: ${(finalPrice / initialPrice).toFixed(1)}x`);
+  console.log(`FDV:Liquidity Ratio: ${fdvLiquidityRatio.toFixed(1)}x`);
+
+  return { label, fdvLiquidityRatio, tokensSold, priceMultiple: finalPrice / initialPrice };
+}
+
+console.log("\n" + "=".repeat(60));
+console.log("CURVE SHAPES (10 ETH GRADUATION)");
+console.log("=".repeat(60));
+
+const shapes = [
+  modelCurveShape("LINEAR (20x)", CurveType.Linear, [parseEther("0.0001"), parseEther("0.000000002")], parseEther("10")),
+  modelCurveShape("EXPONENTIAL", CurveType.Exponential, [parseEther("0.0001"), 7_675_000_000_000n], parseEther("10")),
+  // Virtual reserves in the same 1:10,730 ratio as pump.fun's 30 SOL / 1.073B tokens
+  modelCurveShape("CONSTANT PRODUCT", CurveType.ConstantProduct, [parseEther("100"), parseEther("1073000")], parseEther("10")),
+  modelCurveShape(
+    "SIGMOID",
+    CurveType.Sigmoid,
+    [parseEther("0.0001"), parseEther("300000"), parseEther("100000") ** 2n],
+    parseEther("10")
+  ),
+];
+
+console.log("\n| Curve | FDV:Liquidity | Tokens Sold | Price Multiple |");
+console.log("|-------|---------------|-------------|----------------|");
+for (const shape of shapes) {
+  console.log(`| ${shape.label} | ${shape.fdvLiquidityRatio.toFixed(1)}x | ${shape.tokensSold.toFixed(0)} | ${shape.priceMultiple.toFixed(1)}x |`);
+}
+
 // ============ RECOMMENDATIONS ============
 
 console.log("\n" + "=".repeat(60));
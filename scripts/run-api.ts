@@ -0,0 +1,48 @@
+import { ethers, network } from "hardhat";
+import { ApiServer } from "../src/api";
+import { IndexerDatabase, ProtocolIndexer } from "../src/indexer";
+import { HeadlessMarketsClient, resolveAddresses } from "../src/sdk";
+
+/**
+ * Serve the read-only market API, keeping the index up to date in the background
+ *
+ * Usage: npx hardhat run scripts/run-api.ts --network base-sepolia
+ *
+ * Env:
+ *   API_PORT             Port to listen on (default 3001)
+ *   INDEXER_DB           Database file (default indexer.db)
+ *   INDEXER_START_BLOCK  First block to index on a fresh database (default 0)
+ *   FACTORY_ADDRESS / GOVERNANCE_ADDRESS  Override deployments.json (e.g. local node)
+ */
+async function main() {
+  const { chainId } = await ethers.provider.getNetwork();
+  const addresses =
+    process.env.FACTORY_ADDRESS && process.env.GOVERNANCE_ADDRESS
+      ? { factory: process.env.FACTORY_ADDRESS, governance: process.env.GOVERNANCE_ADDRESS }
+      : resolveAddresses(chainId);
+
+  const db = new IndexerDatabase(process.env.INDEXER_DB || "indexer.db");
+  const indexer = new ProtocolIndexer(ethers.provider, addresses, db, {
+    startBlock: Number(process.env.INDEXER_START_BLOCK || 0),
+  });
+  const client = await HeadlessMarketsClient.connect(ethers.provider, { addresses });
+  const server = new ApiServer(db, client);
+
+  console.log("=== Headless Markets API ===\n");
+  console.log("Network:", network.name);
+
+  await indexer.sync();
+  const port = await server.listen(Number(process.env.API_PORT || 3001));
+  console.log(`Listening on http://127.0.0.1:${port}`);
+
+  process.on("SIGINT", () => {
+    console.log("\nShutting down...");
+    indexer.stop();
+  });
+
+  await indexer.run();
+  await server.close();
+  db.close();
+}
+
+main().catch(console.error);
@@ -0,0 +1,48 @@
+import { ethers, network } from "hardhat";
+import { IndexerDatabase, ProtocolIndexer } from "../src/indexer";
+import { resolveAddresses } from "../src/sdk";
+
+/**
+ * Follow protocol events into a local SQLite database
+ *
+ * Usage: npx hardhat run scripts/run-indexer.ts --network base-sepolia
+ *
+ * Env:
+ *   INDEXER_DB           Database file (default indexer.db)
+ *   INDEXER_START_BLOCK  First block to index on a fresh database (default 0)
+ *   INDEXER_CONFIRMATIONS  Blocks to stay behind head (default 2)
+ */
+async function main() {
+  const { chainId } = await ethers.provider.getNetwork();
+  const addresses = resolveAddresses(chainId);
+
+  const db = new IndexerDatabase(process.env.INDEXER_DB || "indexer.db");
+  const indexer = new ProtocolIndexer(ethers.provider, addresses, db, {
+    startBlock: Number(process.env.INDEXER_START_BLOCK || 0),
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS || 2),
+  });
+
+  console.log("=== Headless Markets Indexer ===\n");
+  console.log("Network:", network.name);
+  console.log("Factory:", addresses.factory);
+  console.log("Governance:", addresses.governance);
+  console.log("Checkpoint:", db.getCheckpoint()?.blockNumber ?? "none");
+
+  process.on("SIGINT", () => {
+    console.log("\nStopping after current sync...");
+    indexer.stop();
+  });
+
+  await indexer.run((result) => {
+    if (result.reorgedTo !== null) {
+      console.log(`Reorg detected, rolled back to block ${result.reorgedTo}`);
+    }
+    if (result.toBlock >= result.fromBlock) {
+      console.log(`Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.events} events`);
+    }
+  });
+
+  db.close();
+}
+
+main().catch(console.error);
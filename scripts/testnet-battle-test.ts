@@ -15,6 +15,9 @@ import * as path from "path";
  * 4. Price Discovery - Bonding curve mechanics
  * 5. Edge Cases - Invalid inputs, boundary conditions
  * 6. Governance Integration - Proposal creation, voting
+ *
+ * Trades use buyWithDeadline / sellWithDeadline with a deadline of the latest
+ * block time plus TX_DEADLINE_TTL seconds (default 300).
  */
 
 interface TestResult {
@@ -29,6 +32,12 @@ interface TestResult {
 const results: TestResult[] = [];
 const FACTORY_ADDRESS = "0x2aA29fe97aeB0a079B241fd80BFAf64dc2273dF1";
 const GOVERNANCE_ADDRESS = "0x0EC0833743e04Ca57C0dA0EA4eCb625fb7abb92B";
+const TX_DEADLINE_TTL = BigInt(process.env.TX_DEADLINE_TTL || "300");
+
+async function txDeadline(): Promise<bigint> {
+  const block = await ethers.provider.getBlock("latest");
+  return BigInt(block!.timestamp) + TX_DEADLINE_TTL;
+}
 
 async function main() {
   console.log("=".repeat(70));
@@ -207,7 +216,7 @@ async function main() {
       const expectedTokens = await factory.calculatePurchaseReturn(testMarketId, buyAmount);
       const minTokens = expectedTokens * 95n / 100n; // 5% slippage tolerance
 
-      const tx = await factory.buy(testMarketId, minTokens, { value: buyAmount });
+      const tx = await factory.buyWithDeadline(testMarketId, minTokens, await txDeadline(), { value: buyAmount });
       const receipt = await tx.wait();
 
       results.push({
@@ -263,7 +272,7 @@ async function main() {
       const expectedTokens = await factory.calculatePurchaseReturn(testMarketId, buyAmount);
       const unrealisticMin = expectedTokens * 2n; // Demand 2x more than possible
 
-      await factory.buy(testMarketId, unrealisticMin, { value: buyAmount });
+      await factory.buyWithDeadline(testMarketId, unrealisticMin, await txDeadline(), { value: buyAmount });
 
       results.push({
         scenario: "Buy Operations",
@@ -312,6 +321,32 @@ async function main() {
       });
       console.log(`  FAIL - ${error.message}`);
     }
+
+    // Test 2.5: Expired deadline (should fail)
+    try {
+      console.log("\nTest 2.5: Reject buy after its deadline...");
+
+      const block = await ethers.provider.getBlock("latest");
+      const expired = BigInt(block!.timestamp) - 1n;
+      await factory.buyWithDeadline(testMarketId, 0, expired, { value: ethers.parseEther("0.01") });
+
+      results.push({
+        scenario: "Buy Operations",
+        test: "Reject buy after deadline",
+        status: "FAIL",
+        details: "Should have reverted"
+      });
+      console.log(`  FAIL - Should have reverted`);
+    } catch (error: any) {
+      const isExpectedError = error.message.includes("Transaction expired");
+      results.push({
+        scenario: "Buy Operations",
+        test: "Reject buy after deadline",
+        status: isExpectedError ? "PASS" : "FAIL",
+        details: isExpectedError ? "Correctly reverted" : error.message
+      });
+      console.log(`  ${isExpectedError ? "PASS" : "FAIL"} - ${isExpectedError ? "Correctly rejected" : error.message}`);
+    }
   }
 
   // ============================================
@@ -358,7 +393,7 @@ async function main() {
         const expectedEth = await factory.calculateSaleReturn(testMarketId, sellAmount);
         const minEth = expectedEth * 95n / 100n; // 5% slippage
 
-        const tx = await factory.sell(testMarketId, sellAmount, minEth);
+        const tx = await factory.sellWithDeadline(testMarketId, sellAmount, minEth, await txDeadline());
         const receipt = await tx.wait();
 
         results.push({
@@ -407,7 +442,7 @@ async function main() {
         const expectedEth = await factory.calculateSaleReturn(testMarketId, sellAmount);
         const unrealisticMin = expectedEth * 2n; // Demand 2x more than possible
 
-        await factory.sell(testMarketId, sellAmount, unrealisticMin);
+        await factory.sellWithDeadline(testMarketId, sellAmount, unrealisticMin, await txDeadline());
 
         results.push({
           scenario: "Sell Operations",
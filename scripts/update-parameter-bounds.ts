@@ -0,0 +1,45 @@
+import { ethers } from "hardhat";
+
+// Must match IBondingCurve.CurveType
+const LINEAR = 0;
+
+async function main() {
+  const factoryAddress = "0x6064bB1536aff5A7F12CCDB47F297d1BA9967b99";
+
+  console.log("=== Updating Market Parameter Bounds ===\n");
+
+  const factory = await ethers.getContractAt("BondingCurveFactory", factoryAddress);
+
+  // Current bounds
+  const current = await factory.getParameterBounds(LINEAR);
+
+  console.log("Current Bounds:");
+  console.log("  Target Raise:", ethers.formatEther(current.minRaise), "-", ethers.formatEther(current.maxRaise), "ETH");
+  console.log("  Linear Params (min):", current.minParams.map((p) => ethers.formatEther(p)).join(", "));
+  console.log("  Linear Params (max):", current.maxParams.map((p) => ethers.formatEther(p)).join(", "));
+
+  // Quorums choose within these ranges; existing markets are unaffected
+  const minTargetRaise = ethers.parseEther("1");
+  const maxTargetRaise = ethers.parseEther("100");
+  const minParams = [ethers.parseEther("0.00001"), 0n];                      // basePrice, slope
+  const maxParams = [ethers.parseEther("0.001"), ethers.parseEther("0.0000001")];
+
+  console.log("\nNew Bounds:");
+  console.log("  Target Raise:", ethers.formatEther(minTargetRaise), "-", ethers.formatEther(maxTargetRaise), "ETH");
+  console.log("  Linear Params (min):", minParams.map((p) => ethers.formatEther(p)).join(", "));
+  console.log("  Linear Params (max):", maxParams.map((p) => ethers.formatEther(p)).join(", "));
+
+  console.log("\nUpdating target raise bounds...");
+  const raiseTx = await factory.setTargetRaiseBounds(minTargetRaise, maxTargetRaise);
+  console.log("TX:", raiseTx.hash);
+  await raiseTx.wait();
+
+  console.log("Updating linear curve bounds...");
+  const curveTx = await factory.setCurveParamBounds(LINEAR, minParams, maxParams);
+  console.log("TX:", curveTx.hash);
+  await curveTx.wait();
+
+  console.log("\n✓ Bounds updated successfully!");
+}
+
+main().catch(console.error);
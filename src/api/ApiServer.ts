@@ -0,0 +1,230 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { ethers } from "ethers";
+import { aggregateCandles, Candle, IndexerDatabase, parseInterval, toPricedTrades, TradeRow } from "../indexer";
+import { HeadlessMarketsClient, MarketView, ProposalStatus, ProposalView, VoteType } from "../sdk";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+export interface HolderView {
+  address: string;
+  balance: bigint;
+}
+
+export interface AgentView {
+  address: string;
+  markets: MarketView[];
+  trades: TradeRow[];
+  proposals: ProposalView[];
+  votes: { proposalId: string; support: VoteType; weight: string; reason: string }[];
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+type Handler = (params: string[], query: URLSearchParams) => Promise<unknown>;
+
+/**
+ * ApiServer
+ *
+ * Read-only HTTP/JSON API over the indexer database. Trade, holder, candle
+ * and vote history come from SQLite; mutable market and proposal state is
+ * read live through the SDK so responses use the same field names as
+ * getMarket() and getProposal(). uint256 values are returned as strings.
+ *
+ * Trades and candles cover the bonding curve only: swaps on a graduated
+ * market's DEX pair are not indexed, so its chart ends at graduation.
+ */
+export class ApiServer {
+  private server: Server | null = null;
+  private readonly routes: [RegExp, Handler][];
+
+  constructor(readonly db: IndexerDatabase, readonly client: HeadlessMarketsClient) {
+    this.routes = [
+      [/^\/markets$/, () => this.listMarkets()],
+      [/^\/markets\/([^/]+)$/, ([id]) => this.getMarket(id)],
+      [/^\/markets\/([^/]+)\/trades$/, ([id], query) => this.getTrades(id, query)],
+      [/^\/markets\/([^/]+)\/holders$/, ([id]) => this.getHolders(id)],
+      [/^\/markets\/([^/]+)\/candles$/, ([id], query) => this.getCandles(id, query)],
+      [/^\/proposals$/, (_, query) => this.listProposals(query)],
+      [/^\/agents\/([^/]+)$/, ([address]) => this.getAgent(address)],
+    ];
+  }
+
+  /**
+   * Start listening. Pass port 0 for a random free port; returns the bound port.
+   */
+  listen(port: number, host = "127.0.0.1"): Promise<number> {
+    this.server = createServer((req, res) => void this._handle(req, res));
+    return new Promise((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(port, host, () => resolve((this.server!.address() as AddressInfo).port));
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) return resolve();
+      this.server.close((err) => (err ? reject(err) : resolve()));
+      this.server = null;
+    });
+  }
+
+  // ============ Handlers ============
+
+  async listMarkets(): Promise<MarketView[]> {
+    const ids = this.db.getEvents({ name: "MarketCreated" }).map((e) => e.marketId!);
+    return Promise.all(ids.map((id) => this.client.getMarket(BigInt(id))));
+  }
+
+  async getMarket(id: string): Promise<MarketView> {
+    this._requireMarket(id);
+    return this.client.getMarket(BigInt(id));
+  }
+
+  async getTrades(id: string, query: URLSearchParams): Promise<TradeRow[]> {
+    this._requireMarket(id);
+    return this.db.getTrades({ marketId: id, ...this._pagination(query) });
+  }
+
+  async getHolders(id: string): Promise<HolderView[]> {
+    this._requireMarket(id);
+    return [...this.db.getBalances(id)]
+      .filter(([address, balance]) => address !== ethers.ZeroAddress && balance > 0n)
+      .map(([address, balance]) => ({ address, balance }))
+      .sort((a, b) => (b.balance > a.balance ? 1 : b.balance < a.balance ? -1 : 0));
+  }
+
+  async getCandles(id: string, query: URLSearchParams): Promise<Candle[]> {
+    this._requireMarket(id);
+    const trades = toPricedTrades(this.db.getTrades({ marketId: id }).reverse());
+    const [graduation] = this.db.getEvents({ name: "MarketGraduated", marketId: id });
+
+    try {
+      return aggregateCandles(trades, parseInterval(query.get("interval") ?? "1h"), {
+        fillGaps: query.get("fill") === "true",
+        from: this._optionalNumber(query, "from"),
+        to: this._optionalNumber(query, "to"),
+        graduatedAt: graduation?.timestamp,
+      });
+    } catch (error: unknown) {
+      throw error instanceof RangeError ? new HttpError(400, error.message) : error;
+    }
+  }
+
+  async listProposals(query: URLSearchParams): Promise<ProposalView[]> {
+    const marketId = query.get("marketId") ?? undefined;
+    if (marketId !== undefined) this._parseId(marketId);
+
+    const ids = this.db.getEvents({ name: "ProposalCreated", marketId }).map((e) => e.proposalId!);
+    const proposals = await Promise.all(ids.map((id) => this.client.getProposal(BigInt(id))));
+
+    const status = query.get("status");
+    if (status === null) return proposals;
+    if (!(status in ProposalStatus) || !isNaN(Number(status))) {
+      throw new HttpError(400, `Unknown status ${status}`);
+    }
+    return proposals.filter((p) => p.status === ProposalStatus[status as keyof typeof ProposalStatus]);
+  }
+
+  async getAgent(address: string): Promise<AgentView> {
+    if (!ethers.isAddress(address)) {
+      throw new HttpError(400, `Invalid address ${address}`);
+    }
+    const agent = ethers.getAddress(address);
+
+    const marketIds = this.db.getEvents({ name: "MarketCreated" }).map((e) => e.marketId!);
+    const quorums = await Promise.all(marketIds.map((id) => this.client.getQuorum(BigInt(id))));
+    const memberOf = marketIds.filter((_, i) => quorums[i].agents.includes(agent));
+
+    const proposalIds = this.db
+      .getEvents({ name: "ProposalCreated" })
+      .filter((e) => e.args.proposer === agent)
+      .map((e) => e.proposalId!);
+
+    const votes = this.db
+      .getEvents({ name: "VoteCast" })
+      .filter((e) => e.args.voter === agent)
+      .map((e) => ({
+        proposalId: e.proposalId!,
+        support: Number(e.args.support) as VoteType,
+        weight: e.args.weight as string,
+        reason: e.args.reason as string,
+      }));
+
+    return {
+      address: agent,
+      markets: await Promise.all(memberOf.map((id) => this.client.getMarket(BigInt(id)))),
+      trades: this.db.getTrades({ trader: agent }),
+      proposals: await Promise.all(proposalIds.map((id) => this.client.getProposal(BigInt(id)))),
+      votes,
+    };
+  }
+
+  // ============ Internal ============
+
+  private async _handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let status = 200;
+    let body: unknown;
+
+    try {
+      if (req.method !== "GET") {
+        throw new HttpError(405, "Method not allowed");
+      }
+      const url = new URL(req.url ?? "/", "http://localhost");
+      body = await this._route(url.pathname.replace(/\/+$/, "") || "/", url.searchParams);
+    } catch (error: unknown) {
+      status = error instanceof HttpError ? error.status : 500;
+      body = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    res.writeHead(status, {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+    });
+    res.end(JSON.stringify(body, (_, value) => (typeof value === "bigint" ? value.toString() : value)));
+  }
+
+  private _route(path: string, query: URLSearchParams): Promise<unknown> {
+    for (const [pattern, handler] of this.routes) {
+      const match = pattern.exec(path);
+      if (match) return handler(match.slice(1), query);
+    }
+    throw new HttpError(404, "Not found");
+  }
+
+  private _parseId(id: string): string {
+    if (!/^\d+$/.test(id)) {
+      throw new HttpError(400, `Invalid id ${id}`);
+    }
+    return BigInt(id).toString();
+  }
+
+  private _requireMarket(id: string): void {
+    if (this.db.getEvents({ name: "MarketCreated", marketId: this._parseId(id) }).length === 0) {
+      throw new HttpError(404, `Market ${id} not found`);
+    }
+  }
+
+  private _optionalNumber(query: URLSearchParams, name: string): number | undefined {
+    const value = query.get(name);
+    if (value === null) return undefined;
+    if (!/^\d+$/.test(value)) {
+      throw new HttpError(400, `Invalid ${name} ${value}`);
+    }
+    return Number(value);
+  }
+
+  private _pagination(query: URLSearchParams): { limit: number; offset: number } {
+    const limit = Number(query.get("limit") ?? DEFAULT_LIMIT);
+    const offset = Number(query.get("offset") ?? 0);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT || !Number.isInteger(offset) || offset < 0) {
+      throw new HttpError(400, `limit must be 1-${MAX_LIMIT} and offset >= 0`);
+    }
+    return { limit, offset };
+  }
+}
@@ -0,0 +1,2 @@
+export { ApiServer } from "./ApiServer";
+export type { AgentView, HolderView } from "./ApiServer";
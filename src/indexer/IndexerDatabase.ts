@@ -0,0 +1,361 @@
+import Database from "better-sqlite3";
+import { SCHEMA, SCHEMA_VERSION } from "./schema";
+
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface BlockRow {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface EventRow {
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  txHash: string;
+  logIndex: number;
+  contract: string;
+  name: string;
+  marketId: string | null;
+  proposalId: string | null;
+  args: Record<string, unknown>;
+}
+
+export interface TradeRow {
+  marketId: string;
+  trader: string;
+  side: "buy" | "sell";
+  ethAmount: string;
+  tokenAmount: string;
+  price: string;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface TransferRow {
+  marketId: string;
+  token: string;
+  from: string;
+  to: string;
+  amount: string;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+  logIndex: number;
+}
+
+export interface StoredEvent {
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+  logIndex: number;
+  contract: string;
+  name: string;
+  marketId: string | null;
+  proposalId: string | null;
+  args: Record<string, unknown>;
+}
+
+export interface QueuedProposal {
+  proposalId: string;
+  marketId: string;
+  eta: number;           // Unix time from which the proposal can be executed
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface TradeQuery {
+  marketId?: string;
+  trader?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Rows as better-sqlite3 returns them, keyed by the schema's column names
+interface EventRecord {
+  block_number: number;
+  timestamp: number;
+  tx_hash: string;
+  log_index: number;
+  contract: string;
+  name: string;
+  market_id: string | null;
+  proposal_id: string | null;
+  args: string;          // JSON
+}
+
+interface TradeRecord {
+  market_id: string;
+  trader: string;
+  side: "buy" | "sell";
+  eth_amount: string;
+  token_amount: string;
+  price: string;
+  block_number: number;
+  timestamp: number;
+  tx_hash: string;
+  log_index: number;
+}
+
+interface QueuedRecord {
+  proposal_id: string;
+  market_id: string;
+  eta: string | number;  // json_extract of the event's eta argument
+  block_number: number;
+  tx_hash: string;
+}
+
+/**
+ * IndexerDatabase
+ *
+ * Owns the SQLite connection and every write the indexer makes. Batches are
+ * written in a single transaction together with the checkpoint, so a crash
+ * mid-batch never leaves partially indexed blocks behind.
+ */
+export class IndexerDatabase {
+  readonly db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+
+    const version = this.getMeta("schema_version");
+    if (version === null) {
+      this.setMeta("schema_version", String(SCHEMA_VERSION));
+    } else if (Number(version) !== SCHEMA_VERSION) {
+      throw new Error(`Unsupported indexer schema version ${version}, delete the database to re-index`);
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // ============ Meta ============
+
+  getMeta(key: string): string | null {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+    return row ? row.value : null;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value").run(key, value);
+  }
+
+  // ============ Checkpoint ============
+
+  getCheckpoint(): Checkpoint | null {
+    const row = this.db.prepare("SELECT block_number, block_hash FROM checkpoint WHERE id = 1").get() as
+      | { block_number: number; block_hash: string }
+      | undefined;
+    return row ? { blockNumber: row.block_number, blockHash: row.block_hash } : null;
+  }
+
+  /**
+   * Stored blocks at or below `blockNumber`, newest first
+   */
+  getBlocksBelow(blockNumber: number): BlockRow[] {
+    return this.db
+      .prepare("SELECT number, hash, timestamp FROM blocks WHERE number <= ? ORDER BY number DESC")
+      .all(blockNumber) as BlockRow[];
+  }
+
+  // ============ Reads ============
+
+  /**
+   * MarketToken address for each indexed market
+   */
+  getMarketTokens(): Map<string, string> {
+    const rows = this.db
+      .prepare("SELECT market_id, json_extract(args, '$.tokenAddress') AS token FROM events WHERE name = 'MarketCreated'")
+      .all() as { market_id: string; token: string }[];
+    return new Map(rows.map((row) => [row.token.toLowerCase(), row.market_id]));
+  }
+
+  /**
+   * Indexed events in chain order, optionally filtered by name, market or proposal
+   */
+  getEvents(filter: { name?: string; marketId?: string; proposalId?: string } = {}): StoredEvent[] {
+    const where: string[] = [];
+    const params: string[] = [];
+    if (filter.name !== undefined) {
+      where.push("name = ?");
+      params.push(filter.name);
+    }
+    if (filter.marketId !== undefined) {
+      where.push("market_id = ?");
+      params.push(filter.marketId);
+    }
+    if (filter.proposalId !== undefined) {
+      where.push("proposal_id = ?");
+      params.push(filter.proposalId);
+    }
+
+    const sql =
+      "SELECT * FROM events" +
+      (where.length ? ` WHERE ${where.join(" AND ")}` : "") +
+      " ORDER BY block_number, log_index";
+    return (this.db.prepare(sql).all(...params) as EventRecord[]).map((row) => ({
+      blockNumber: row.block_number,
+      timestamp: row.timestamp,
+      txHash: row.tx_hash,
+      logIndex: row.log_index,
+      contract: row.contract,
+      name: row.name,
+      marketId: row.market_id,
+      proposalId: row.proposal_id,
+      args: JSON.parse(row.args),
+    }));
+  }
+
+  /**
+   * Trades newest first
+   */
+  getTrades(query: TradeQuery = {}): TradeRow[] {
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.marketId !== undefined) {
+      where.push("market_id = ?");
+      params.push(query.marketId);
+    }
+    if (query.trader !== undefined) {
+      where.push("trader = ? COLLATE NOCASE");
+      params.push(query.trader);
+    }
+
+    const sql =
+      "SELECT * FROM trades" +
+      (where.length ? ` WHERE ${where.join(" AND ")}` : "") +
+      " ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?";
+    params.push(query.limit ?? -1, query.offset ?? 0);
+
+    return (this.db.prepare(sql).all(...params) as TradeRecord[]).map((row) => ({
+      marketId: row.market_id,
+      trader: row.trader,
+      side: row.side,
+      ethAmount: row.eth_amount,
+      tokenAmount: row.token_amount,
+      price: row.price,
+      blockNumber: row.block_number,
+      timestamp: row.timestamp,
+      txHash: row.tx_hash,
+      logIndex: row.log_index,
+    }));
+  }
+
+  /**
+   * Timelocked proposals from ProposalQueued events, soonest ETA first
+   */
+  getQueuedProposals(marketId?: string): QueuedProposal[] {
+    const sql =
+      "SELECT proposal_id, market_id, json_extract(args, '$.eta') AS eta, block_number, tx_hash FROM events" +
+      " WHERE name = 'ProposalQueued'" +
+      (marketId !== undefined ? " AND market_id = ?" : "") +
+      " ORDER BY CAST(eta AS INTEGER), block_number, log_index";
+    const params = marketId !== undefined ? [marketId] : [];
+    return (this.db.prepare(sql).all(...params) as QueuedRecord[]).map((row) => ({
+      proposalId: row.proposal_id,
+      marketId: row.market_id,
+      eta: Number(row.eta),
+      blockNumber: row.block_number,
+      txHash: row.tx_hash,
+    }));
+  }
+
+  /**
+   * Current token balances for a market, derived from indexed transfers
+   */
+  getBalances(marketId: string): Map<string, bigint> {
+    const rows = this.db
+      .prepare("SELECT from_address, to_address, amount FROM transfers WHERE market_id = ? ORDER BY block_number, log_index")
+      .all(marketId) as { from_address: string; to_address: string; amount: string }[];
+
+    const balances = new Map<string, bigint>();
+    for (const row of rows) {
+      const amount = BigInt(row.amount);
+      balances.set(row.from_address, (balances.get(row.from_address) ?? 0n) - amount);
+      balances.set(row.to_address, (balances.get(row.to_address) ?? 0n) + amount);
+    }
+    return balances;
+  }
+
+  // ============ Writes ============
+
+  /**
+   * Persist one indexed range and advance the checkpoint atomically
+   */
+  writeBatch(
+    blocks: BlockRow[],
+    events: EventRow[],
+    trades: TradeRow[],
+    transfers: TransferRow[],
+    checkpoint: Checkpoint
+  ): void {
+    const insertBlock = this.db.prepare(
+      "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (@number, @hash, @timestamp)"
+    );
+    const insertEvent = this.db.prepare(
+      `INSERT OR IGNORE INTO events
+        (block_number, block_hash, timestamp, tx_hash, log_index, contract, name, market_id, proposal_id, args)
+       VALUES
+        (@blockNumber, @blockHash, @timestamp, @txHash, @logIndex, @contract, @name, @marketId, @proposalId, @args)`
+    );
+    const insertTrade = this.db.prepare(
+      `INSERT OR IGNORE INTO trades
+        (market_id, trader, side, eth_amount, token_amount, price, block_number, timestamp, tx_hash, log_index)
+       VALUES
+        (@marketId, @trader, @side, @ethAmount, @tokenAmount, @price, @blockNumber, @timestamp, @txHash, @logIndex)`
+    );
+    const insertTransfer = this.db.prepare(
+      `INSERT OR IGNORE INTO transfers
+        (market_id, token, from_address, to_address, amount, block_number, timestamp, tx_hash, log_index)
+       VALUES
+        (@marketId, @token, @from, @to, @amount, @blockNumber, @timestamp, @txHash, @logIndex)`
+    );
+
+    this.db.transaction(() => {
+      for (const block of blocks) insertBlock.run(block);
+      for (const event of events) insertEvent.run({ ...event, args: JSON.stringify(event.args) });
+      for (const trade of trades) insertTrade.run(trade);
+      for (const transfer of transfers) insertTransfer.run(transfer);
+      this._setCheckpoint(checkpoint);
+    })();
+  }
+
+  /**
+   * Delete everything indexed above the checkpoint and move it back.
+   * A null checkpoint clears the database for a full re-index.
+   */
+  rollback(checkpoint: Checkpoint | null): void {
+    const above = checkpoint ? checkpoint.blockNumber : -1;
+
+    this.db.transaction(() => {
+      for (const table of ["events", "trades", "transfers"]) {
+        this.db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(above);
+      }
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(above);
+
+      if (checkpoint) {
+        this._setCheckpoint(checkpoint);
+      } else {
+        this.db.prepare("DELETE FROM checkpoint").run();
+      }
+    })();
+  }
+
+  private _setCheckpoint(checkpoint: Checkpoint): void {
+    this.db
+      .prepare(
+        `INSERT INTO checkpoint (id, block_number, block_hash) VALUES (1, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET block_number = excluded.block_number, block_hash = excluded.block_hash`
+      )
+      .run(checkpoint.blockNumber, checkpoint.blockHash);
+  }
+}
@@ -0,0 +1,288 @@
+import { Interface, Log, LogDescription, Provider, Result } from "ethers";
+import { BondingCurveFactory__factory, MarketToken__factory, QuorumGovernance__factory } from "../../typechain-types";
+import { ProtocolAddresses } from "../sdk/types";
+import { BlockRow, Checkpoint, EventRow, IndexerDatabase, TradeRow, TransferRow } from "./IndexerDatabase";
+
+export interface IndexerOptions {
+  startBlock?: number;      // First block to index (default 0)
+  batchSize?: number;       // Blocks per getLogs call (default 2000)
+  confirmations?: number;   // Stay this many blocks behind head (default 0)
+  pollIntervalMs?: number;  // Delay between syncs in run() (default 4000)
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  reorgedTo: number | null;  // Block the indexer rolled back to, if a reorg was found
+}
+
+type ContractName = "factory" | "governance";
+
+/**
+ * ProtocolIndexer
+ *
+ * Follows every BondingCurveFactory and QuorumGovernance event, plus
+ * Transfer events of each market's token, from a start block into SQLite. Progress is checkpointed per batch; on each sync the
+ * checkpoint block's hash is compared with the chain and, if it changed,
+ * indexed data is rolled back to the newest stored block still canonical.
+ *
+ * Block timestamps are fetched once per block that produced events.
+ */
+export class ProtocolIndexer {
+  readonly startBlock: number;
+  readonly batchSize: number;
+  readonly confirmations: number;
+  readonly pollIntervalMs: number;
+
+  private readonly interfaces: Record<ContractName, Interface>;
+  private readonly tokenInterface: Interface;
+  private readonly contractByAddress: Map<string, ContractName>;
+  private running = false;
+
+  constructor(
+    readonly provider: Provider,
+    readonly addresses: ProtocolAddresses,
+    readonly db: IndexerDatabase,
+    options: IndexerOptions = {}
+  ) {
+    this.startBlock = options.startBlock ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+    this.confirmations = options.confirmations ?? 0;
+    this.pollIntervalMs = options.pollIntervalMs ?? 4000;
+
+    this.interfaces = {
+      factory: BondingCurveFactory__factory.createInterface(),
+      governance: QuorumGovernance__factory.createInterface(),
+    };
+    this.tokenInterface = MarketToken__factory.createInterface();
+    this.contractByAddress = new Map([
+      [addresses.factory.toLowerCase(), "factory"],
+      [addresses.governance.toLowerCase(), "governance"],
+    ]);
+  }
+
+  /**
+   * Index from the checkpoint up to the confirmed head, one batch at a time
+   */
+  async sync(): Promise<SyncResult> {
+    const reorgedTo = await this._checkReorg();
+
+    const head = (await this.provider.getBlockNumber()) - this.confirmations;
+    const checkpoint = this.db.getCheckpoint();
+    const fromBlock = checkpoint ? checkpoint.blockNumber + 1 : this.startBlock;
+
+    let events = 0;
+    for (let start = fromBlock; start <= head; start += this.batchSize) {
+      const end = Math.min(start + this.batchSize - 1, head);
+      events += await this._indexRange(start, end);
+    }
+
+    return { fromBlock, toBlock: Math.max(head, fromBlock - 1), events, reorgedTo };
+  }
+
+  /**
+   * Sync repeatedly until stop() is called
+   */
+  async run(onSync?: (result: SyncResult) => void): Promise<void> {
+    this.running = true;
+    while (this.running) {
+      const result = await this.sync();
+      if (onSync) onSync(result);
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+
+  stop(): void {
+    this.running = false;
+  }
+
+  // ============ Internal ============
+
+  /**
+   * Roll back if the checkpoint block is no longer canonical.
+   * Returns the block rolled back to, -1 for a full reset, or null if no reorg.
+   */
+  private async _checkReorg(): Promise<number | null> {
+    const checkpoint = this.db.getCheckpoint();
+    if (!checkpoint) return null;
+
+    const block = await this.provider.getBlock(checkpoint.blockNumber);
+    if (block && block.hash === checkpoint.blockHash) return null;
+
+    for (const stored of this.db.getBlocksBelow(checkpoint.blockNumber)) {
+      const canonical = await this.provider.getBlock(stored.number);
+      if (canonical && canonical.hash === stored.hash) {
+        this.db.rollback({ blockNumber: stored.number, blockHash: stored.hash });
+        return stored.number;
+      }
+    }
+
+    this.db.rollback(null);
+    return -1;
+  }
+
+  private async _indexRange(fromBlock: number, toBlock: number): Promise<number> {
+    const logs = await this.provider.getLogs({
+      address: [this.addresses.factory, this.addresses.governance],
+      fromBlock,
+      toBlock,
+    });
+
+    const blocks = new Map<number, BlockRow>();
+    const events: EventRow[] = [];
+    const trades: TradeRow[] = [];
+    const tokens = this.db.getMarketTokens();
+
+    for (const log of logs) {
+      const decoded = this._decode(log);
+      if (!decoded) continue;
+
+      const block = await this._getBlock(blocks, log.blockNumber);
+      const event = this._toEventRow(log, block, decoded.contract, decoded.parsed);
+      events.push(event);
+
+      const trade = this._toTradeRow(event, decoded.parsed);
+      if (trade) trades.push(trade);
+
+      // Tokens created in this range still need their transfers from this range
+      if (decoded.parsed.name === "MarketCreated") {
+        tokens.set(decoded.parsed.args.tokenAddress.toLowerCase(), event.marketId!);
+      }
+    }
+
+    const transfers = await this._indexTransfers(tokens, blocks, fromBlock, toBlock);
+
+    // The batch end anchors the checkpoint for reorg detection
+    const end = await this._getBlock(blocks, toBlock);
+    this.db.writeBatch([...blocks.values()], events, trades, transfers, {
+      blockNumber: end.number,
+      blockHash: end.hash,
+    });
+
+    return events.length;
+  }
+
+  private async _indexTransfers(
+    tokens: Map<string, string>,
+    blocks: Map<number, BlockRow>,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<TransferRow[]> {
+    if (tokens.size === 0) return [];
+
+    const logs = await this.provider.getLogs({
+      address: [...tokens.keys()],
+      topics: [this.tokenInterface.getEvent("Transfer")!.topicHash],
+      fromBlock,
+      toBlock,
+    });
+
+    const transfers: TransferRow[] = [];
+    for (const log of logs) {
+      const parsed = this.tokenInterface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) continue;
+
+      const block = await this._getBlock(blocks, log.blockNumber);
+      transfers.push({
+        marketId: tokens.get(log.address.toLowerCase())!,
+        token: log.address,
+        from: parsed.args.from,
+        to: parsed.args.to,
+        amount: parsed.args.value.toString(),
+        blockNumber: log.blockNumber,
+        timestamp: block.timestamp,
+        txHash: log.transactionHash,
+        logIndex: log.index,
+      });
+    }
+    return transfers;
+  }
+
+  private _decode(log: Log): { contract: ContractName; parsed: LogDescription } | null {
+    const contract = this.contractByAddress.get(log.address.toLowerCase());
+    if (!contract) return null;
+
+    const parsed = this.interfaces[contract].parseLog({ topics: [...log.topics], data: log.data });
+    return parsed ? { contract, parsed } : null;
+  }
+
+  private async _getBlock(cache: Map<number, BlockRow>, blockNumber: number): Promise<BlockRow> {
+    const cached = cache.get(blockNumber);
+    if (cached) return cached;
+
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block || !block.hash) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    const row = { number: block.number, hash: block.hash, timestamp: block.timestamp };
+    cache.set(blockNumber, row);
+    return row;
+  }
+
+  private _toEventRow(log: Log, block: BlockRow, contract: ContractName, parsed: LogDescription): EventRow {
+    const args = toPlainArgs(parsed);
+    return {
+      blockNumber: log.blockNumber,
+      blockHash: block.hash,
+      timestamp: block.timestamp,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      contract,
+      name: parsed.name,
+      marketId: "marketId" in args ? String(args.marketId) : null,
+      proposalId: "proposalId" in args ? String(args.proposalId) : null,
+      args,
+    };
+  }
+
+  private _toTradeRow(event: EventRow, parsed: LogDescription): TradeRow | null {
+    const base = {
+      marketId: event.marketId!,
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      txHash: event.txHash,
+      logIndex: event.logIndex,
+    };
+
+    if (parsed.name === "TokensPurchased") {
+      return {
+        ...base,
+        trader: parsed.args.buyer,
+        side: "buy",
+        ethAmount: parsed.args.ethAmount.toString(),
+        tokenAmount: parsed.args.tokenAmount.toString(),
+        price: parsed.args.newPrice.toString(),
+      };
+    }
+    if (parsed.name === "TokensSold") {
+      return {
+        ...base,
+        trader: parsed.args.seller,
+        side: "sell",
+        ethAmount: parsed.args.ethAmount.toString(),
+        tokenAmount: parsed.args.tokenAmount.toString(),
+        price: parsed.args.newPrice.toString(),
+      };
+    }
+    return null;
+  }
+}
+
+/**
+ * Event args keyed by parameter name, with bigints as decimal strings so
+ * they survive JSON
+ */
+function toPlainArgs(parsed: LogDescription): Record<string, unknown> {
+  const args: Record<string, unknown> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    args[input.name] = toPlain(parsed.args[i]);
+  });
+  return args;
+}
+
+function toPlain(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Result || Array.isArray(value)) return [...value].map(toPlain);
+  return value;
+}
@@ -0,0 +1,139 @@
+import { TradeRow } from "./IndexerDatabase";
+
+/**
+ * OHLCV candle aggregation
+ *
+ * Turns a trade stream into fixed-interval candles. Prices are the post-trade
+ * spot prices emitted by TokensPurchased / TokensSold, so a candle's close is
+ * the curve price at the end of the bucket. The aggregator only needs
+ * timestamp, price and amounts, so any trade source can be charted with it.
+ *
+ * Trades only come from the bonding curve, which stops at graduation, so
+ * gap-filling stops there too rather than inventing post-graduation prices.
+ */
+
+export interface PricedTrade {
+  timestamp: number;     // Unix seconds
+  price: bigint;         // Post-trade price in wei per token
+  ethAmount: bigint;
+  tokenAmount: bigint;
+}
+
+export interface Candle {
+  time: number;          // Bucket start (unix seconds)
+  open: bigint;
+  high: bigint;
+  low: bigint;
+  close: bigint;
+  volumeEth: bigint;
+  volumeTokens: bigint;
+  trades: number;
+}
+
+export interface CandleOptions {
+  fillGaps?: boolean;    // Emit zero-volume candles at the previous close between trades
+  from?: number;         // Drop buckets starting before this time
+  to?: number;           // With fillGaps, extend flat candles up to this time
+  graduatedAt?: number;  // Never fill past graduation: the curve price no longer applies
+  maxCandles?: number;   // Throw instead of keeping or gap-filling more candles than this (default 10000)
+}
+
+const UNIT_SECONDS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+
+/**
+ * Parse an interval like "30s", "15m", "1h", "1d" or "1w" into seconds
+ */
+export function parseInterval(interval: string): number {
+  const match = /^(\d+)([smhdw])$/.exec(interval);
+  const seconds = match ? Number(match[1]) * UNIT_SECONDS[match[2]] : 0;
+  if (seconds <= 0) {
+    throw new RangeError(`Invalid interval ${interval}`);
+  }
+  return seconds;
+}
+
+/**
+ * Convert indexed trade rows to the aggregator's input
+ */
+export function toPricedTrades(rows: TradeRow[]): PricedTrade[] {
+  return rows.map((row) => ({
+    timestamp: row.timestamp,
+    price: BigInt(row.price),
+    ethAmount: BigInt(row.ethAmount),
+    tokenAmount: BigInt(row.tokenAmount),
+  }));
+}
+
+/**
+ * Aggregate trades (oldest first) into candles of `intervalSeconds`
+ */
+export function aggregateCandles(trades: PricedTrade[], intervalSeconds: number, options: CandleOptions = {}): Candle[] {
+  const maxCandles = options.maxCandles ?? 10000;
+  if (options.from !== undefined && options.to !== undefined && options.from > options.to) {
+    throw new RangeError("`from` must not be after `to`");
+  }
+  const bucket = (t: number) => t - (t % intervalSeconds);
+  const from = options.from === undefined ? -Infinity : bucket(options.from);
+
+  const candles: Candle[] = [];
+  const push = (candle: Candle) => {
+    // Buckets before `from` are built (later candles open at their close) but not kept
+    if (candle.time < from) return;
+    if (candles.length >= maxCandles) {
+      throw new RangeError(`More than ${maxCandles} candles, use a larger interval`);
+    }
+    candles.push(candle);
+  };
+  const flat = (time: number, price: bigint): Candle => ({
+    time,
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volumeEth: 0n,
+    volumeTokens: 0n,
+    trades: 0,
+  });
+  // Flat candles for [start, end), starting no earlier than `from` so a
+  // far-off `from` costs no iterations; every step counts against maxCandles
+  let filled = 0;
+  const fill = (start: number, end: number, price: bigint) => {
+    for (let t = Math.max(start, from); t < end; t += intervalSeconds) {
+      if (++filled > maxCandles) {
+        throw new RangeError(`More than ${maxCandles} candles, use a larger interval`);
+      }
+      push(flat(t, price));
+    }
+  };
+
+  let current: Candle | null = null;
+  for (const trade of trades) {
+    const time = bucket(trade.timestamp);
+
+    if (current && time < current.time) {
+      throw new RangeError("Trades must be ordered oldest first");
+    }
+    if (!current || current.time !== time) {
+      if (current && options.fillGaps) {
+        fill(current.time + intervalSeconds, time, current.close);
+      }
+      // Each candle opens at the previous close so consecutive candles join up
+      current = flat(time, current ? current.close : trade.price);
+      push(current);
+    }
+
+    current.trades++;
+    current.volumeEth += trade.ethAmount;
+    current.volumeTokens += trade.tokenAmount;
+    if (trade.price > current.high) current.high = trade.price;
+    if (trade.price < current.low) current.low = trade.price;
+    current.close = trade.price;
+  }
+
+  if (current && options.fillGaps && options.to !== undefined) {
+    const to = options.graduatedAt === undefined ? options.to : Math.min(options.to, options.graduatedAt);
+    fill(current.time + intervalSeconds, bucket(to) + intervalSeconds, current.close);
+  }
+
+  return candles;
+}
@@ -0,0 +1,15 @@
+export { ProtocolIndexer } from "./ProtocolIndexer";
+export type { IndexerOptions, SyncResult } from "./ProtocolIndexer";
+export { IndexerDatabase } from "./IndexerDatabase";
+export { aggregateCandles, parseInterval, toPricedTrades } from "./candles";
+export type { Candle, CandleOptions, PricedTrade } from "./candles";
+export type {
+  BlockRow,
+  Checkpoint,
+  EventRow,
+  QueuedProposal,
+  StoredEvent,
+  TradeQuery,
+  TradeRow,
+  TransferRow,
+} from "./IndexerDatabase";
@@ -0,0 +1,86 @@
+/**
+ * SQLite schema for the protocol indexer
+ *
+ * uint256 values are stored as decimal TEXT since they overflow SQLite's
+ * 64-bit INTEGER. Every row carries its block_number so a reorg can be
+ * rolled back with a single DELETE per table.
+ */
+
+export const SCHEMA_VERSION = 3;
+
+export const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+
+-- Last fully indexed block
+CREATE TABLE IF NOT EXISTS checkpoint (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  block_number INTEGER NOT NULL,
+  block_hash TEXT NOT NULL
+);
+
+-- Hashes of indexed blocks that produced events or ended a batch, used to find
+-- the common ancestor after a reorg
+CREATE TABLE IF NOT EXISTS blocks (
+  number INTEGER PRIMARY KEY,
+  hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL
+);
+
+-- Every decoded factory and governance event
+CREATE TABLE IF NOT EXISTS events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  block_number INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  contract TEXT NOT NULL,
+  name TEXT NOT NULL,
+  market_id TEXT,
+  proposal_id TEXT,
+  args TEXT NOT NULL,
+  UNIQUE (tx_hash, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_name ON events (name, block_number);
+CREATE INDEX IF NOT EXISTS events_market ON events (market_id, block_number);
+CREATE INDEX IF NOT EXISTS events_block ON events (block_number);
+
+-- One row per buy or sell, flattened from TokensPurchased / TokensSold
+CREATE TABLE IF NOT EXISTS trades (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  market_id TEXT NOT NULL,
+  trader TEXT NOT NULL,
+  side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+  eth_amount TEXT NOT NULL,
+  token_amount TEXT NOT NULL,
+  price TEXT NOT NULL,            -- Post-trade spot price
+  block_number INTEGER NOT NULL,
+  timestamp INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  UNIQUE (tx_hash, log_index)
+);
+CREATE INDEX IF NOT EXISTS trades_market ON trades (market_id, block_number, log_index);
+CREATE INDEX IF NOT EXISTS trades_trader ON trades (trader);
+CREATE INDEX IF NOT EXISTS trades_block ON trades (block_number);
+
+-- MarketToken transfers, for holder balances
+CREATE TABLE IF NOT EXISTS transfers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  market_id TEXT NOT NULL,
+  token TEXT NOT NULL,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  timestamp INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  UNIQUE (tx_hash, log_index)
+);
+CREATE INDEX IF NOT EXISTS transfers_market ON transfers (market_id);
+CREATE INDEX IF NOT EXISTS transfers_block ON transfers (block_number);
+`;
@@ -0,0 +1,125 @@
+import { ContractRunner, ContractTransactionReceipt, isHexString, TypedDataDomain } from "ethers";
+import { QuorumGovernance, QuorumGovernance__factory } from "../../typechain-types";
+import { encodeSignedAction, governanceDomain, recoverActionSigner, SignedAction } from "../sdk/signatures";
+
+export interface RelayerOptions {
+  maxBatchSize?: number;    // Actions per multicall transaction (default 20)
+}
+
+export interface RejectedAction {
+  action: SignedAction;
+  reason: string;
+}
+
+export interface RelayResult {
+  receipt: ContractTransactionReceipt | null;  // Null when nothing in the batch could be submitted
+  relayed: SignedAction[];
+  rejected: RejectedAction[];
+}
+
+/**
+ * GovernanceRelayer
+ *
+ * Collects EIP-712 signed governance actions from agents without ETH and
+ * submits them through QuorumGovernance.multicall, paying the gas from the
+ * relayer's signer.
+ *
+ * Signatures are checked off-chain when added. Before each batch is sent,
+ * every action is simulated on top of the ones already accepted, so an
+ * action that would revert (expired, replayed, already voted, ...) is
+ * dropped and reported instead of failing the whole batch. Actions are
+ * submitted in the order they were added, so add a proposal before the
+ * votes on it and a signer's actions in nonce order.
+ */
+export class GovernanceRelayer {
+  readonly governance: QuorumGovernance;
+  readonly maxBatchSize: number;
+
+  private queue: SignedAction[] = [];
+  private domain: TypedDataDomain | null = null;
+
+  constructor(runner: ContractRunner, governanceAddress: string, options: RelayerOptions = {}) {
+    this.governance = QuorumGovernance__factory.connect(governanceAddress, runner);
+    this.maxBatchSize = options.maxBatchSize ?? 20;
+  }
+
+  get pending(): readonly SignedAction[] {
+    return this.queue;
+  }
+
+  /**
+   * Queue a signed action, rejecting it if the signature is not the signer's
+   */
+  async add(action: SignedAction): Promise<void> {
+    this.domain ??= await governanceDomain(this.governance);
+
+    let recovered: string;
+    try {
+      recovered = recoverActionSigner(this.domain, action);
+    } catch {
+      throw new Error(`Malformed signature for ${action.kind} by ${action.signer}`);
+    }
+    if (recovered.toLowerCase() !== action.signer.toLowerCase()) {
+      throw new Error(`Signature for ${action.kind} was not made by ${action.signer}`);
+    }
+
+    this.queue.push(action);
+  }
+
+  /**
+   * Submit every queued action in batches of maxBatchSize. A batch leaves
+   * the queue only once submitted, so if sending or mining it throws, it is
+   * still pending for the next flush.
+   */
+  async flush(): Promise<RelayResult[]> {
+    const results: RelayResult[] = [];
+    while (this.queue.length > 0) {
+      const batch = this.queue.slice(0, this.maxBatchSize);
+      results.push(await this._submit(batch));
+      this.queue.splice(0, batch.length);
+    }
+    return results;
+  }
+
+  private async _submit(batch: SignedAction[]): Promise<RelayResult> {
+    const relayed: SignedAction[] = [];
+    const calls: string[] = [];
+    const rejected: RejectedAction[] = [];
+
+    for (const action of batch) {
+      const call = encodeSignedAction(this.governance, action);
+      try {
+        await this.governance.multicall.staticCall([...calls, call]);
+        calls.push(call);
+        relayed.push(action);
+      } catch (error: unknown) {
+        rejected.push({ action, reason: this._revertReason(error, call) });
+      }
+    }
+
+    if (calls.length === 0) {
+      return { receipt: null, relayed, rejected };
+    }
+
+    const receipt = await (await this.governance.multicall(calls)).wait();
+    if (!receipt) {
+      throw new Error("Transaction was dropped");
+    }
+    return { receipt, relayed, rejected };
+  }
+
+  /**
+   * Revert string of a failed simulation. Some providers surface only the
+   * raw revert data, so decode it when ethers has not.
+   */
+  private _revertReason(error: unknown, call: string): string {
+    if (typeof error !== "object" || error === null) return String(error);
+    if ("reason" in error && typeof error.reason === "string" && error.reason) return error.reason;
+    if ("data" in error && isHexString(error.data)) {
+      const decoded = this.governance.interface.makeError(error.data, { to: null, data: call });
+      if (decoded.reason) return decoded.reason;
+    }
+    if ("shortMessage" in error && typeof error.shortMessage === "string") return error.shortMessage;
+    return String(error);
+  }
+}
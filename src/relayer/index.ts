@@ -0,0 +1,2 @@
+export { GovernanceRelayer } from "./GovernanceRelayer";
+export type { RejectedAction, RelayerOptions, RelayResult } from "./GovernanceRelayer";
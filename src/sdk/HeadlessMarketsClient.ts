@@ -0,0 +1,690 @@
+import {
+  AbiCoder,
+  BaseContract,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  LogDescription,
+  Signer,
+  ZeroAddress,
+} from "ethers";
+import {
+  BondingCurveFactory,
+  BondingCurveFactory__factory,
+  MarketToken__factory,
+  QuorumGovernance,
+  QuorumGovernance__factory,
+} from "../../typechain-types";
+import { resolveAddresses } from "./addresses";
+import { encodeCall } from "./calls";
+import { CurveState } from "./curveMath";
+import { PermitSignature, signPermit } from "./permit";
+import {
+  signApproveQuorum,
+  signCastVote,
+  SignedApproveQuorum,
+  SignedCastVote,
+  SignedPropose,
+  SignedVote,
+  signPropose,
+  signVote,
+  SignOptions,
+} from "./signatures";
+import {
+  BuyExactQuote,
+  BuyQuote,
+  CallProposalParams,
+  CurveType,
+  GovernanceProposalParams,
+  MarketParams,
+  MarketView,
+  ParameterBounds,
+  ProposalStatus,
+  ProposalType,
+  ProposalView,
+  ProtocolAddresses,
+  QuorumProposalView,
+  QuorumStatus,
+  QuorumView,
+  SellQuote,
+  VoteType,
+} from "./types";
+
+const BPS_DENOMINATOR = 10000n;
+const MIN_PURCHASE = 10n ** 15n;
+
+export interface ClientOptions {
+  // Override addresses from deployments.json (e.g. local Hardhat deployments)
+  addresses?: ProtocolAddresses;
+  // Slippage tolerance used when minTokensOut / minEthOut are not given
+  slippageBps?: number;
+  // Seconds after the latest block before buys and sells revert (default 20 minutes)
+  deadlineTtl?: number;
+}
+
+/**
+ * HeadlessMarketsClient
+ *
+ * Typed wrapper around BondingCurveFactory and QuorumGovernance for agents
+ * and backends. Read methods work with a provider; write methods need a
+ * signer as the runner.
+ */
+export class HeadlessMarketsClient {
+  readonly factory: BondingCurveFactory;
+  readonly governance: QuorumGovernance;
+  readonly runner: ContractRunner;
+  readonly slippageBps: bigint;
+  readonly deadlineTtl: bigint;
+
+  constructor(runner: ContractRunner, addresses: ProtocolAddresses, options: ClientOptions = {}) {
+    this.runner = runner;
+    this.factory = BondingCurveFactory__factory.connect(addresses.factory, runner);
+    this.governance = QuorumGovernance__factory.connect(addresses.governance, runner);
+    this.slippageBps = BigInt(options.slippageBps ?? 100);
+    this.deadlineTtl = BigInt(options.deadlineTtl ?? 1200);
+  }
+
+  /**
+   * Create a client, resolving addresses from the runner's chain ID
+   */
+  static async connect(runner: ContractRunner, options: ClientOptions = {}): Promise<HeadlessMarketsClient> {
+    if (options.addresses) {
+      return new HeadlessMarketsClient(runner, options.addresses, options);
+    }
+    if (!runner.provider) {
+      throw new Error("Runner has no provider to resolve the chain ID");
+    }
+    const { chainId } = await runner.provider.getNetwork();
+    return new HeadlessMarketsClient(runner, resolveAddresses(chainId), options);
+  }
+
+  // ============ Market Reads ============
+
+  async getMarketCount(): Promise<bigint> {
+    return this.factory.marketCount();
+  }
+
+  async getMarket(marketId: bigint | number): Promise<MarketView> {
+    const m = await this.factory.getMarket(marketId);
+    return {
+      marketId: BigInt(marketId),
+      tokenAddress: m.tokenAddress,
+      lpPair: m.lpPair,
+      quorumAgents: [...m.quorumAgents],
+      agentWeights: [...m.agentWeights],
+      targetRaise: m.targetRaise,
+      currentRaised: m.currentRaised,
+      tokensSold: m.tokensSold,
+      graduated: m.graduated,
+      active: m.active,
+      thesis: m.thesis,
+    };
+  }
+
+  /**
+   * Current quorum of a market as recorded by the factory. Unlike the
+   * MarketCreated event, this reflects executed AddAgent/RemoveAgent proposals.
+   */
+  async getQuorum(marketId: bigint | number): Promise<QuorumView> {
+    const [agents, weights] = await this.factory.getQuorum(marketId);
+    return { agents: [...agents], weights: [...weights] };
+  }
+
+  /**
+   * Read the curve parameters needed to quote trades locally with curveMath
+   */
+  async getCurveState(marketId: bigint | number): Promise<CurveState> {
+    const [curve, m] = await Promise.all([
+      this.factory.getMarketCurve(marketId),
+      this.factory.getMarket(marketId),
+    ]);
+    return { curveType: Number(curve.curveType) as CurveType, params: [...curve.params], tokensSold: m.tokensSold };
+  }
+
+  /**
+   * Bounds a quorum-chosen curve and target raise must fall within
+   */
+  async getParameterBounds(curveType: CurveType): Promise<ParameterBounds> {
+    const b = await this.factory.getParameterBounds(curveType);
+    return {
+      minTargetRaise: b.minRaise,
+      maxTargetRaise: b.maxRaise,
+      minParams: [...b.minParams],
+      maxParams: [...b.maxParams],
+    };
+  }
+
+  async getCurrentPrice(marketId: bigint | number): Promise<bigint> {
+    return this.factory.getCurrentPrice(marketId);
+  }
+
+  /**
+   * Quote a buy, applying the market's fee and the graduation partial fill
+   * the same way buy() does, including the full refund once the remaining
+   * raise is dust and the buy graduates the market instead
+   */
+  async quoteBuy(marketId: bigint | number, ethIn: bigint): Promise<BuyQuote> {
+    const [feeBps, market] = await Promise.all([
+      this.factory.getMarketFeeBps(marketId),
+      this.factory.getMarket(marketId),
+    ]);
+    let fee = (ethIn * feeBps) / BPS_DENOMINATOR;
+    let netEth = ethIn - fee;
+    const remaining = market.targetRaise - market.currentRaised;
+    if (netEth > remaining) {
+      netEth = remaining;
+      fee = (netEth * feeBps) / (BPS_DENOMINATOR - feeBps);
+    }
+    const tokensOut = await this.factory.calculatePurchaseReturn(marketId, netEth);
+    if (remaining < MIN_PURCHASE || (tokensOut === 0n && netEth === remaining)) {
+      return { ethIn, fee: 0n, netEth: 0n, tokensOut: 0n, refund: ethIn };
+    }
+    return { ethIn, fee, netEth, tokensOut, refund: ethIn - netEth - fee };
+  }
+
+  /**
+   * Quote buying exactly tokensOut, adding the market's fee the same way
+   * buyExactTokens() does. tokensOut shrinks if the cost passes the graduation
+   * target, down to an empty quote once the remaining raise is dust.
+   */
+  async quoteBuyExact(marketId: bigint | number, tokensOut: bigint): Promise<BuyExactQuote> {
+    const [feeBps, market] = await Promise.all([
+      this.factory.getMarketFeeBps(marketId),
+      this.factory.getMarket(marketId),
+    ]);
+    let cost = await this.factory.calculateCostForTokens(marketId, tokensOut);
+    const remaining = market.targetRaise - market.currentRaised;
+    if (cost > remaining) {
+      cost = remaining;
+      tokensOut = await this.factory.calculatePurchaseReturn(marketId, cost);
+    }
+    if (remaining < MIN_PURCHASE || tokensOut === 0n) {
+      return { tokensOut: 0n, cost: 0n, fee: 0n, ethIn: 0n };
+    }
+    const fee = (cost * feeBps) / BPS_DENOMINATOR;
+    return { tokensOut, cost, fee, ethIn: cost + fee };
+  }
+
+  /**
+   * Quote a sell, applying the market's fee the same way sell() does
+   */
+  async quoteSell(marketId: bigint | number, tokensIn: bigint): Promise<SellQuote> {
+    const feeBps = await this.factory.getMarketFeeBps(marketId);
+    const grossEth = await this.factory.calculateSaleReturn(marketId, tokensIn);
+    const fee = (grossEth * feeBps) / BPS_DENOMINATOR;
+    return { tokensIn, grossEth, fee, ethOut: grossEth - fee };
+  }
+
+  // ============ Market Writes ============
+
+  async createMarket(params: MarketParams): Promise<{ marketId: bigint; receipt: ContractTransactionReceipt }> {
+    const { quorumAgents, weights, name, symbol, thesis } = params;
+    const config = await this._marketConfig(params);
+    const tx = config
+      ? this.factory.createMarketWithCurve(quorumAgents, weights, name, symbol, thesis, ...config)
+      : this.factory.createMarket(quorumAgents, weights, name, symbol, thesis);
+    const receipt = await this._send(tx);
+    const event = this._findEvent(receipt, this.factory, "MarketCreated");
+    return { marketId: event.args.marketId, receipt };
+  }
+
+  /**
+   * Buy tokens with exactly ethIn. If minTokensOut is omitted it is derived
+   * from a fresh quote and the client's slippage tolerance; if deadline is
+   * omitted it is the latest block time plus deadlineTtl.
+   */
+  async buy(
+    marketId: bigint | number,
+    ethIn: bigint,
+    minTokensOut?: bigint,
+    deadline?: bigint
+  ): Promise<ContractTransactionReceipt> {
+    if (minTokensOut === undefined) {
+      const quote = await this.quoteBuy(marketId, ethIn);
+      minTokensOut = this._applySlippage(quote.tokensOut);
+    }
+    deadline ??= await this.getDeadline();
+    return this._send(this.factory.buyWithDeadline(marketId, minTokensOut, deadline, { value: ethIn }));
+  }
+
+  /**
+   * Buy exactly tokensOut. If maxEthIn is omitted it is derived from a fresh
+   * quote plus the client's slippage tolerance; unspent ETH is refunded.
+   * The deadline defaults as in buy().
+   */
+  async buyExactTokens(
+    marketId: bigint | number,
+    tokensOut: bigint,
+    maxEthIn?: bigint,
+    deadline?: bigint
+  ): Promise<ContractTransactionReceipt> {
+    if (maxEthIn === undefined) {
+      const quote = await this.quoteBuyExact(marketId, tokensOut);
+      maxEthIn = (quote.ethIn * (BPS_DENOMINATOR + this.slippageBps)) / BPS_DENOMINATOR;
+    }
+    deadline ??= await this.getDeadline();
+    return this._send(
+      this.factory.buyExactTokensWithDeadline(marketId, tokensOut, maxEthIn, deadline, { value: maxEthIn })
+    );
+  }
+
+  /**
+   * Sell tokens back to the curve, approving the factory first if needed.
+   * Defaults for minEthOut and deadline follow buy().
+   */
+  async sell(
+    marketId: bigint | number,
+    tokensIn: bigint,
+    minEthOut?: bigint,
+    deadline?: bigint
+  ): Promise<ContractTransactionReceipt> {
+    const signer = this._signer();
+    if (minEthOut === undefined) {
+      const quote = await this.quoteSell(marketId, tokensIn);
+      minEthOut = this._applySlippage(quote.ethOut);
+    }
+
+    const { tokenAddress } = await this.factory.getMarket(marketId);
+    const token = MarketToken__factory.connect(tokenAddress, signer);
+    const owner = await signer.getAddress();
+    const factoryAddress = await this.factory.getAddress();
+    if ((await token.allowance(owner, factoryAddress)) < tokensIn) {
+      await this._send(token.approve(factoryAddress, tokensIn));
+    }
+
+    deadline ??= await this.getDeadline();
+    return this._send(this.factory.sellWithDeadline(marketId, tokensIn, minEthOut, deadline));
+  }
+
+  /**
+   * Deadline for a trade sent now: the latest block timestamp plus deadlineTtl.
+   * Uses chain time rather than the local clock so it holds on forked and
+   * time-warped nodes.
+   */
+  async getDeadline(): Promise<bigint> {
+    const block = await this.runner.provider?.getBlock("latest");
+    if (!block) {
+      throw new Error("Runner has no provider to read the latest block");
+    }
+    return BigInt(block.timestamp) + this.deadlineTtl;
+  }
+
+  /**
+   * Sign a permit letting the factory pull tokensIn for a sale
+   */
+  async signSellPermit(
+    marketId: bigint | number,
+    tokensIn: bigint,
+    deadline?: bigint
+  ): Promise<PermitSignature> {
+    const signer = this._signer();
+    const { tokenAddress } = await this.factory.getMarket(marketId);
+    const token = MarketToken__factory.connect(tokenAddress, signer);
+    deadline ??= await this.getDeadline();
+    return signPermit(signer, token, await this.factory.getAddress(), tokensIn, deadline);
+  }
+
+  /**
+   * Sell in a single transaction, authorising the factory with a permit
+   * signature instead of an approve() transaction
+   */
+  async sellWithPermit(
+    marketId: bigint | number,
+    tokensIn: bigint,
+    minEthOut?: bigint,
+    deadline?: bigint
+  ): Promise<ContractTransactionReceipt> {
+    if (minEthOut === undefined) {
+      const quote = await this.quoteSell(marketId, tokensIn);
+      minEthOut = this._applySlippage(quote.ethOut);
+    }
+    const permit = await this.signSellPermit(marketId, tokensIn, deadline);
+    return this._send(
+      this.factory.sellWithPermit(marketId, tokensIn, minEthOut, permit.deadline, permit.v, permit.r, permit.s)
+    );
+  }
+
+  // ============ Governance ============
+
+  async proposeQuorum(params: MarketParams): Promise<{ proposalId: bigint; receipt: ContractTransactionReceipt }> {
+    const { quorumAgents, weights, name, symbol, thesis } = params;
+    const config = await this._marketConfig(params);
+    const tx = config
+      ? this.governance.proposeQuorumWithCurve(quorumAgents, weights, name, symbol, thesis, ...config)
+      : this.governance.proposeQuorum(quorumAgents, weights, name, symbol, thesis);
+    const receipt = await this._send(tx);
+    const event = this._findEvent(receipt, this.governance, "QuorumProposalCreated");
+    return { proposalId: event.args.proposalId, receipt };
+  }
+
+  /**
+   * Approve a quorum proposal. Returns the new market ID if this approval
+   * was the last one and the market was created.
+   */
+  async approveQuorum(
+    proposalId: bigint | number
+  ): Promise<{ marketId: bigint | null; receipt: ContractTransactionReceipt }> {
+    const receipt = await this._send(this.governance.approveQuorum(proposalId));
+    const formed = this._parseEvents(receipt, this.governance).find((e) => e.name === "QuorumFormed");
+    return { marketId: formed ? formed.args.marketId : null, receipt };
+  }
+
+  /**
+   * Decline a quorum proposal as one of its proposed agents, ending it
+   */
+  async rejectQuorum(proposalId: bigint | number): Promise<ContractTransactionReceipt> {
+    return this._send(this.governance.rejectQuorum(proposalId));
+  }
+
+  async propose(
+    params: GovernanceProposalParams
+  ): Promise<{ proposalId: bigint; receipt: ContractTransactionReceipt }> {
+    const receipt = await this._send(
+      this.governance.propose(
+        params.marketId,
+        params.pType,
+        params.target,
+        params.value ?? 0n,
+        params.data ?? "0x",
+        params.description
+      )
+    );
+    const event = this._findEvent(receipt, this.governance, "ProposalCreated");
+    return { proposalId: event.args.proposalId, receipt };
+  }
+
+  /**
+   * Propose paying ETH, or token when given, from the market's treasury
+   */
+  async proposeTreasurySpend(params: {
+    marketId: bigint | number;
+    recipient: string;
+    amount: bigint;
+    token?: string;
+    description: string;
+  }): Promise<{ proposalId: bigint; receipt: ContractTransactionReceipt }> {
+    return this.propose({
+      marketId: params.marketId,
+      pType: ProposalType.TreasurySpend,
+      target: params.recipient,
+      value: params.amount,
+      data: params.token ? AbiCoder.defaultAbiCoder().encode(["address"], [params.token]) : "0x",
+      description: params.description,
+    });
+  }
+
+  /**
+   * Propose setting the weights of several quorum members in one step.
+   * The factory's stored agentWeights are updated too.
+   */
+  async proposeSetWeight(params: {
+    marketId: bigint | number;
+    agents: string[];
+    weights: (bigint | number)[];
+    description: string;
+  }): Promise<{ proposalId: bigint; receipt: ContractTransactionReceipt }> {
+    return this.propose({
+      marketId: params.marketId,
+      pType: ProposalType.SetWeight,
+      target: ZeroAddress,
+      data: AbiCoder.defaultAbiCoder().encode(["address[]", "uint256[]"], [params.agents, params.weights]),
+      description: params.description,
+    });
+  }
+
+  /**
+   * Propose calling an allowlisted contract from the market's treasury,
+   * encoding the calldata from an ABI fragment and args
+   */
+  async proposeCall(params: CallProposalParams): Promise<{ proposalId: bigint; receipt: ContractTransactionReceipt }> {
+    return this.propose({
+      marketId: params.marketId,
+      pType: ProposalType.Call,
+      target: params.target,
+      value: params.value,
+      data: encodeCall(params.fragment, params.args),
+      description: params.description,
+    });
+  }
+
+  /**
+   * Address of the market's MarketTreasury; the zero address for markets
+   * not formed through governance
+   */
+  async getTreasuryAddress(marketId: bigint | number): Promise<string> {
+    return this.governance.marketTreasury(marketId);
+  }
+
+  async vote(proposalId: bigint | number, support: boolean): Promise<ContractTransactionReceipt> {
+    return this._send(this.governance.vote(proposalId, support));
+  }
+
+  /**
+   * Vote for, against or abstain with a reason, which is emitted in VoteCast.
+   * Abstaining helps reach quorum without taking a side.
+   */
+  async castVote(
+    proposalId: bigint | number,
+    support: VoteType,
+    reason = ""
+  ): Promise<ContractTransactionReceipt> {
+    return this._send(this.governance.castVote(proposalId, support, reason));
+  }
+
+  /**
+   * Vote on a proposal's token-holder track with the signer's MarketToken
+   * votes as of the proposal's snapshot
+   */
+  async voteWithTokens(proposalId: bigint | number, support: boolean): Promise<ContractTransactionReceipt> {
+    return this._send(this.governance.voteWithTokens(proposalId, support));
+  }
+
+  /**
+   * Delegate the signer's MarketToken votes, to the signer by default.
+   * Balances only count in token-holder votes once delegated, and only for
+   * proposals created after the delegation.
+   */
+  async delegateTokenVotes(marketId: bigint | number, delegatee?: string): Promise<ContractTransactionReceipt> {
+    const signer = this._signer();
+    const { tokenAddress } = await this.factory.getMarket(marketId);
+    const token = MarketToken__factory.connect(tokenAddress, signer);
+    return this._send(token.delegate(delegatee ?? (await signer.getAddress())));
+  }
+
+  /**
+   * Delegate the signer's agent weight in a market to another member, who
+   * votes with it from then on
+   */
+  async delegate(marketId: bigint | number, delegatee: string): Promise<ContractTransactionReceipt> {
+    return this._send(this.governance.delegate(marketId, delegatee));
+  }
+
+  /**
+   * Take back the signer's delegated agent weight
+   */
+  async undelegate(marketId: bigint | number): Promise<ContractTransactionReceipt> {
+    return this.delegate(marketId, await this._signer().getAddress());
+  }
+
+  /**
+   * Member an agent has delegated their weight to, or null if they vote it
+   * themselves
+   */
+  async getDelegate(marketId: bigint | number, agent: string): Promise<string | null> {
+    const delegatee = await this.governance.delegates(marketId, agent);
+    return delegatee === ZeroAddress ? null : delegatee;
+  }
+
+  async getDelegators(marketId: bigint | number, delegatee: string): Promise<string[]> {
+    return [...(await this.governance.getDelegators(marketId, delegatee))];
+  }
+
+  /**
+   * Queue a passed proposal in a market with a timelock. Returns the time
+   * from which it can be executed.
+   */
+  async queue(proposalId: bigint | number): Promise<{ eta: bigint; receipt: ContractTransactionReceipt }> {
+    const receipt = await this._send(this.governance.queue(proposalId));
+    const event = this._findEvent(receipt, this.governance, "ProposalQueued");
+    return { eta: event.args.eta, receipt };
+  }
+
+  async getTimelockDelay(marketId: bigint | number): Promise<bigint> {
+    return this.governance.marketTimelockDelay(marketId);
+  }
+
+  async execute(proposalId: bigint | number): Promise<ContractTransactionReceipt> {
+    return this._send(this.governance.execute(proposalId));
+  }
+
+  /**
+   * Withdraw a proposal (as its proposer, before any votes) or add a cancel
+   * vote. Reports whether this call cancelled the proposal.
+   */
+  async cancel(proposalId: bigint | number): Promise<{ cancelled: boolean; receipt: ContractTransactionReceipt }> {
+    const receipt = await this._send(this.governance.cancel(proposalId));
+    const cancelled = this._parseEvents(receipt, this.governance).some((e) => e.name === "ProposalCancelled");
+    return { cancelled, receipt };
+  }
+
+  // ============ Signed Governance (gasless) ============
+
+  /**
+   * Sign an approveQuorum for a relayer to submit. The deadline defaults to
+   * the latest block time plus deadlineTtl and the nonce to the current one.
+   */
+  async signApproveQuorum(
+    proposalId: bigint | number,
+    options: Partial<SignOptions> = {}
+  ): Promise<SignedApproveQuorum> {
+    return signApproveQuorum(this._signer(), this.governance, proposalId, await this._signOptions(options));
+  }
+
+  async signVote(
+    proposalId: bigint | number,
+    support: boolean,
+    options: Partial<SignOptions> = {}
+  ): Promise<SignedVote> {
+    return signVote(this._signer(), this.governance, proposalId, support, await this._signOptions(options));
+  }
+
+  async signCastVote(
+    proposalId: bigint | number,
+    support: VoteType,
+    reason = "",
+    options: Partial<SignOptions> = {}
+  ): Promise<SignedCastVote> {
+    return signCastVote(this._signer(), this.governance, proposalId, support, reason, await this._signOptions(options));
+  }
+
+  async signPropose(
+    params: GovernanceProposalParams,
+    options: Partial<SignOptions> = {}
+  ): Promise<SignedPropose> {
+    return signPropose(this._signer(), this.governance, params, await this._signOptions(options));
+  }
+
+  async getProposal(proposalId: bigint | number): Promise<ProposalView> {
+    const p = await this.governance.getProposal(proposalId);
+    return {
+      id: p.id,
+      marketId: p.marketId,
+      pType: Number(p.pType) as ProposalType,
+      target: p.target,
+      value: p.value,
+      forVotes: p.forVotes,
+      againstVotes: p.againstVotes,
+      deadline: p.deadline,
+      status: Number(p.status) as ProposalStatus,
+      proposer: p.proposer,
+      description: p.description,
+      eta: p.eta,
+      abstainVotes: p.abstainVotes,
+    };
+  }
+
+  async getQuorumProposal(proposalId: bigint | number): Promise<QuorumProposalView> {
+    const p = await this.governance.getQuorumProposal(proposalId);
+    return {
+      id: p.id,
+      proposedAgents: [...p.proposedAgents],
+      weights: [...p.weights],
+      name: p.name,
+      symbol: p.symbol,
+      thesis: p.thesis,
+      approvalCount: p.approvalCount,
+      deadline: p.deadline,
+      executed: p.executed,
+      status: Number(p.status) as QuorumStatus,
+    };
+  }
+
+  // ============ Internal ============
+
+  private _signer(): Signer {
+    const runner = this.runner as Signer;
+    if (typeof runner.getAddress !== "function" || typeof runner.sendTransaction !== "function") {
+      throw new Error("A signer is required to send transactions");
+    }
+    return runner;
+  }
+
+  /**
+   * Curve config args for createMarketWithCurve / proposeQuorumWithCurve,
+   * or null when the market should use the factory defaults
+   */
+  private async _marketConfig(params: MarketParams): Promise<[CurveType, bigint[], bigint] | null> {
+    if (params.curveType === undefined && params.targetRaise === undefined) {
+      return null;
+    }
+
+    const curveType = params.curveType ?? CurveType.Linear;
+    const curveParams =
+      params.curveParams ?? (curveType === CurveType.Linear ? await this._defaultLinearParams() : undefined);
+    if (!curveParams) {
+      throw new Error("curveParams are required for non-linear curves");
+    }
+    const targetRaise = params.targetRaise ?? (await this.factory.defaultTargetRaise());
+
+    return [curveType, curveParams, targetRaise];
+  }
+
+  private async _defaultLinearParams(): Promise<bigint[]> {
+    return Promise.all([this.factory.defaultBasePrice(), this.factory.defaultSlope()]);
+  }
+
+  private async _signOptions(options: Partial<SignOptions>): Promise<SignOptions> {
+    return { ...options, deadline: options.deadline ?? (await this.getDeadline()) };
+  }
+
+  private _applySlippage(amount: bigint): bigint {
+    return (amount * (BPS_DENOMINATOR - this.slippageBps)) / BPS_DENOMINATOR;
+  }
+
+  private async _send(tx: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    const receipt = await (await tx).wait();
+    if (!receipt) {
+      throw new Error("Transaction was dropped");
+    }
+    return receipt;
+  }
+
+  private _parseEvents(receipt: ContractTransactionReceipt, contract: BaseContract): LogDescription[] {
+    const address = (contract.target as string).toLowerCase();
+    const events: LogDescription[] = [];
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== address) continue;
+      const parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsed) events.push(parsed);
+    }
+    return events;
+  }
+
+  private _findEvent(receipt: ContractTransactionReceipt, contract: BaseContract, name: string): LogDescription {
+    const event = this._parseEvents(receipt, contract).find((e) => e.name === name);
+    if (!event) {
+      throw new Error(`${name} event not found in transaction ${receipt.hash}`);
+    }
+    return event;
+  }
+}
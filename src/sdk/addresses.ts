@@ -0,0 +1,31 @@
+import deployments from "../../deployments.json";
+import { ProtocolAddresses } from "./types";
+
+interface DeploymentRecord {
+  chainId: number;
+  deployedAt: string;
+  contracts: Record<string, string>;
+}
+
+/**
+ * Resolve protocol contract addresses for a chain from deployments.json
+ *
+ * deployments.json is written by deploy/003_export_addresses.ts and keyed
+ * by network name, so entries are matched on their chainId field.
+ */
+export function resolveAddresses(chainId: bigint | number): ProtocolAddresses {
+  const records = deployments as Record<string, DeploymentRecord>;
+
+  for (const record of Object.values(records)) {
+    if (BigInt(record.chainId) !== BigInt(chainId)) continue;
+
+    const factory = record.contracts.BondingCurveFactory;
+    const governance = record.contracts.QuorumGovernance;
+    if (!factory || !governance) {
+      throw new Error(`Incomplete deployment for chain ${chainId}`);
+    }
+    return { factory, governance };
+  }
+
+  throw new Error(`No deployment found for chain ${chainId}`);
+}
@@ -0,0 +1,17 @@
+import { FunctionFragment, Interface } from "ethers";
+
+/**
+ * Encode calldata for a Call proposal from a human-readable ABI fragment:
+ *
+ *   encodeCall("function transfer(address to, uint256 amount)", [to, amount])
+ *
+ * Throws if the fragment is not a function or the args don't match it.
+ */
+export function encodeCall(fragment: string, args: readonly unknown[] = []): string {
+  const iface = new Interface([fragment]);
+  const fn = iface.fragments[0];
+  if (!(fn instanceof FunctionFragment)) {
+    throw new Error(`Not a function fragment: ${fragment}`);
+  }
+  return iface.encodeFunctionData(fn, args);
+}
@@ -0,0 +1,134 @@
+import { getCurve } from "./curves";
+import { add, div, mul, sub } from "./curves/math";
+import { BuyExactQuote, BuyQuote, CurveType, SellQuote } from "./types";
+
+/**
+ * Off-chain bonding curve math
+ *
+ * Wei-for-wei port of the curve quoting in BondingCurveFactory
+ * (_calculatePurchase, _calculateCost, _calculateSale, getCurrentPrice). Each curve shape
+ * lives in ./curves and is evaluated in the same order as its Solidity
+ * source so integer division truncates at the same points, and arithmetic
+ * that would overflow or underflow uint256 throws like a checked-math revert.
+ */
+
+export { WAD, MAX_UINT256, sqrt } from "./curves/math";
+const BPS_DENOMINATOR = 10000n;
+
+// BondingCurveFactory.MIN_PURCHASE (0.001 ETH)
+export const MIN_PURCHASE = 10n ** 15n;
+
+export interface CurveState {
+  curveType: CurveType;
+  params: readonly bigint[];
+  tokensSold: bigint;
+}
+
+// ============ Curve functions ============
+
+/**
+ * Spot price at the current tokensSold
+ */
+export function getCurrentPrice(state: CurveState): bigint {
+  return getCurve(state.curveType).getPrice(state.tokensSold, state.params);
+}
+
+/**
+ * Tokens received for `ethAmount` (net of fees)
+ */
+export function calculatePurchase(state: CurveState, ethAmount: bigint): bigint {
+  return getCurve(state.curveType).getTokensForEth(state.tokensSold, ethAmount, state.params);
+}
+
+/**
+ * ETH charged by the curve for exactly `tokenAmount` (before fees)
+ */
+export function calculateCost(state: CurveState, tokenAmount: bigint): bigint {
+  return getCurve(state.curveType).getCostToBuy(state.tokensSold, tokenAmount, state.params);
+}
+
+/**
+ * ETH released by the curve for selling `tokenAmount` (before fees)
+ */
+export function calculateSale(state: CurveState, tokenAmount: bigint): bigint {
+  if (tokenAmount > state.tokensSold) {
+    throw new RangeError("Not enough tokens sold");
+  }
+  return getCurve(state.curveType).getSaleProceeds(state.tokensSold, tokenAmount, state.params);
+}
+
+// ============ Quotes ============
+
+/**
+ * Quote buy() for `ethIn` including the protocol fee. Pass the market's
+ * remaining raise (targetRaise - currentRaised) to apply the partial fill
+ * buy() does when it crosses the graduation target. A dust remaining raise
+ * quotes zero tokens and a full refund, as buy() then graduates the market.
+ */
+export function quoteBuy(state: CurveState, ethIn: bigint, feeBps: bigint, remainingRaise?: bigint): BuyQuote {
+  let fee = div(mul(ethIn, feeBps), BPS_DENOMINATOR);
+  let netEth = ethIn - fee;
+  if (remainingRaise !== undefined && netEth > remainingRaise) {
+    netEth = remainingRaise;
+    fee = div(mul(netEth, feeBps), BPS_DENOMINATOR - feeBps);
+  }
+  const tokensOut = calculatePurchase(state, netEth);
+  if (remainingRaise !== undefined && (remainingRaise < MIN_PURCHASE || (tokensOut === 0n && netEth === remainingRaise))) {
+    return { ethIn, fee: 0n, netEth: 0n, tokensOut: 0n, refund: ethIn };
+  }
+  return { ethIn, fee, netEth, tokensOut, refund: ethIn - netEth - fee };
+}
+
+/**
+ * Quote buyExactTokens() for `tokensOut`, with the protocol fee added on top.
+ * With `remainingRaise`, a cost past the graduation target buys fewer tokens
+ * as buyExactTokens() does, and a dust remaining raise quotes nothing, as
+ * buyExactTokens() then graduates the market and refunds.
+ */
+export function quoteBuyExact(
+  state: CurveState,
+  tokensOut: bigint,
+  feeBps: bigint,
+  remainingRaise?: bigint
+): BuyExactQuote {
+  let cost = calculateCost(state, tokensOut);
+  if (remainingRaise !== undefined && cost > remainingRaise) {
+    cost = remainingRaise;
+    tokensOut = calculatePurchase(state, cost);
+  }
+  if (remainingRaise !== undefined && (remainingRaise < MIN_PURCHASE || tokensOut === 0n)) {
+    return { tokensOut: 0n, cost: 0n, fee: 0n, ethIn: 0n };
+  }
+  const fee = div(mul(cost, feeBps), BPS_DENOMINATOR);
+  return { tokensOut, cost, fee, ethIn: add(cost, fee) };
+}
+
+/**
+ * Quote sell() for `tokensIn` including the protocol fee
+ */
+export function quoteSell(state: CurveState, tokensIn: bigint, feeBps: bigint): SellQuote {
+  const grossEth = calculateSale(state, tokensIn);
+  const fee = div(mul(grossEth, feeBps), BPS_DENOMINATOR);
+  return { tokensIn, grossEth, fee, ethOut: grossEth - fee };
+}
+
+/**
+ * Apply a buy of `ethAmount` (net of fees) to a curve state, as buy() does
+ */
+export function applyPurchase(state: CurveState, ethAmount: bigint): CurveState {
+  return { ...state, tokensSold: add(state.tokensSold, calculatePurchase(state, ethAmount)) };
+}
+
+/**
+ * Apply a buy of exactly `tokenAmount` to a curve state, as buyExactTokens() does
+ */
+export function applyExactPurchase(state: CurveState, tokenAmount: bigint): CurveState {
+  return { ...state, tokensSold: add(state.tokensSold, tokenAmount) };
+}
+
+/**
+ * Apply a sale of `tokenAmount` to a curve state, as sell() does
+ */
+export function applySale(state: CurveState, tokenAmount: bigint): CurveState {
+  return { ...state, tokensSold: sub(state.tokensSold, tokenAmount) };
+}
@@ -0,0 +1,55 @@
+import { BondingCurve } from "../types";
+import { WAD, add, div, mul, sub } from "./math";
+
+/**
+ * Constant-product curve over virtual reserves,
+ * mirrors contracts/curves/ConstantProductCurve.sol
+ * Params: [virtualEthReserve, virtualTokenReserve]
+ */
+
+function tokenReserve(tokensSold: bigint, params: readonly bigint[]): bigint {
+  if (tokensSold >= params[1]) {
+    throw new RangeError("Exceeds virtual reserve");
+  }
+  return params[1] - tokensSold;
+}
+
+function ethReserve(reserve: bigint, params: readonly bigint[]): bigint {
+  return div(mul(params[0], params[1]), reserve);
+}
+
+function getTotalCost(tokens: bigint, params: readonly bigint[]): bigint {
+  return sub(ethReserve(tokenReserve(tokens, params), params), params[0]);
+}
+
+export const constantProductCurve: BondingCurve = {
+  getPrice(tokensSold, params) {
+    const reserve = tokenReserve(tokensSold, params);
+    return div(mul(ethReserve(reserve, params), WAD), reserve);
+  },
+
+  getCostToBuy(tokensSold, tokenAmount, params) {
+    return sub(getTotalCost(add(tokensSold, tokenAmount), params), getTotalCost(tokensSold, params));
+  },
+
+  getSaleProceeds(tokensSold, tokenAmount, params) {
+    if (tokenAmount > tokensSold) {
+      throw new RangeError("Not enough tokens sold");
+    }
+    return sub(getTotalCost(tokensSold, params), getTotalCost(tokensSold - tokenAmount, params));
+  },
+
+  getTokensForEth(tokensSold, ethAmount, params) {
+    const reserve = tokenReserve(tokensSold, params);
+    const newEthReserve = add(ethReserve(reserve, params), ethAmount);
+
+    const k = mul(params[0], params[1]);
+    const newTokenReserve = div(sub(add(k, newEthReserve), 1n), newEthReserve);
+
+    return reserve > newTokenReserve ? reserve - newTokenReserve : 0n;
+  },
+
+  validateParams(params) {
+    return params.length === 2 && params[0] > 0n && params[1] > 0n;
+  },
+};
@@ -0,0 +1,43 @@
+import { BondingCurve } from "../types";
+import { WAD, add, div, expWad, lnWad, mul, sub } from "./math";
+
+/**
+ * Exponential curve, mirrors contracts/curves/ExponentialCurve.sol
+ * Params: [basePrice, growthRate]
+ */
+
+function exponent(tokens: bigint, params: readonly bigint[]): bigint {
+  return div(mul(params[1], tokens), WAD);
+}
+
+function getTotalCost(tokens: bigint, params: readonly bigint[]): bigint {
+  return div(mul(params[0], sub(expWad(exponent(tokens, params)), WAD)), params[1]);
+}
+
+export const exponentialCurve: BondingCurve = {
+  getPrice(tokensSold, params) {
+    return div(mul(params[0], expWad(exponent(tokensSold, params))), WAD);
+  },
+
+  getCostToBuy(tokensSold, tokenAmount, params) {
+    return sub(getTotalCost(add(tokensSold, tokenAmount), params), getTotalCost(tokensSold, params));
+  },
+
+  getSaleProceeds(tokensSold, tokenAmount, params) {
+    if (tokenAmount > tokensSold) {
+      throw new RangeError("Not enough tokens sold");
+    }
+    return sub(getTotalCost(tokensSold, params), getTotalCost(tokensSold - tokenAmount, params));
+  },
+
+  getTokensForEth(tokensSold, ethAmount, params) {
+    const growth = add(expWad(exponent(tokensSold, params)), div(mul(ethAmount, params[1]), params[0]));
+    const newTokens = div(mul(lnWad(growth), WAD), params[1]);
+
+    return newTokens > tokensSold ? newTokens - tokensSold : 0n;
+  },
+
+  validateParams(params) {
+    return params.length === 2 && params[0] > 0n && params[1] > 0n;
+  },
+};
@@ -0,0 +1,25 @@
+import { BondingCurve, CurveType } from "../types";
+import { constantProductCurve } from "./constantProduct";
+import { exponentialCurve } from "./exponential";
+import { linearCurve } from "./linear";
+import { sigmoidCurve } from "./sigmoid";
+
+export { constantProductCurve, exponentialCurve, linearCurve, sigmoidCurve };
+
+const CURVES: Record<CurveType, BondingCurve> = {
+  [CurveType.Linear]: linearCurve,
+  [CurveType.Exponential]: exponentialCurve,
+  [CurveType.ConstantProduct]: constantProductCurve,
+  [CurveType.Sigmoid]: sigmoidCurve,
+};
+
+/**
+ * Off-chain implementation for a curve type
+ */
+export function getCurve(curveType: CurveType): BondingCurve {
+  const curve = CURVES[curveType];
+  if (!curve) {
+    throw new Error(`Unsupported curve type ${curveType}`);
+  }
+  return curve;
+}
@@ -0,0 +1,55 @@
+import { BondingCurve } from "../types";
+import { WAD, add, div, mul, sqrt, sub } from "./math";
+
+/**
+ * Linear curve, mirrors contracts/curves/LinearCurve.sol
+ * Params: [basePrice, slope]
+ */
+
+function getTotalCost(tokens: bigint, params: readonly bigint[]): bigint {
+  const linearCost = div(mul(params[0], tokens), WAD);
+  const quadraticCost = div(mul(mul(params[1], tokens), tokens), 2n * WAD * WAD);
+  return add(linearCost, quadraticCost);
+}
+
+export const linearCurve: BondingCurve = {
+  getPrice(tokensSold, params) {
+    return add(params[0], div(mul(params[1], tokensSold), WAD));
+  },
+
+  getCostToBuy(tokensSold, tokenAmount, params) {
+    return sub(getTotalCost(add(tokensSold, tokenAmount), params), getTotalCost(tokensSold, params));
+  },
+
+  getSaleProceeds(tokensSold, tokenAmount, params) {
+    if (tokenAmount > tokensSold) {
+      throw new RangeError("Not enough tokens sold");
+    }
+    return sub(getTotalCost(tokensSold, params), getTotalCost(tokensSold - tokenAmount, params));
+  },
+
+  getTokensForEth(tokensSold, ethAmount, params) {
+    const [basePrice, slope] = params;
+
+    const targetCost = add(getTotalCost(tokensSold, params), ethAmount);
+
+    if (slope === 0n) {
+      return div(mul(ethAmount, WAD), basePrice);
+    }
+
+    const scaledTargetCost = mul(targetCost, WAD);
+    const discriminant = add(mul(basePrice, basePrice), div(mul(mul(2n, slope), scaledTargetCost), WAD));
+    const sqrtDiscriminant = sqrt(discriminant);
+
+    if (sqrtDiscriminant <= basePrice) {
+      return 0n;
+    }
+    const newTokens = div(mul(sub(sqrtDiscriminant, basePrice), WAD), slope);
+
+    return newTokens > tokensSold ? newTokens - tokensSold : 0n;
+  },
+
+  validateParams(params) {
+    return params.length === 2 && params[0] > 0n;
+  },
+};
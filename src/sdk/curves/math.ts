@@ -0,0 +1,93 @@
+/**
+ * Checked uint256 arithmetic and fixed-point helpers
+ *
+ * Mirrors contracts/curves/CurveMath.sol operation-for-operation. Arithmetic
+ * that would overflow or underflow uint256 throws like a checked-math revert.
+ */
+
+export const WAD = 10n ** 18n;
+export const MAX_UINT256 = 2n ** 256n - 1n;
+export const LN2_WAD = 693147180559945309n;
+export const MAX_EXPONENT = 60n * WAD;
+
+function checked(x: bigint): bigint {
+  if (x < 0n || x > MAX_UINT256) {
+    throw new RangeError("Arithmetic overflow");
+  }
+  return x;
+}
+
+export const add = (a: bigint, b: bigint) => checked(a + b);
+export const sub = (a: bigint, b: bigint) => checked(a - b);
+export const mul = (a: bigint, b: bigint) => checked(a * b);
+
+export function div(a: bigint, b: bigint): bigint {
+  if (b === 0n) {
+    throw new RangeError("Division by zero");
+  }
+  return a / b;
+}
+
+/**
+ * Integer square root using the Babylonian method (mirrors CurveMath.sqrt)
+ */
+export function sqrt(x: bigint): bigint {
+  if (x === 0n) return 0n;
+
+  let z = div(add(x, 1n), 2n);
+  let y = x;
+
+  while (z < y) {
+    y = z;
+    z = div(add(div(x, z), z), 2n);
+  }
+  return y;
+}
+
+/**
+ * e^x for a WAD exponent, rounded down (mirrors CurveMath.expWad)
+ */
+export function expWad(x: bigint): bigint {
+  if (x > MAX_EXPONENT) {
+    throw new RangeError("Exponent too large");
+  }
+
+  const k = div(x, LN2_WAD);
+  const r = sub(x, mul(k, LN2_WAD));
+
+  let term = WAD;
+  let sum = WAD;
+  for (let i = 1n; term !== 0n; i++) {
+    term = div(mul(term, r), mul(i, WAD));
+    sum = add(sum, term);
+  }
+
+  return (sum << k) & MAX_UINT256;
+}
+
+/**
+ * ln(y) for a WAD value y >= 1, rounded down (mirrors CurveMath.lnWad)
+ */
+export function lnWad(y: bigint): bigint {
+  if (y < WAD) {
+    throw new RangeError("Log below one");
+  }
+
+  let k = 0n;
+  while (y >= 2n * WAD) {
+    y >>= 1n;
+    k++;
+  }
+
+  const u = div(mul(sub(y, WAD), WAD), add(y, WAD));
+  const u2 = div(mul(u, u), WAD);
+
+  let term = u;
+  let sum = 0n;
+  for (let i = 1n; term !== 0n; i += 2n) {
+    sum = add(sum, div(term, i));
+    term = div(mul(term, u2), WAD);
+  }
+
+  return add(mul(k, LN2_WAD), mul(2n, sum));
+}
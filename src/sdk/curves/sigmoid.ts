@@ -0,0 +1,68 @@
+import { BondingCurve } from "../types";
+import { WAD, add, div, mul, sqrt, sub } from "./math";
+
+/**
+ * Algebraic sigmoid curve, mirrors contracts/curves/SigmoidCurve.sol
+ * Params: [halfMaxPrice, midpoint, smoothing]
+ */
+
+function distance(tokens: bigint, midpoint: bigint): bigint {
+  return tokens >= midpoint ? tokens - midpoint : midpoint - tokens;
+}
+
+function radius(dist: bigint, smoothing: bigint): bigint {
+  return sqrt(add(smoothing, mul(dist, dist)));
+}
+
+function getTotalCost(tokens: bigint, params: readonly bigint[]): bigint {
+  const r = radius(distance(tokens, params[1]), params[2]);
+  return div(mul(params[0], sub(add(r, tokens), radius(params[1], params[2]))), WAD);
+}
+
+export const sigmoidCurve: BondingCurve = {
+  getPrice(tokensSold, params) {
+    const a = params[0];
+    const dist = distance(tokensSold, params[1]);
+    const offset = div(mul(a, dist), radius(dist, params[2]));
+
+    return tokensSold >= params[1] ? add(a, offset) : sub(a, offset);
+  },
+
+  getCostToBuy(tokensSold, tokenAmount, params) {
+    return sub(getTotalCost(add(tokensSold, tokenAmount), params), getTotalCost(tokensSold, params));
+  },
+
+  getSaleProceeds(tokensSold, tokenAmount, params) {
+    if (tokenAmount > tokensSold) {
+      throw new RangeError("Not enough tokens sold");
+    }
+    return sub(getTotalCost(tokensSold, params), getTotalCost(tokensSold - tokenAmount, params));
+  },
+
+  getTokensForEth(tokensSold, ethAmount, params) {
+    const b = params[1];
+    const c = params[2];
+
+    const targetCost = add(getTotalCost(tokensSold, params), ethAmount);
+    const m = add(div(mul(targetCost, WAD), params[0]), radius(b, c));
+    if (m <= b) {
+      return 0n;
+    }
+    const n = m - b;
+    const nSquared = mul(n, n);
+
+    let newTokens: bigint;
+    if (nSquared >= c) {
+      newTokens = add(b, div(nSquared - c, mul(2n, n)));
+    } else {
+      const below = div(sub(add(sub(c, nSquared), mul(2n, n)), 1n), mul(2n, n));
+      newTokens = b > below ? b - below : 0n;
+    }
+
+    return newTokens > tokensSold ? newTokens - tokensSold : 0n;
+  },
+
+  validateParams(params) {
+    return params.length === 3 && params[0] > 0n && params[2] > 0n;
+  },
+};
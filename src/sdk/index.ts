@@ -0,0 +1,28 @@
+export { HeadlessMarketsClient } from "./HeadlessMarketsClient";
+export type { ClientOptions } from "./HeadlessMarketsClient";
+export { resolveAddresses } from "./addresses";
+export { encodeCall } from "./calls";
+export * as curveMath from "./curveMath";
+export type { CurveState } from "./curveMath";
+export * as curves from "./curves";
+export { buildPermitTypedData, signPermit, PERMIT_TYPES } from "./permit";
+export type { PermitMessage, PermitSignature, PermitTypedData } from "./permit";
+export {
+  encodeSignedAction,
+  governanceDomain,
+  recoverActionSigner,
+  signApproveQuorum,
+  signCastVote,
+  signPropose,
+  signVote,
+  GOVERNANCE_TYPES,
+} from "./signatures";
+export type {
+  SignedAction,
+  SignedApproveQuorum,
+  SignedCastVote,
+  SignedPropose,
+  SignedVote,
+  SignOptions,
+} from "./signatures";
+export * from "./types";
@@ -0,0 +1,80 @@
+import { Signature, Signer, TypedDataDomain, TypedDataField } from "ethers";
+import { MarketToken } from "../../typechain-types";
+
+/**
+ * EIP-2612 permit helpers for MarketToken
+ *
+ * The domain is read from the token's EIP-5267 eip712Domain() rather than
+ * rebuilt locally, so signatures match whatever name and version the token
+ * was deployed with.
+ */
+
+export const PERMIT_TYPES: Record<string, TypedDataField[]> = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface PermitMessage {
+  owner: string;
+  spender: string;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface PermitTypedData {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  message: PermitMessage;
+}
+
+export interface PermitSignature {
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * Typed data for a permit letting `spender` move `value` of `owner`'s tokens
+ */
+export async function buildPermitTypedData(
+  token: MarketToken,
+  owner: string,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<PermitTypedData> {
+  const [domain, nonce] = await Promise.all([token.eip712Domain(), token.nonces(owner)]);
+  return {
+    domain: {
+      name: domain.name,
+      version: domain.version,
+      chainId: domain.chainId,
+      verifyingContract: domain.verifyingContract,
+    },
+    types: PERMIT_TYPES,
+    message: { owner, spender, value, nonce, deadline },
+  };
+}
+
+/**
+ * Sign a permit with `signer` as the token owner
+ */
+export async function signPermit(
+  signer: Signer,
+  token: MarketToken,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<PermitSignature> {
+  const owner = await signer.getAddress();
+  const { domain, types, message } = await buildPermitTypedData(token, owner, spender, value, deadline);
+  const { v, r, s } = Signature.from(await signer.signTypedData(domain, types, message));
+  return { deadline, v, r, s };
+}
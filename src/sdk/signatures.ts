@@ -0,0 +1,299 @@
+import { Signer, TypedDataDomain, TypedDataField, verifyTypedData } from "ethers";
+import { QuorumGovernance } from "../../typechain-types";
+import { GovernanceProposalParams, ProposalType, VoteType } from "./types";
+
+/**
+ * EIP-712 signed governance actions
+ *
+ * Builds and signs the typed data accepted by QuorumGovernance's
+ * approveQuorumBySig, voteBySig, castVoteBySig and proposeBySig, and encodes signed actions
+ * as calldata for a relayer. Field order must match the typehashes in the
+ * contract.
+ */
+
+export const GOVERNANCE_TYPES: Record<string, Record<string, TypedDataField[]>> = {
+  ApproveQuorum: {
+    ApproveQuorum: [
+      { name: "proposalId", type: "uint256" },
+      { name: "agent", type: "address" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  },
+  Vote: {
+    Vote: [
+      { name: "proposalId", type: "uint256" },
+      { name: "support", type: "bool" },
+      { name: "voter", type: "address" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  },
+  CastVote: {
+    CastVote: [
+      { name: "proposalId", type: "uint256" },
+      { name: "support", type: "uint8" },
+      { name: "reason", type: "string" },
+      { name: "voter", type: "address" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  },
+  Propose: {
+    Propose: [
+      { name: "marketId", type: "uint256" },
+      { name: "pType", type: "uint8" },
+      { name: "target", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "data", type: "bytes" },
+      { name: "description", type: "string" },
+      { name: "proposer", type: "address" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  },
+};
+
+interface SignedActionBase {
+  signer: string;
+  nonce: bigint;
+  deadline: bigint;
+  signature: string;
+}
+
+export interface SignedApproveQuorum extends SignedActionBase {
+  kind: "approveQuorum";
+  proposalId: bigint;
+}
+
+export interface SignedVote extends SignedActionBase {
+  kind: "vote";
+  proposalId: bigint;
+  support: boolean;
+}
+
+export interface SignedCastVote extends SignedActionBase {
+  kind: "castVote";
+  proposalId: bigint;
+  support: VoteType;
+  reason: string;
+}
+
+export interface SignedPropose extends SignedActionBase {
+  kind: "propose";
+  marketId: bigint;
+  pType: ProposalType;
+  target: string;
+  value: bigint;
+  data: string;
+  description: string;
+}
+
+export type SignedAction = SignedApproveQuorum | SignedVote | SignedCastVote | SignedPropose;
+
+export interface SignOptions {
+  deadline: bigint;
+  // Defaults to the signer's current on-chain nonce; set it to sign several
+  // actions ahead of submission (nonce, nonce + 1, ...)
+  nonce?: bigint;
+}
+
+/**
+ * The governance contract's EIP-712 domain, read from eip712Domain()
+ */
+export async function governanceDomain(governance: QuorumGovernance): Promise<TypedDataDomain> {
+  const domain = await governance.eip712Domain();
+  return {
+    name: domain.name,
+    version: domain.version,
+    chainId: domain.chainId,
+    verifyingContract: domain.verifyingContract,
+  };
+}
+
+export async function signApproveQuorum(
+  signer: Signer,
+  governance: QuorumGovernance,
+  proposalId: bigint | number,
+  options: SignOptions
+): Promise<SignedApproveQuorum> {
+  const agent = await signer.getAddress();
+  const nonce = options.nonce ?? (await governance.nonces(agent));
+  const message = { proposalId: BigInt(proposalId), agent, nonce, deadline: options.deadline };
+  const signature = await signer.signTypedData(
+    await governanceDomain(governance),
+    GOVERNANCE_TYPES.ApproveQuorum,
+    message
+  );
+  return { kind: "approveQuorum", proposalId: message.proposalId, signer: agent, nonce, deadline: options.deadline, signature };
+}
+
+export async function signVote(
+  signer: Signer,
+  governance: QuorumGovernance,
+  proposalId: bigint | number,
+  support: boolean,
+  options: SignOptions
+): Promise<SignedVote> {
+  const voter = await signer.getAddress();
+  const nonce = options.nonce ?? (await governance.nonces(voter));
+  const message = { proposalId: BigInt(proposalId), support, voter, nonce, deadline: options.deadline };
+  const signature = await signer.signTypedData(await governanceDomain(governance), GOVERNANCE_TYPES.Vote, message);
+  return { kind: "vote", proposalId: message.proposalId, support, signer: voter, nonce, deadline: options.deadline, signature };
+}
+
+/**
+ * Sign a castVote: for, against or abstain, with a reason
+ */
+export async function signCastVote(
+  signer: Signer,
+  governance: QuorumGovernance,
+  proposalId: bigint | number,
+  support: VoteType,
+  reason: string,
+  options: SignOptions
+): Promise<SignedCastVote> {
+  const voter = await signer.getAddress();
+  const nonce = options.nonce ?? (await governance.nonces(voter));
+  const message = { proposalId: BigInt(proposalId), support, reason, voter, nonce, deadline: options.deadline };
+  const signature = await signer.signTypedData(await governanceDomain(governance), GOVERNANCE_TYPES.CastVote, message);
+  return {
+    kind: "castVote",
+    proposalId: message.proposalId,
+    support,
+    reason,
+    signer: voter,
+    nonce,
+    deadline: options.deadline,
+    signature,
+  };
+}
+
+export async function signPropose(
+  signer: Signer,
+  governance: QuorumGovernance,
+  params: GovernanceProposalParams,
+  options: SignOptions
+): Promise<SignedPropose> {
+  const proposer = await signer.getAddress();
+  const nonce = options.nonce ?? (await governance.nonces(proposer));
+  const fields = {
+    marketId: BigInt(params.marketId),
+    pType: params.pType,
+    target: params.target,
+    value: params.value ?? 0n,
+    data: params.data ?? "0x",
+    description: params.description,
+  };
+  const signature = await signer.signTypedData(await governanceDomain(governance), GOVERNANCE_TYPES.Propose, {
+    ...fields,
+    proposer,
+    nonce,
+    deadline: options.deadline,
+  });
+  return { kind: "propose", ...fields, signer: proposer, nonce, deadline: options.deadline, signature };
+}
+
+/**
+ * Address that produced the action's signature, for rejecting bad
+ * signatures before they cost gas
+ */
+export function recoverActionSigner(domain: TypedDataDomain, action: SignedAction): string {
+  switch (action.kind) {
+    case "approveQuorum":
+      return verifyTypedData(
+        domain,
+        GOVERNANCE_TYPES.ApproveQuorum,
+        { proposalId: action.proposalId, agent: action.signer, nonce: action.nonce, deadline: action.deadline },
+        action.signature
+      );
+    case "vote":
+      return verifyTypedData(
+        domain,
+        GOVERNANCE_TYPES.Vote,
+        {
+          proposalId: action.proposalId,
+          support: action.support,
+          voter: action.signer,
+          nonce: action.nonce,
+          deadline: action.deadline,
+        },
+        action.signature
+      );
+    case "castVote":
+      return verifyTypedData(
+        domain,
+        GOVERNANCE_TYPES.CastVote,
+        {
+          proposalId: action.proposalId,
+          support: action.support,
+          reason: action.reason,
+          voter: action.signer,
+          nonce: action.nonce,
+          deadline: action.deadline,
+        },
+        action.signature
+      );
+    case "propose":
+      return verifyTypedData(
+        domain,
+        GOVERNANCE_TYPES.Propose,
+        {
+          marketId: action.marketId,
+          pType: action.pType,
+          target: action.target,
+          value: action.value,
+          data: action.data,
+          description: action.description,
+          proposer: action.signer,
+          nonce: action.nonce,
+          deadline: action.deadline,
+        },
+        action.signature
+      );
+  }
+}
+
+/**
+ * Calldata for submitting a signed action through its *BySig function
+ */
+export function encodeSignedAction(governance: QuorumGovernance, action: SignedAction): string {
+  switch (action.kind) {
+    case "approveQuorum":
+      return governance.interface.encodeFunctionData("approveQuorumBySig", [
+        action.proposalId,
+        action.signer,
+        action.deadline,
+        action.signature,
+      ]);
+    case "vote":
+      return governance.interface.encodeFunctionData("voteBySig", [
+        action.proposalId,
+        action.support,
+        action.signer,
+        action.deadline,
+        action.signature,
+      ]);
+    case "castVote":
+      return governance.interface.encodeFunctionData("castVoteBySig", [
+        action.proposalId,
+        action.support,
+        action.reason,
+        action.signer,
+        action.deadline,
+        action.signature,
+      ]);
+    case "propose":
+      return governance.interface.encodeFunctionData("proposeBySig", [
+        action.marketId,
+        action.pType,
+        action.target,
+        action.value,
+        action.data,
+        action.description,
+        action.signer,
+        action.deadline,
+        action.signature,
+      ]);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Shared types for the Headless Markets SDK
+ *
+ * Field names mirror the named return values of the contract view functions
+ * (getMarket, getProposal, getQuorumProposal) so data read through the SDK
+ * can be compared one-to-one with raw contract calls.
+ */
+
+// Must stay in the same order as QuorumGovernance.ProposalType
+export enum ProposalType {
+  AddAgent = 0,
+  RemoveAgent = 1,
+  TreasurySpend = 2,
+  AdjustFees = 3,
+  ForceGraduate = 4,
+  ProposeQuorum = 5,
+  Call = 6,
+  SetWeight = 7,
+}
+
+// Must stay in the same order as QuorumGovernance.ProposalStatus
+export enum ProposalStatus {
+  Active = 0,
+  Passed = 1,
+  Failed = 2,
+  Executed = 3,
+  Cancelled = 4,
+  Queued = 5,
+}
+
+// Must stay in the same order as QuorumGovernance.QuorumStatus
+export enum QuorumStatus {
+  Pending = 0,
+  Formed = 1,
+  Rejected = 2,
+  Expired = 3,   // Still pending at its deadline
+}
+
+// Values of QuorumGovernance.castVote's support argument
+export enum VoteType {
+  Against = 0,
+  For = 1,
+  Abstain = 2,
+}
+
+// Must stay in the same order as IBondingCurve.CurveType
+export enum CurveType {
+  Linear = 0,
+  Exponential = 1,
+  ConstantProduct = 2,
+  Sigmoid = 3,
+}
+
+export interface ProtocolAddresses {
+  factory: string;
+  governance: string;
+}
+
+export interface MarketView {
+  marketId: bigint;
+  tokenAddress: string;
+  lpPair: string;
+  quorumAgents: string[];
+  agentWeights: bigint[];
+  targetRaise: bigint;
+  currentRaised: bigint;
+  tokensSold: bigint;
+  graduated: boolean;
+  active: boolean;
+  thesis: string;
+}
+
+// Current members, kept in step with governance AddAgent/RemoveAgent
+export interface QuorumView {
+  agents: string[];
+  weights: bigint[];
+}
+
+export interface ProposalView {
+  id: bigint;
+  marketId: bigint;
+  pType: ProposalType;
+  target: string;
+  value: bigint;
+  forVotes: bigint;
+  againstVotes: bigint;
+  deadline: bigint;
+  status: ProposalStatus;
+  proposer: string;
+  description: string;
+  eta: bigint;           // Earliest execution time once queued, 0 before
+  abstainVotes: bigint;  // Count toward quorum but not majority
+}
+
+export interface QuorumProposalView {
+  id: bigint;
+  proposedAgents: string[];
+  weights: bigint[];
+  name: string;
+  symbol: string;
+  thesis: string;
+  approvalCount: bigint;
+  deadline: bigint;
+  executed: boolean;
+  status: QuorumStatus;
+}
+
+export interface BuyQuote {
+  ethIn: bigint;      // Total ETH sent with the buy
+  fee: bigint;        // Protocol fee taken from ethIn
+  netEth: bigint;     // ETH that reaches the curve
+  tokensOut: bigint;  // Tokens received
+  refund: bigint;     // ETH returned when the buy is capped at the graduation target
+}
+
+export interface BuyExactQuote {
+  tokensOut: bigint;  // Tokens received (fewer than requested if capped at the graduation target)
+  cost: bigint;       // ETH charged by the curve
+  fee: bigint;        // Protocol fee added on top of cost
+  ethIn: bigint;      // Total ETH spent (cost + fee)
+}
+
+export interface SellQuote {
+  tokensIn: bigint;   // Tokens sold back to the curve
+  grossEth: bigint;   // ETH released by the curve
+  fee: bigint;        // Protocol fee taken from grossEth
+  ethOut: bigint;     // ETH received by the seller
+}
+
+/**
+ * Off-chain mirror of IBondingCurve. Implementations throw where the
+ * contract would revert.
+ */
+export interface BondingCurve {
+  getPrice(tokensSold: bigint, params: readonly bigint[]): bigint;
+  getCostToBuy(tokensSold: bigint, tokenAmount: bigint, params: readonly bigint[]): bigint;
+  getSaleProceeds(tokensSold: bigint, tokenAmount: bigint, params: readonly bigint[]): bigint;
+  getTokensForEth(tokensSold: bigint, ethAmount: bigint, params: readonly bigint[]): bigint;
+  validateParams(params: readonly bigint[]): boolean;
+}
+
+export interface MarketParams {
+  quorumAgents: string[];
+  weights: bigint[] | number[];  // Must sum to 100
+  name: string;
+  symbol: string;
+  thesis: string;
+  // Omit all three to use the factory defaults; otherwise checked against getParameterBounds
+  curveType?: CurveType;    // Defaults to Linear
+  curveParams?: bigint[];   // Defaults to the default linear params; required for other curves
+  targetRaise?: bigint;     // Defaults to defaultTargetRaise
+}
+
+export interface ParameterBounds {
+  minTargetRaise: bigint;
+  maxTargetRaise: bigint;
+  minParams: bigint[];      // Empty when the curve type has no param bounds
+  maxParams: bigint[];
+}
+
+export interface GovernanceProposalParams {
+  marketId: bigint | number;
+  pType: ProposalType;
+  target: string;
+  value?: bigint;
+  data?: string;
+  description: string;
+}
+
+export interface CallProposalParams {
+  marketId: bigint | number;
+  target: string;            // Must be allowlisted on QuorumGovernance (allowedCallTargets)
+  value?: bigint;            // ETH sent from the market treasury
+  fragment: string;          // e.g. "function transfer(address to, uint256 amount)"
+  args?: readonly unknown[];
+  description: string;
+}
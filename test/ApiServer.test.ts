@@ -0,0 +1,232 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ApiServer } from "../src/api";
+import { IndexerDatabase, ProtocolIndexer } from "../src/indexer";
+import { HeadlessMarketsClient } from "../src/sdk";
+
+/**
+ * Read-only API Tests
+ *
+ * Indexes protocol activity on the Hardhat network into an in-memory
+ * database and queries the API over real HTTP.
+ */
+describe("ApiServer", function () {
+  let server: ApiServer | null = null;
+
+  afterEach(async function () {
+    if (server) await server.close();
+    server = null;
+  });
+
+  async function deployApiFixture() {
+    const [owner, treasury, agent1, agent2, agent3, agent4, buyer1, buyer2] = await ethers.getSigners();
+
+    const Factory = await ethers.getContractFactory("BondingCurveFactory");
+    const factory = await Factory.deploy(treasury.address, ethers.ZeroAddress);
+
+    const Governance = await ethers.getContractFactory("QuorumGovernance");
+    const governance = await Governance.deploy(factory.target);
+    await factory.setGovernance(governance.target);
+
+    const addresses = { factory: factory.target as string, governance: governance.target as string };
+    const client = (signer: typeof owner) => HeadlessMarketsClient.connect(signer, { addresses });
+
+    // Quorum-formed market with trading and governance activity
+    const quorum = await client(agent1);
+    const { proposalId: quorumId } = await quorum.proposeQuorum({
+      quorumAgents: [agent1.address, agent2.address, agent3.address],
+      weights: [40, 35, 25],
+      name: "API Token",
+      symbol: "API",
+      thesis: "Served over HTTP",
+    });
+    await (await client(agent2)).approveQuorum(quorumId);
+    await (await client(agent3)).approveQuorum(quorumId);
+
+    await (await client(buyer1)).buy(0, ethers.parseEther("1"), 0n);
+    await time.increase(3600);
+    await (await client(buyer2)).buy(0, ethers.parseEther("0.5"), 0n);
+    await (await client(buyer1)).sell(0, ethers.parseEther("100"), 0n);
+
+    const { proposalId } = await quorum.propose({
+      marketId: 0,
+      pType: 3, // AdjustFees
+      target: ethers.ZeroAddress,
+      value: 100n,
+      description: "Lower fees",
+    });
+    await (await client(agent2)).vote(proposalId, false);
+
+    return { factory, governance, addresses, agent1, agent2, agent3, agent4, buyer1, buyer2 };
+  }
+
+  async function startServer() {
+    const fixture = await loadFixture(deployApiFixture);
+
+    const db = new IndexerDatabase(":memory:");
+    await new ProtocolIndexer(ethers.provider, fixture.addresses, db).sync();
+
+    server = new ApiServer(db, await HeadlessMarketsClient.connect(ethers.provider, { addresses: fixture.addresses }));
+    const port = await server.listen(0);
+
+    const url = `http://127.0.0.1:${port}`;
+    const get = async (path: string) => {
+      const res = await fetch(`${url}${path}`);
+      return { status: res.status, body: (await res.json()) as any };
+    };
+    return { ...fixture, get, url };
+  }
+
+  describe("Markets", function () {
+    it("Should list markets with getMarket() field names", async function () {
+      const { factory, get } = await startServer();
+
+      const { status, body } = await get("/markets");
+      const onChain = await factory.getMarket(0);
+
+      expect(status).to.equal(200);
+      expect(body).to.have.lengthOf(1);
+      expect(body[0]).to.deep.equal({
+        marketId: "0",
+        tokenAddress: onChain.tokenAddress,
+        lpPair: onChain.lpPair,
+        quorumAgents: [...onChain.quorumAgents],
+        agentWeights: onChain.agentWeights.map((w: bigint) => w.toString()),
+        targetRaise: onChain.targetRaise.toString(),
+        currentRaised: onChain.currentRaised.toString(),
+        tokensSold: onChain.tokensSold.toString(),
+        graduated: onChain.graduated,
+        active: onChain.active,
+        thesis: onChain.thesis,
+      });
+    });
+
+    it("Should return a single market and 404 for unknown markets", async function () {
+      const { get } = await startServer();
+
+      expect((await get("/markets/0")).body.thesis).to.equal("Served over HTTP");
+      expect((await get("/markets/7")).status).to.equal(404);
+      expect((await get("/markets/abc")).status).to.equal(400);
+    });
+
+    it("Should return trades newest first with pagination", async function () {
+      const { buyer1, buyer2, get } = await startServer();
+
+      const { body } = await get("/markets/0/trades");
+      expect(body.map((t: any) => t.side)).to.deep.equal(["sell", "buy", "buy"]);
+      expect(body.map((t: any) => t.trader)).to.deep.equal([buyer1.address, buyer2.address, buyer1.address]);
+      expect(body[2].ethAmount).to.equal(ethers.parseEther("1").toString());
+
+      const page = await get("/markets/0/trades?limit=1&offset=1");
+      expect(page.body).to.have.lengthOf(1);
+      expect(page.body[0].trader).to.equal(buyer2.address);
+
+      expect((await get("/markets/0/trades?limit=0")).status).to.equal(400);
+    });
+
+    it("Should return holder balances matching the token", async function () {
+      const { factory, buyer1, agent1, get } = await startServer();
+      const token = await ethers.getContractAt("MarketToken", (await factory.getMarket(0)).tokenAddress);
+
+      const { body } = await get("/markets/0/holders");
+      const byAddress = new Map(body.map((h: any) => [h.address, h.balance]));
+
+      expect(byAddress.get(buyer1.address)).to.equal((await token.balanceOf(buyer1.address)).toString());
+      expect(byAddress.get(agent1.address)).to.equal((await token.balanceOf(agent1.address)).toString());
+      expect(byAddress.has(ethers.ZeroAddress)).to.be.false;
+
+      const balances = body.map((h: any) => BigInt(h.balance));
+      expect([...balances].sort((a, b) => (b > a ? 1 : b < a ? -1 : 0))).to.deep.equal(balances);
+    });
+
+    it("Should bucket trades into candles", async function () {
+      const { factory, get } = await startServer();
+
+      const hourly = await get("/markets/0/candles?interval=1h");
+      expect(hourly.status).to.equal(200);
+      expect(hourly.body).to.have.lengthOf(2);
+      expect(hourly.body[0].volumeEth).to.equal(ethers.parseEther("1").toString());
+      expect(hourly.body[1].trades).to.equal(2);
+      expect(hourly.body[1].time % 3600).to.equal(0);
+      expect(hourly.body[1].open).to.equal(hourly.body[0].close);
+      expect(hourly.body[1].close).to.equal((await factory.getCurrentPrice(0)).toString());
+
+      const daily = await get("/markets/0/candles?interval=1d");
+      expect(daily.body.reduce((n: number, c: any) => n + c.trades, 0)).to.equal(3);
+
+      const filled = await get(`/markets/0/candles?interval=15m&fill=true&from=${hourly.body[0].time}`);
+      expect(filled.body.length).to.be.greaterThan(hourly.body.length);
+      expect(filled.body.every((c: any, i: number) => i === 0 || c.time - filled.body[i - 1].time === 900)).to.be.true;
+
+      expect((await get("/markets/0/candles?interval=7y")).status).to.equal(400);
+      expect((await get("/markets/0/candles?from=soon")).status).to.equal(400);
+      expect((await get("/markets/0/candles?from=200&to=100")).status).to.equal(400);
+    });
+  });
+
+  describe("Governance", function () {
+    it("Should list proposals with getProposal() field names", async function () {
+      const { governance, get } = await startServer();
+
+      const { body } = await get("/proposals");
+      const onChain = await governance.getProposal(0);
+
+      expect(body).to.have.lengthOf(1);
+      expect(body[0]).to.deep.equal({
+        id: "0",
+        marketId: "0",
+        pType: Number(onChain.pType),
+        target: onChain.target,
+        value: onChain.value.toString(),
+        forVotes: onChain.forVotes.toString(),
+        againstVotes: onChain.againstVotes.toString(),
+        deadline: onChain.deadline.toString(),
+        status: Number(onChain.status),
+        proposer: onChain.proposer,
+        description: onChain.description,
+        eta: onChain.eta.toString(),
+        abstainVotes: onChain.abstainVotes.toString(),
+      });
+    });
+
+    it("Should filter proposals by market and status", async function () {
+      const { get } = await startServer();
+
+      expect((await get("/proposals?marketId=0&status=Active")).body).to.have.lengthOf(1);
+      expect((await get("/proposals?status=Executed")).body).to.have.lengthOf(0);
+      expect((await get("/proposals?marketId=5")).body).to.have.lengthOf(0);
+      expect((await get("/proposals?status=Bogus")).status).to.equal(400);
+    });
+
+    it("Should summarize an agent's markets, proposals and votes", async function () {
+      const { agent1, agent2, agent4, get } = await startServer();
+
+      const proposer = (await get(`/agents/${agent1.address.toLowerCase()}`)).body;
+      expect(proposer.address).to.equal(agent1.address);
+      expect(proposer.markets.map((m: any) => m.marketId)).to.deep.equal(["0"]);
+      expect(proposer.proposals.map((p: any) => p.description)).to.deep.equal(["Lower fees"]);
+      expect(proposer.votes).to.deep.equal([]);
+
+      const voter = (await get(`/agents/${agent2.address}`)).body;
+      expect(voter.votes).to.deep.equal([{ proposalId: "0", support: 0, weight: "35", reason: "" }]);
+
+      const outsider = (await get(`/agents/${agent4.address}`)).body;
+      expect(outsider.markets).to.deep.equal([]);
+
+      expect((await get("/agents/not-an-address")).status).to.equal(400);
+    });
+  });
+
+  describe("Routing", function () {
+    it("Should reject unknown routes and non-GET methods", async function () {
+      const { get, url } = await startServer();
+
+      expect((await get("/nope")).status).to.equal(404);
+      expect((await get("/markets/")).status).to.equal(200);
+
+      const res = await fetch(`${url}/markets`, { method: "POST" });
+      expect(res.status).to.equal(405);
+    });
+  });
+});
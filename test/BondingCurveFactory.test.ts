@@ -1,8 +1,9 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { BondingCurveFactory, MarketToken } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { signPermit } from "../src/sdk";
 
 describe("BondingCurveFactory", function () {
   // Fixture to deploy the factory
@@ -76,6 +77,16 @@ describe("BondingCurveFactory", function () {
       expect(await factory.CURVE_ALLOCATION_BPS()).to.equal(6000); // 60%
       expect(await factory.TREASURY_ALLOCATION_BPS()).to.equal(1000); // 10%
     });
+
+    it("Should deploy market tokens only through its own token deployer", async function () {
+      const { factory, buyer1 } = await loadFixture(deployFactoryFixture);
+      const deployer = await ethers.getContractAt("MarketTokenDeployer", await factory.tokenDeployer());
+
+      expect(await deployer.factory()).to.equal(factory.target);
+      await expect(
+        deployer.connect(buyer1).deploy("Rogue", "RGE", ethers.parseEther("1"))
+      ).to.be.revertedWith("Only factory");
+    });
   });
 
   describe("Market Creation", function () {
@@ -232,6 +243,91 @@ describe("BondingCurveFactory", function () {
     });
   });
 
+  describe("Buying Exact Tokens", function () {
+    it("Should buy an exact amount with the fee added on top and refund the excess", async function () {
+      const { factory, token, treasury, marketId, buyer1 } = await loadFixture(deployWithMarketFixture);
+      const tokenAmount = ethers.parseEther("1000");
+
+      const cost = await factory.calculateCostForTokens(marketId, tokenAmount);
+      const fee = (cost * 50n) / 10000n;
+      const ethIn = cost + fee;
+      const sent = ethIn + ethers.parseEther("1");
+
+      const treasuryBefore = await ethers.provider.getBalance(treasury.address);
+      const tx = factory.connect(buyer1).buyExactTokens(marketId, tokenAmount, sent, { value: sent });
+
+      await expect(tx).to.changeEtherBalance(buyer1, -ethIn);
+      await expect(tx)
+        .to.emit(factory, "TokensPurchased")
+        .withArgs(marketId, buyer1.address, ethIn, tokenAmount, await factory.getCurrentPrice(marketId));
+
+      expect(await token.balanceOf(buyer1.address)).to.equal(tokenAmount);
+      expect(await ethers.provider.getBalance(treasury.address)).to.equal(treasuryBefore + fee);
+      expect((await factory.getMarket(marketId)).currentRaised).to.equal(cost);
+    });
+
+    it("Should reject when the cost exceeds maxEthIn or msg.value", async function () {
+      const { factory, marketId, buyer1 } = await loadFixture(deployWithMarketFixture);
+      const tokenAmount = ethers.parseEther("1000");
+      const cost = await factory.calculateCostForTokens(marketId, tokenAmount);
+      const ethIn = cost + (cost * 50n) / 10000n;
+
+      await expect(
+        factory.connect(buyer1).buyExactTokens(marketId, tokenAmount, ethIn - 1n, { value: ethIn })
+      ).to.be.revertedWith("Slippage exceeded");
+      await expect(
+        factory.connect(buyer1).buyExactTokens(marketId, tokenAmount, ethIn, { value: ethIn - 1n })
+      ).to.be.revertedWith("Insufficient ETH");
+      await expect(
+        factory.connect(buyer1).buyExactTokens(marketId, tokenAmount, ethIn, { value: ethIn })
+      ).to.not.be.reverted;
+    });
+
+    it("Should reject zero, dust and oversized amounts", async function () {
+      const { factory, marketId, buyer1 } = await loadFixture(deployWithMarketFixture);
+      const value = ethers.parseEther("1");
+
+      await expect(
+        factory.connect(buyer1).buyExactTokens(marketId, 0, value, { value })
+      ).to.be.revertedWith("Zero tokens");
+      await expect(
+        factory.connect(buyer1).buyExactTokens(marketId, ethers.parseEther("1"), value, { value })
+      ).to.be.revertedWith("Below minimum purchase");
+      await expect(
+        factory.connect(buyer1).buyExactTokens(marketId, ethers.parseEther("600001"), value, { value })
+      ).to.be.revertedWith("Exceeds curve supply");
+    });
+
+    it("Should graduate and refund an exact buy the graduation cap leaves with zero tokens", async function () {
+      const { factory, owner, agent1, agent2, agent3, buyer1 } = await loadFixture(deployFactoryFixture);
+
+      // A single token wei costs 10,000 ETH, far beyond the 1 ETH target
+      await factory.connect(owner).setDefaultParameters(10n ** 40n, 0, ethers.parseEther("1"));
+      await factory.createMarket([agent1.address, agent2.address, agent3.address], [40, 35, 25], "Dear", "DEAR", "Thesis");
+
+      const value = ethers.parseEther("2");
+      const tx = factory.connect(buyer1).buyExactTokens(0, 1n, value, { value });
+      await expect(tx).to.emit(factory, "MarketGraduated");
+      await expect(tx).to.changeEtherBalance(buyer1, 0);
+      expect((await factory.getMarket(0)).currentRaised).to.equal(0);
+    });
+
+    it("Should graduate when an exact buy reaches the target", async function () {
+      const { factory, marketId, buyer1 } = await loadFixture(deployWithMarketFixture);
+
+      // Smallest token amount whose curve cost reaches the 10 ETH target
+      let tokenAmount = await factory.calculatePurchaseReturn(marketId, ethers.parseEther("10"));
+      while ((await factory.calculateCostForTokens(marketId, tokenAmount)) < ethers.parseEther("10")) {
+        tokenAmount += ethers.parseEther("1");
+      }
+
+      const value = ethers.parseEther("11");
+      await expect(factory.connect(buyer1).buyExactTokens(marketId, tokenAmount, value, { value }))
+        .to.emit(factory, "MarketGraduated");
+      expect((await factory.getMarket(marketId)).graduated).to.be.true;
+    });
+  });
+
   describe("Selling Tokens", function () {
     it("Should allow selling tokens", async function () {
       const { factory, token, marketId, buyer1 } =
@@ -258,6 +354,26 @@ describe("BondingCurveFactory", function () {
       expect(ethBalanceAfter).to.be.gt(ethBalanceBefore - ethers.parseEther("0.01")); // Account for gas
     });
 
+    it("Should emit the post-trade price on sell", async function () {
+      const { factory, token, marketId, buyer1 } = await loadFixture(deployWithMarketFixture);
+
+      await factory.connect(buyer1).buy(marketId, 0, { value: ethers.parseEther("0.5") });
+      const sellAmount = (await token.balanceOf(buyer1.address)) / 2n;
+      await token.connect(buyer1).approve(factory.target, sellAmount);
+
+      const priceBefore = await factory.getCurrentPrice(marketId);
+      const ethOut = await factory.calculateSaleReturn(marketId, sellAmount);
+      const netOut = ethOut - (ethOut * (await factory.protocolFeeBps())) / 10000n;
+
+      const tx = await factory.connect(buyer1).sell(marketId, sellAmount, 0);
+      const newPrice = await factory.getCurrentPrice(marketId);
+
+      await expect(tx)
+        .to.emit(factory, "TokensSold")
+        .withArgs(marketId, buyer1.address, sellAmount, netOut, newPrice);
+      expect(newPrice).to.be.lt(priceBefore);
+    });
+
     it("Should reject selling zero tokens", async function () {
       const { factory, marketId, buyer1 } = await loadFixture(deployWithMarketFixture);
 
@@ -267,6 +383,132 @@ describe("BondingCurveFactory", function () {
     });
   });
 
+  describe("Transaction Deadlines", function () {
+    it("Should buy and sell up to and including the deadline", async function () {
+      const { factory, token, marketId, buyer1 } = await loadFixture(deployWithMarketFixture);
+
+      let deadline = BigInt(await time.latest()) + 100n;
+      await time.setNextBlockTimestamp(deadline);
+      await expect(
+        factory.connect(buyer1).buyWithDeadline(marketId, 0, deadline, { value: ethers.parseEther("1") })
+      ).to.emit(factory, "TokensPurchased");
+
+      const balance = await token.balanceOf(buyer1.address);
+      await token.connect(buyer1).approve(factory.target, balance);
+
+      deadline = BigInt(await time.latest()) + 100n;
+      await time.setNextBlockTimestamp(deadline);
+      await expect(
+        factory.connect(buyer1).sellWithDeadline(marketId, balance, 0, deadline)
+      ).to.emit(factory, "TokensSold");
+    });
+
+    it("Should reject buys and sells after the deadline", async function () {
+      const { factory, token, marketId, buyer1 } = await loadFixture(deployWithMarketFixture);
+      await factory.connect(buyer1).buy(marketId, 0, { value: ethers.parseEther("1") });
+      await token.connect(buyer1).approve(factory.target, ethers.MaxUint256);
+
+      const deadline = BigInt(await time.latest());
+      await expect(
+        factory.connect(buyer1).buyWithDeadline(marketId, 0, deadline, { value: ethers.parseEther("1") })
+      ).to.be.revertedWith("Transaction expired");
+      await expect(
+        factory.connect(buyer1).sellWithDeadline(marketId, 1n, 0, deadline)
+      ).to.be.revertedWith("Transaction expired");
+    });
+
+    it("Should buy exact tokens up to and including the deadline", async function () {
+      const { factory, token, marketId, buyer1 } = await loadFixture(deployWithMarketFixture);
+      const tokenAmount = ethers.parseEther("1000");
+      const value = ethers.parseEther("1");
+
+      const expired = BigInt(await time.latest());
+      await expect(
+        factory.connect(buyer1).buyExactTokensWithDeadline(marketId, tokenAmount, value, expired, { value })
+      ).to.be.revertedWith("Transaction expired");
+
+      const deadline = BigInt(await time.latest()) + 100n;
+      await time.setNextBlockTimestamp(deadline);
+      await expect(
+        factory.connect(buyer1).buyExactTokensWithDeadline(marketId, tokenAmount, value, deadline, { value })
+      ).to.emit(factory, "TokensPurchased");
+      expect(await token.balanceOf(buyer1.address)).to.equal(tokenAmount);
+    });
+
+    it("Should still enforce slippage on deadline variants", async function () {
+      const { factory, marketId, buyer1 } = await loadFixture(deployWithMarketFixture);
+      const deadline = BigInt(await time.latest()) + 3600n;
+
+      await expect(
+        factory.connect(buyer1).buyWithDeadline(marketId, ethers.parseEther("999999999"), deadline, {
+          value: ethers.parseEther("0.01"),
+        })
+      ).to.be.revertedWith("Slippage exceeded");
+    });
+  });
+
+  describe("Selling with Permit", function () {
+    async function boughtFixture() {
+      const fixture = await loadFixture(deployWithMarketFixture);
+      const { factory, token, marketId, buyer1 } = fixture;
+      await factory.connect(buyer1).buy(marketId, 0, { value: ethers.parseEther("1") });
+      const balance = await token.balanceOf(buyer1.address);
+      const deadline = BigInt(await time.latest()) + 3600n;
+      return { ...fixture, balance, deadline };
+    }
+
+    it("Should expose EIP-2612 permit on market tokens", async function () {
+      const { token, buyer1 } = await loadFixture(deployWithMarketFixture);
+      const domain = await token.eip712Domain();
+
+      expect(domain.name).to.equal("Test Market Token");
+      expect(domain.version).to.equal("1");
+      expect(domain.verifyingContract).to.equal(token.target);
+      expect(await token.nonces(buyer1.address)).to.equal(0);
+    });
+
+    it("Should sell in one transaction with a permit signature", async function () {
+      const { factory, token, marketId, buyer1, balance, deadline } = await loadFixture(boughtFixture);
+      const sellAmount = balance / 2n;
+      const { v, r, s } = await signPermit(buyer1, token, factory.target as string, sellAmount, deadline);
+      const netOut = ((await factory.calculateSaleReturn(marketId, sellAmount)) * 9950n) / 10000n;
+
+      await expect(factory.connect(buyer1).sellWithPermit(marketId, sellAmount, netOut, deadline, v, r, s))
+        .to.emit(factory, "TokensSold");
+
+      expect(await token.balanceOf(buyer1.address)).to.equal(balance - sellAmount);
+      expect(await token.nonces(buyer1.address)).to.equal(1);
+      expect(await token.allowance(buyer1.address, factory.target)).to.equal(0);
+    });
+
+    it("Should still sell if the permit was front-run", async function () {
+      const { factory, token, marketId, buyer1, buyer2, balance, deadline } = await loadFixture(boughtFixture);
+      const { v, r, s } = await signPermit(buyer1, token, factory.target as string, balance, deadline);
+
+      // Someone copies the signature from the mempool and submits the permit first
+      await token.connect(buyer2).permit(buyer1.address, factory.target, balance, deadline, v, r, s);
+
+      await expect(factory.connect(buyer1).sellWithPermit(marketId, balance, 0, deadline, v, r, s))
+        .to.emit(factory, "TokensSold");
+    });
+
+    it("Should reject invalid signatures and expired deadlines", async function () {
+      const { factory, token, marketId, buyer1, buyer2, balance, deadline } = await loadFixture(boughtFixture);
+
+      // Signed by the wrong account: permit fails and no allowance exists
+      const forged = await signPermit(buyer2, token, factory.target as string, balance, deadline);
+      await expect(
+        factory.connect(buyer1).sellWithPermit(marketId, balance, 0, deadline, forged.v, forged.r, forged.s)
+      ).to.be.revertedWithCustomError(token, "ERC20InsufficientAllowance");
+
+      const expired = BigInt(await time.latest());
+      const { v, r, s } = await signPermit(buyer1, token, factory.target as string, balance, expired);
+      await expect(
+        factory.connect(buyer1).sellWithPermit(marketId, balance, 0, expired, v, r, s)
+      ).to.be.revertedWith("Transaction expired");
+    });
+  });
+
   describe("Price Calculation", function () {
     it("Should increase price as tokens are sold", async function () {
       const { factory, marketId, buyer1, buyer2 } =
@@ -296,6 +538,242 @@ describe("BondingCurveFactory", function () {
     });
   });
 
+  describe("Curve Shapes", function () {
+    // Matches IBondingCurve.CurveType
+    const CurveType = { Linear: 0, Exponential: 1, ConstantProduct: 2, Sigmoid: 3 };
+
+    it("Should default createMarket to the linear curve with default parameters", async function () {
+      const { factory, marketId } = await loadFixture(deployWithMarketFixture);
+
+      const curve = await factory.getMarketCurve(marketId);
+      expect(curve.curveType).to.equal(CurveType.Linear);
+      expect(curve.curve).to.equal(await factory.curveImplementations(CurveType.Linear));
+      expect(curve.params).to.deep.equal([await factory.defaultBasePrice(), await factory.defaultSlope()]);
+    });
+
+    it("Should create a market with a chosen curve", async function () {
+      const { factory, agent1, agent2, agent3 } = await loadFixture(deployFactoryFixture);
+      const params = [ethers.parseEther("100"), ethers.parseEther("1073000")];
+
+      await expect(
+        factory.createMarketWithCurve(
+          [agent1.address, agent2.address, agent3.address],
+          [40, 35, 25],
+          "CPMM Token",
+          "CPMM",
+          "Constant product market",
+          CurveType.ConstantProduct,
+          params,
+          ethers.parseEther("10")
+        )
+      )
+        .to.emit(factory, "MarketCurveConfigured")
+        .withArgs(0, CurveType.ConstantProduct, await factory.curveImplementations(CurveType.ConstantProduct), params);
+
+      const curve = await factory.getMarketCurve(0);
+      expect(curve.curveType).to.equal(CurveType.ConstantProduct);
+      expect(curve.params).to.deep.equal(params);
+    });
+
+    it("Should increase price as tokens are sold on every curve", async function () {
+      const { factory, agent1, agent2, agent3, buyer1 } = await loadFixture(deployFactoryFixture);
+      const shapes: [number, bigint[]][] = [
+        [CurveType.Exponential, [ethers.parseEther("0.0001"), 7_675_000_000_000n]],
+        [CurveType.ConstantProduct, [ethers.parseEther("100"), ethers.parseEther("1073000")]],
+        [CurveType.Sigmoid, [ethers.parseEther("0.0001"), ethers.parseEther("300000"), ethers.parseEther("100000") ** 2n]],
+      ];
+
+      for (let i = 0; i < shapes.length; i++) {
+        const [curveType, params] = shapes[i];
+        await factory.createMarketWithCurve(
+          [agent1.address, agent2.address, agent3.address],
+          [40, 35, 25],
+          "Shape Token",
+          "SHP",
+          "Curve shape",
+          curveType,
+          params,
+          ethers.parseEther("10")
+        );
+
+        const priceBefore = await factory.getCurrentPrice(i);
+        await factory.connect(buyer1).buy(i, 0, { value: ethers.parseEther("1") });
+        expect(await factory.getCurrentPrice(i)).to.be.gt(priceBefore);
+      }
+    });
+
+    it("Should reject invalid curve params", async function () {
+      const { factory, agent1, agent2, agent3 } = await loadFixture(deployFactoryFixture);
+      const agents = [agent1.address, agent2.address, agent3.address];
+
+      await expect(
+        factory.createMarketWithCurve(agents, [40, 35, 25], "Bad", "BAD", "Thesis", CurveType.Exponential, [
+          ethers.parseEther("0.0001"),
+        ], ethers.parseEther("10"))
+      ).to.be.revertedWith("Invalid curve params");
+
+      await expect(
+        factory.createMarketWithCurve(agents, [40, 35, 25], "Bad", "BAD", "Thesis", CurveType.Sigmoid, [
+          ethers.parseEther("0.0001"),
+          ethers.parseEther("300000"),
+          0,
+        ], ethers.parseEther("10"))
+      ).to.be.revertedWith("Invalid curve params");
+    });
+
+    it("Should let the owner replace a curve implementation for new markets only", async function () {
+      const { factory, marketId, owner, buyer1, agent1, agent2, agent3 } =
+        await loadFixture(deployWithMarketFixture);
+      const original = await factory.curveImplementations(CurveType.Linear);
+      const replacement = await (await ethers.getContractFactory("LinearCurve")).deploy();
+
+      await expect(factory.connect(buyer1).setCurveImplementation(CurveType.Linear, replacement.target))
+        .to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+      await expect(factory.connect(owner).setCurveImplementation(CurveType.Linear, ethers.ZeroAddress))
+        .to.be.revertedWith("Zero address");
+
+      await expect(factory.connect(owner).setCurveImplementation(CurveType.Linear, replacement.target))
+        .to.emit(factory, "CurveImplementationUpdated")
+        .withArgs(CurveType.Linear, replacement.target);
+
+      await factory.createMarket([agent1.address, agent2.address, agent3.address], [40, 35, 25], "New", "NEW", "Thesis");
+
+      expect((await factory.getMarketCurve(marketId)).curve).to.equal(original);
+      expect((await factory.getMarketCurve(1)).curve).to.equal(replacement.target);
+    });
+  });
+
+  describe("Parameter Bounds", function () {
+    const [Linear, Exponential, ConstantProduct, Sigmoid] = [0, 1, 2, 3];
+    const agentsOf = (...signers: SignerWithAddress[]) => signers.map((s) => s.address);
+
+    it("Should expose default bounds through getParameterBounds", async function () {
+      const { factory } = await loadFixture(deployFactoryFixture);
+
+      const bounds = await factory.getParameterBounds(Linear);
+      expect(bounds.minRaise).to.equal(ethers.parseEther("1"));
+      expect(bounds.maxRaise).to.equal(ethers.parseEther("100"));
+      expect(bounds.minParams).to.deep.equal([ethers.parseEther("0.00001"), 0n]);
+      expect(bounds.maxParams).to.deep.equal([ethers.parseEther("0.001"), ethers.parseEther("0.0000001")]);
+    });
+
+    it("Should create a market with its own target raise and slope", async function () {
+      const { factory, agent1, agent2, agent3 } = await loadFixture(deployFactoryFixture);
+      const params = [ethers.parseEther("0.0002"), ethers.parseEther("0.00000001")];
+
+      await factory.createMarketWithCurve(
+        agentsOf(agent1, agent2, agent3),
+        [40, 35, 25],
+        "Custom",
+        "CST",
+        "Thesis",
+        Linear,
+        params,
+        ethers.parseEther("25")
+      );
+
+      expect((await factory.getMarket(0)).targetRaise).to.equal(ethers.parseEther("25"));
+      expect((await factory.getMarketCurve(0)).params).to.deep.equal(params);
+      expect(await factory.getCurrentPrice(0)).to.equal(ethers.parseEther("0.0002"));
+    });
+
+    it("Should reject a target raise outside the bounds", async function () {
+      const { factory, agent1, agent2, agent3 } = await loadFixture(deployFactoryFixture);
+      const params = [await factory.defaultBasePrice(), await factory.defaultSlope()];
+
+      for (const targetRaise of [ethers.parseEther("0.5"), ethers.parseEther("101")]) {
+        await expect(
+          factory.createMarketWithCurve(agentsOf(agent1, agent2, agent3), [40, 35, 25], "Bad", "BAD", "Thesis", Linear, params, targetRaise)
+        ).to.be.revertedWith("Target raise out of bounds");
+      }
+    });
+
+    it("Should reject curve params outside the bounds", async function () {
+      const { factory, agent1, agent2, agent3 } = await loadFixture(deployFactoryFixture);
+      const agents = agentsOf(agent1, agent2, agent3);
+      const tenEth = ethers.parseEther("10");
+
+      await expect(
+        factory.createMarketWithCurve(agents, [40, 35, 25], "Bad", "BAD", "Thesis", Linear, [ethers.parseEther("0.0001"), ethers.parseEther("0.000001")], tenEth)
+      ).to.be.revertedWith("Curve param out of bounds");
+
+      await expect(
+        factory.createMarketWithCurve(agents, [40, 35, 25], "Bad", "BAD", "Thesis", Linear, [1n, 0n], tenEth)
+      ).to.be.revertedWith("Curve param out of bounds");
+    });
+
+    it("Should reject a target raise the curve allocation cannot reach", async function () {
+      const { factory, agent1, agent2, agent3 } = await loadFixture(deployFactoryFixture);
+      const flat = [ethers.parseEther("0.00001"), 0n];
+
+      // 600k tokens at 0.00001 ETH raise 6 ETH at most
+      await expect(
+        factory.createMarketWithCurve(agentsOf(agent1, agent2, agent3), [40, 35, 25], "Stuck", "STK", "Thesis", Linear, flat, ethers.parseEther("100"))
+      ).to.be.revertedWith("Target raise unreachable");
+      await factory.createMarketWithCurve(agentsOf(agent1, agent2, agent3), [40, 35, 25], "Flat", "FLT", "Thesis", Linear, flat, ethers.parseEther("6"));
+      expect(await factory.marketCount()).to.equal(1);
+    });
+
+    it("Should bound the params of every curve type by default", async function () {
+      const { factory, agent1, agent2, agent3 } = await loadFixture(deployFactoryFixture);
+
+      for (const curveType of [Exponential, ConstantProduct, Sigmoid]) {
+        expect((await factory.getParameterBounds(curveType)).minParams).to.not.be.empty;
+      }
+
+      // Steep enough to overflow expWad partway along the curve
+      await expect(
+        factory.createMarketWithCurve(agentsOf(agent1, agent2, agent3), [40, 35, 25], "Steep", "STP", "Thesis", Exponential, [ethers.parseEther("0.0001"), 10n ** 15n], ethers.parseEther("10"))
+      ).to.be.revertedWith("Curve param out of bounds");
+    });
+
+    it("Should keep createMarket on the owner defaults", async function () {
+      const { factory, owner, agent1, agent2, agent3 } = await loadFixture(deployFactoryFixture);
+
+      // Defaults are owner-set and are not subject to the quorum bounds
+      await factory.connect(owner).setDefaultParameters(ethers.parseEther("0.0001"), 0, ethers.parseEther("500"));
+      await factory.createMarket(agentsOf(agent1, agent2, agent3), [40, 35, 25], "Default", "DEF", "Thesis");
+
+      expect((await factory.getMarket(0)).targetRaise).to.equal(ethers.parseEther("500"));
+    });
+
+    it("Should allow owner to update bounds", async function () {
+      const { factory, owner } = await loadFixture(deployFactoryFixture);
+      const mins = [ethers.parseEther("0.0001"), 1n];
+      const maxs = [ethers.parseEther("0.0002"), 2n];
+
+      await expect(factory.connect(owner).setTargetRaiseBounds(ethers.parseEther("5"), ethers.parseEther("50")))
+        .to.emit(factory, "TargetRaiseBoundsUpdated")
+        .withArgs(ethers.parseEther("5"), ethers.parseEther("50"));
+      await expect(factory.connect(owner).setCurveParamBounds(Linear, mins, maxs))
+        .to.emit(factory, "CurveParamBoundsUpdated")
+        .withArgs(Linear, mins, maxs);
+
+      const bounds = await factory.getParameterBounds(Linear);
+      expect(bounds.minRaise).to.equal(ethers.parseEther("5"));
+      expect(bounds.maxRaise).to.equal(ethers.parseEther("50"));
+      expect(bounds.minParams).to.deep.equal(mins);
+      expect(bounds.maxParams).to.deep.equal(maxs);
+    });
+
+    it("Should reject invalid or unauthorized bound updates", async function () {
+      const { factory, owner, buyer1 } = await loadFixture(deployFactoryFixture);
+
+      await expect(factory.connect(owner).setTargetRaiseBounds(0, ethers.parseEther("50")))
+        .to.be.revertedWith("Invalid bounds");
+      await expect(factory.connect(owner).setTargetRaiseBounds(ethers.parseEther("50"), ethers.parseEther("5")))
+        .to.be.revertedWith("Invalid bounds");
+      await expect(factory.connect(owner).setCurveParamBounds(Linear, [1n], [1n, 2n]))
+        .to.be.revertedWith("Bounds mismatch");
+      await expect(factory.connect(owner).setCurveParamBounds(Linear, [2n, 0n], [1n, 0n]))
+        .to.be.revertedWith("Invalid bounds");
+      await expect(factory.connect(buyer1).setTargetRaiseBounds(1n, 2n))
+        .to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+      await expect(factory.connect(buyer1).setCurveParamBounds(Linear, [], []))
+        .to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+    });
+  });
+
   describe("Graduation", function () {
     it("Should graduate when target is reached", async function () {
       const { factory, marketId, buyer1 } = await loadFixture(deployWithMarketFixture);
@@ -309,6 +787,87 @@ describe("BondingCurveFactory", function () {
       expect(market.graduated).to.be.true;
     });
 
+    it("Should partially fill the graduating buy and refund the rest", async function () {
+      const { factory, token, treasury, marketId, buyer1, buyer2 } = await loadFixture(deployWithMarketFixture);
+
+      await factory.connect(buyer1).buy(marketId, 0, { value: ethers.parseEther("9") });
+      const market = await factory.getMarket(marketId);
+      const remaining = market.targetRaise - market.currentRaised;
+      const fee = (remaining * 50n) / 9950n;
+      const expectedTokens = await factory.calculatePurchaseReturn(marketId, remaining);
+
+      const treasuryBefore = await ethers.provider.getBalance(treasury.address);
+      const tx = factory.connect(buyer2).buy(marketId, 0, { value: ethers.parseEther("5") });
+
+      await expect(tx).to.changeEtherBalance(buyer2, -(remaining + fee));
+      await expect(tx)
+        .to.emit(factory, "TokensPurchased")
+        .withArgs(marketId, buyer2.address, remaining + fee, expectedTokens, await factory.getCurrentPrice(marketId));
+
+      const after = await factory.getMarket(marketId);
+      expect(after.graduated).to.be.true;
+      expect(after.currentRaised).to.equal(after.targetRaise);
+      expect(await token.balanceOf(buyer2.address)).to.equal(expectedTokens);
+      expect(await ethers.provider.getBalance(treasury.address)).to.equal(treasuryBefore + fee);
+    });
+
+    it("Should cap an exact-token buy at the remaining raise", async function () {
+      const { factory, token, marketId, buyer1, buyer2 } = await loadFixture(deployWithMarketFixture);
+
+      await factory.connect(buyer1).buy(marketId, 0, { value: ethers.parseEther("9") });
+      const market = await factory.getMarket(marketId);
+      const remaining = market.targetRaise - market.currentRaised;
+      const expectedTokens = await factory.calculatePurchaseReturn(marketId, remaining);
+
+      const value = ethers.parseEther("5");
+      await factory.connect(buyer2).buyExactTokens(marketId, ethers.parseEther("100000"), value, { value });
+
+      expect(await token.balanceOf(buyer2.address)).to.equal(expectedTokens);
+      expect((await factory.getMarket(marketId)).currentRaised).to.equal(market.targetRaise);
+    });
+
+    describe("Dust Remaining Raise", function () {
+      // Buy until the market sits `dust` wei below its target
+      async function parkAtDust(dust: bigint) {
+        const fixture = await loadFixture(deployWithMarketFixture);
+        const { factory, marketId, buyer1 } = fixture;
+
+        const market = await factory.getMarket(marketId);
+        const netAmount = market.targetRaise - market.currentRaised - dust;
+        let value = (netAmount * 10000n) / 9950n;
+        while (value - (value * 50n) / 10000n < netAmount) value++;
+        await factory.connect(buyer1).buy(marketId, 0, { value });
+
+        const parked = await factory.getMarket(marketId);
+        expect(parked.targetRaise - parked.currentRaised).to.equal(dust);
+        return fixture;
+      }
+
+      it("Should graduate and refund a buy once the remaining raise is below the minimum purchase", async function () {
+        const { factory, token, marketId, buyer2 } = await parkAtDust(1000n);
+
+        const tx = factory.connect(buyer2).buy(marketId, 0, { value: ethers.parseEther("1") });
+        await expect(tx).to.emit(factory, "MarketGraduated");
+        await expect(tx).to.not.emit(factory, "TokensPurchased");
+        await expect(tx).to.changeEtherBalance(buyer2, 0);
+
+        expect((await factory.getMarket(marketId)).graduated).to.be.true;
+        expect(await token.balanceOf(buyer2.address)).to.equal(0);
+      });
+
+      it("Should graduate and refund an exact buy once the remaining raise is below the minimum purchase", async function () {
+        const { factory, token, marketId, buyer2 } = await parkAtDust(1000n);
+
+        const value = ethers.parseEther("1");
+        const tx = factory.connect(buyer2).buyExactTokens(marketId, ethers.parseEther("1000"), value, { value });
+        await expect(tx).to.emit(factory, "MarketGraduated");
+        await expect(tx).to.changeEtherBalance(buyer2, 0);
+
+        expect((await factory.getMarket(marketId)).graduated).to.be.true;
+        expect(await token.balanceOf(buyer2.address)).to.equal(0);
+      });
+    });
+
     it("Should reject buying after graduation", async function () {
       const { factory, marketId, buyer1, buyer2 } =
         await loadFixture(deployWithMarketFixture);
@@ -670,6 +1229,29 @@ describe("BondingCurveFactory", function () {
       await expect(factory.connect(owner).forceGraduate(marketId)).to.be.revertedWith("Already graduated");
     });
 
+    it("Should reject force graduation below the minimum graduation raise", async function () {
+      const { factory, owner, marketId, buyer1 } = await loadFixture(deployWithMarketFixture);
+      await factory.connect(owner).setGovernance(owner.address);
+
+      await factory.connect(buyer1).buy(marketId, 0, { value: ethers.parseEther("1.0") });
+
+      await expect(factory.connect(owner).setMinGraduationRaise(ethers.parseEther("2")))
+        .to.emit(factory, "MinGraduationRaiseUpdated")
+        .withArgs(ethers.parseEther("2"));
+      await expect(factory.connect(owner).forceGraduate(marketId)).to.be.revertedWith("Below graduation floor");
+
+      await factory.connect(owner).setMinGraduationRaise(ethers.parseEther("0.5"));
+      await expect(factory.connect(owner).forceGraduate(marketId)).to.emit(factory, "MarketGraduated");
+    });
+
+    it("Should reject setMinGraduationRaise from non-owner", async function () {
+      const { factory, buyer1 } = await loadFixture(deployFactoryFixture);
+
+      await expect(
+        factory.connect(buyer1).setMinGraduationRaise(0)
+      ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+    });
+
     it("Should emit events on pause/unpause", async function () {
       const { factory, owner, marketId } = await loadFixture(deployWithMarketFixture);
 
@@ -683,6 +1265,149 @@ describe("BondingCurveFactory", function () {
     });
   });
 
+  describe("Per-Market Fees", function () {
+    it("Should charge protocolFeeBps until governance sets a market fee", async function () {
+      const { factory, owner, marketId } = await loadFixture(deployWithMarketFixture);
+
+      expect(await factory.getMarketFeeBps(marketId)).to.equal(50);
+      expect(await factory.hasMarketFee(marketId)).to.be.false;
+
+      await factory.connect(owner).setProtocolFeeBps(75);
+      expect(await factory.getMarketFeeBps(marketId)).to.equal(75);
+    });
+
+    it("Should let only governance set a market fee", async function () {
+      const { factory, owner, agent1, buyer1, marketId } = await loadFixture(deployWithMarketFixture);
+      await factory.connect(owner).setGovernance(agent1.address);
+
+      await expect(factory.connect(agent1).setMarketFeeBps(marketId, 200))
+        .to.emit(factory, "MarketFeeUpdated")
+        .withArgs(marketId, 200);
+      expect(await factory.getMarketFeeBps(marketId)).to.equal(200);
+
+      // Later global changes no longer affect the market
+      await factory.connect(owner).setProtocolFeeBps(10);
+      expect(await factory.getMarketFeeBps(marketId)).to.equal(200);
+
+      await expect(
+        factory.connect(buyer1).setMarketFeeBps(marketId, 100)
+      ).to.be.revertedWith("Only governance");
+      await expect(
+        factory.connect(owner).setMarketFeeBps(marketId, 100)
+      ).to.be.revertedWith("Only governance");
+    });
+
+    it("Should reject market fees outside the owner-set bounds", async function () {
+      const { factory, owner, agent1, marketId } = await loadFixture(deployWithMarketFixture);
+      await factory.connect(owner).setGovernance(agent1.address);
+
+      await expect(factory.connect(owner).setMarketFeeBounds(20, 300))
+        .to.emit(factory, "MarketFeeBoundsUpdated")
+        .withArgs(20, 300);
+
+      await expect(factory.connect(agent1).setMarketFeeBps(marketId, 10)).to.be.revertedWith("Fee out of bounds");
+      await expect(factory.connect(agent1).setMarketFeeBps(marketId, 301)).to.be.revertedWith("Fee out of bounds");
+      await expect(factory.connect(agent1).setMarketFeeBps(5, 100)).to.be.revertedWith("Market does not exist");
+    });
+
+    it("Should validate fee bounds", async function () {
+      const { factory, owner, buyer1 } = await loadFixture(deployFactoryFixture);
+
+      await expect(factory.connect(owner).setMarketFeeBounds(0, 501)).to.be.revertedWith("Fee too high");
+      await expect(factory.connect(owner).setMarketFeeBounds(200, 100)).to.be.revertedWith("Invalid bounds");
+      await expect(
+        factory.connect(buyer1).setMarketFeeBounds(0, 100)
+      ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should charge the market fee on buys, exact buys and sells", async function () {
+      const { factory, token, owner, treasury, agent1, buyer1, marketId } =
+        await loadFixture(deployWithMarketFixture);
+      await factory.connect(owner).setGovernance(agent1.address);
+      await factory.connect(agent1).setMarketFeeBps(marketId, 300);
+
+      const ethIn = ethers.parseEther("1");
+      let before = await ethers.provider.getBalance(treasury.address);
+      await factory.connect(buyer1).buy(marketId, 0, { value: ethIn });
+      expect(await ethers.provider.getBalance(treasury.address) - before).to.equal((ethIn * 300n) / 10000n);
+
+      const tokensOut = ethers.parseEther("1000");
+      const cost = await factory.calculateCostForTokens(marketId, tokensOut);
+      before = await ethers.provider.getBalance(treasury.address);
+      await factory.connect(buyer1).buyExactTokens(marketId, tokensOut, ethers.MaxUint256, { value: ethIn });
+      expect(await ethers.provider.getBalance(treasury.address) - before).to.equal((cost * 300n) / 10000n);
+
+      const gross = await factory.calculateSaleReturn(marketId, tokensOut);
+      await token.connect(buyer1).approve(factory.target, tokensOut);
+      before = await ethers.provider.getBalance(treasury.address);
+      await factory.connect(buyer1).sell(marketId, tokensOut, 0);
+      expect(await ethers.provider.getBalance(treasury.address) - before).to.equal((gross * 300n) / 10000n);
+    });
+  });
+
+  describe("Agent Weight Sync", function () {
+    it("Should let only governance update stored agent weights", async function () {
+      const { factory, owner, agent1, agent3, marketId } = await loadFixture(deployWithMarketFixture);
+      await factory.connect(owner).setGovernance(agent1.address);
+
+      await expect(factory.connect(agent1).setAgentWeights(marketId, [agent3.address, agent1.address], [45, 20]))
+        .to.emit(factory, "AgentWeightsUpdated")
+        .withArgs(marketId, [agent3.address, agent1.address], [45, 20]);
+      expect((await factory.getMarket(marketId)).agentWeights).to.deep.equal([20n, 35n, 45n]);
+
+      await expect(
+        factory.connect(owner).setAgentWeights(marketId, [agent1.address], [10])
+      ).to.be.revertedWith("Only governance");
+    });
+
+    it("Should reject agents outside the market and unknown markets", async function () {
+      const { factory, owner, agent1, agent4, marketId } = await loadFixture(deployWithMarketFixture);
+      await factory.connect(owner).setGovernance(agent1.address);
+
+      await expect(
+        factory.connect(agent1).setAgentWeights(marketId, [agent4.address], [10])
+      ).to.be.revertedWith("Agent not in market");
+      await expect(
+        factory.connect(agent1).setAgentWeights(marketId, [agent1.address], [10, 20])
+      ).to.be.revertedWith("Weights mismatch");
+      await expect(
+        factory.connect(agent1).setAgentWeights(5, [agent1.address], [10])
+      ).to.be.revertedWith("Market does not exist");
+    });
+  });
+
+  describe("Quorum Membership", function () {
+    it("Should add, reweight and remove quorum agents through governance", async function () {
+      const { factory, owner, agent1, agent2, agent3, agent4, marketId } = await loadFixture(deployWithMarketFixture);
+      await factory.connect(owner).setGovernance(agent1.address);
+
+      await expect(factory.connect(agent1).setQuorumMember(marketId, agent4.address, true, 10))
+        .to.emit(factory, "QuorumMemberUpdated")
+        .withArgs(marketId, agent4.address, true, 10);
+      await factory.connect(agent1).setQuorumMember(marketId, agent4.address, true, 15);
+      await factory.connect(agent1).setQuorumMember(marketId, agent2.address, false, 99);
+
+      const [agents, weights] = await factory.getQuorum(marketId);
+      expect(agents).to.deep.equal([agent1.address, agent4.address, agent3.address]);
+      expect(weights).to.deep.equal([40n, 15n, 25n]);
+    });
+
+    it("Should reject callers other than governance and unknown agents", async function () {
+      const { factory, owner, agent1, agent4, marketId } = await loadFixture(deployWithMarketFixture);
+      await factory.connect(owner).setGovernance(agent1.address);
+
+      await expect(
+        factory.connect(owner).setQuorumMember(marketId, agent4.address, true, 10)
+      ).to.be.revertedWith("Only governance");
+      await expect(
+        factory.connect(agent1).setQuorumMember(marketId, agent4.address, false, 0)
+      ).to.be.revertedWith("Agent not in market");
+      await expect(
+        factory.connect(agent1).setQuorumMember(5, agent4.address, true, 10)
+      ).to.be.revertedWith("Market does not exist");
+    });
+  });
+
   describe("Uniswap Router Configuration", function () {
     it("Should allow owner to set Uniswap router", async function () {
       const { factory, owner, agent1 } = await loadFixture(deployFactoryFixture);
@@ -0,0 +1,177 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { aggregateCandles, IndexerDatabase, parseInterval, PricedTrade, ProtocolIndexer, toPricedTrades } from "../src/indexer";
+
+/**
+ * OHLCV Candle Aggregation Tests
+ */
+describe("Candles", function () {
+  const HOUR = 3600;
+  const trade = (timestamp: number, price: bigint, ethAmount = 1n, tokenAmount = 10n): PricedTrade => ({
+    timestamp,
+    price,
+    ethAmount,
+    tokenAmount,
+  });
+
+  describe("parseInterval", function () {
+    it("Should parse supported units", async function () {
+      expect(parseInterval("30s")).to.equal(30);
+      expect(parseInterval("15m")).to.equal(900);
+      expect(parseInterval("1h")).to.equal(HOUR);
+      expect(parseInterval("1d")).to.equal(86400);
+      expect(parseInterval("1w")).to.equal(604800);
+    });
+
+    it("Should reject invalid intervals", async function () {
+      for (const interval of ["0h", "1y", "h", "-1m", "1.5h"]) {
+        expect(() => parseInterval(interval), interval).to.throw(RangeError);
+      }
+    });
+  });
+
+  describe("aggregateCandles", function () {
+    it("Should compute OHLC and ETH/token volume per bucket", async function () {
+      const candles = aggregateCandles(
+        [
+          trade(HOUR * 10 + 5, 100n, 1n, 10n),
+          trade(HOUR * 10 + 50, 140n, 2n, 20n),
+          trade(HOUR * 10 + 900, 90n, 3n, 30n),
+          trade(HOUR * 11 + 1, 120n, 4n, 40n),
+        ],
+        HOUR
+      );
+
+      expect(candles).to.deep.equal([
+        { time: HOUR * 10, open: 100n, high: 140n, low: 90n, close: 90n, volumeEth: 6n, volumeTokens: 60n, trades: 3 },
+        // Opens at the previous close since prices are post-trade
+        { time: HOUR * 11, open: 90n, high: 120n, low: 90n, close: 120n, volumeEth: 4n, volumeTokens: 40n, trades: 1 },
+      ]);
+    });
+
+    it("Should leave gaps unless fillGaps is set", async function () {
+      const trades = [trade(0, 100n), trade(HOUR * 3, 200n)];
+
+      expect(aggregateCandles(trades, HOUR).map((c) => c.time)).to.deep.equal([0, HOUR * 3]);
+
+      const filled = aggregateCandles(trades, HOUR, { fillGaps: true });
+      expect(filled.map((c) => c.time)).to.deep.equal([0, HOUR, HOUR * 2, HOUR * 3]);
+      expect(filled[1]).to.deep.include({ open: 100n, close: 100n, volumeEth: 0n, trades: 0 });
+    });
+
+    it("Should extend flat candles up to `to` and drop buckets before `from`", async function () {
+      const candles = aggregateCandles([trade(0, 100n), trade(HOUR, 150n)], HOUR, {
+        fillGaps: true,
+        from: HOUR,
+        to: HOUR * 3 + 10,
+      });
+
+      expect(candles.map((c) => c.time)).to.deep.equal([HOUR, HOUR * 2, HOUR * 3]);
+      expect(candles[2]).to.deep.include({ close: 150n, trades: 0 });
+    });
+
+    it("Should not fill past graduatedAt", async function () {
+      const candles = aggregateCandles([trade(0, 100n), trade(HOUR + 5, 150n)], HOUR, {
+        fillGaps: true,
+        to: HOUR * 5,
+        graduatedAt: HOUR + 5,
+      });
+
+      expect(candles.map((c) => c.time)).to.deep.equal([0, HOUR]);
+    });
+
+    it("Should only count candles from `from` against maxCandles", async function () {
+      const candles = aggregateCandles([trade(0, 100n), trade(HOUR * 100, 200n)], HOUR, {
+        fillGaps: true,
+        from: HOUR * 90,
+        maxCandles: 50,
+      });
+
+      expect(candles).to.have.lengthOf(11);
+      expect(candles[0]).to.deep.include({ time: HOUR * 90, open: 100n, close: 100n });
+    });
+
+    it("Should skip straight to `from` when filling gaps", async function () {
+      const far = HOUR * 10 ** 9;
+      const candles = aggregateCandles([trade(0, 100n), trade(far + HOUR * 2, 200n)], 1, {
+        fillGaps: true,
+        from: far,
+        to: far + HOUR * 2,
+        maxCandles: HOUR * 3,
+      });
+
+      expect(candles).to.have.lengthOf(HOUR * 2 + 1);
+      expect(candles[0]).to.deep.include({ time: far, open: 100n, close: 100n });
+      expect(candles[candles.length - 1]).to.deep.include({ time: far + HOUR * 2, close: 200n });
+    });
+
+    it("Should reject `from` after `to`", async function () {
+      expect(() => aggregateCandles([trade(0, 1n)], HOUR, { from: HOUR * 2, to: HOUR })).to.throw(RangeError, "after");
+    });
+
+    it("Should cap a trailing fill to a far-off `to`", async function () {
+      expect(() =>
+        aggregateCandles([trade(0, 1n)], 1, { fillGaps: true, to: HOUR * 10 ** 9, maxCandles: 50 })
+      ).to.throw(RangeError);
+    });
+
+    it("Should reject unordered trades and runaway candle counts", async function () {
+      expect(() => aggregateCandles([trade(HOUR * 2, 1n), trade(0, 1n)], HOUR)).to.throw("oldest first");
+      expect(() =>
+        aggregateCandles([trade(0, 1n), trade(HOUR * 100, 1n)], HOUR, { fillGaps: true, maxCandles: 50 })
+      ).to.throw(RangeError);
+    });
+  });
+
+  describe("Indexed markets", function () {
+    async function deployGraduatingMarketFixture() {
+      const [owner, treasury, agent1, agent2, agent3, buyer1] = await ethers.getSigners();
+
+      const Factory = await ethers.getContractFactory("BondingCurveFactory");
+      const factory = await Factory.deploy(treasury.address, ethers.ZeroAddress);
+      await factory.setDefaultParameters(ethers.parseEther("0.0001"), ethers.parseEther("0.000000002"), ethers.parseEther("2"));
+      await factory.createMarket([agent1.address, agent2.address, agent3.address], [40, 35, 25], "Chart", "CHT", "Thesis");
+
+      const token = await ethers.getContractAt("MarketToken", (await factory.getMarket(0)).tokenAddress);
+      await token.connect(buyer1).approve(factory.target, ethers.MaxUint256);
+
+      const addresses = { factory: factory.target as string, governance: owner.address };
+      return { factory, token, addresses, buyer1 };
+    }
+
+    it("Should chart curve trades up to graduation and stop there", async function () {
+      const { factory, token, addresses, buyer1 } = await loadFixture(deployGraduatingMarketFixture);
+
+      await factory.connect(buyer1).buy(0, 0, { value: ethers.parseEther("1") });
+      await time.increase(HOUR);
+      await factory.connect(buyer1).sell(0, (await token.balanceOf(buyer1.address)) / 4n, 0);
+      const priceAfterSell = await factory.getCurrentPrice(0);
+      await time.increase(HOUR);
+      await factory.connect(buyer1).buy(0, 0, { value: ethers.parseEther("1.5") }); // Crosses the 2 ETH target
+      expect((await factory.getMarket(0)).graduated).to.be.true;
+
+      const db = new IndexerDatabase(":memory:");
+      await new ProtocolIndexer(ethers.provider, addresses, db).sync();
+
+      const rows = db.getTrades({ marketId: "0" }).reverse();
+      expect(rows.map((r) => r.side)).to.deep.equal(["buy", "sell", "buy"]);
+      expect(rows[1].price).to.equal(priceAfterSell.toString());
+
+      await time.increase(HOUR * 3);
+      const [graduation] = db.getEvents({ name: "MarketGraduated", marketId: "0" });
+      expect(graduation.timestamp).to.equal(rows[2].timestamp);
+
+      const candles = aggregateCandles(toPricedTrades(rows), HOUR, {
+        fillGaps: true,
+        to: await time.latest(),
+        graduatedAt: graduation.timestamp,
+      });
+
+      // The DEX price after graduation isn't indexed, so the chart ends at the graduating trade
+      const last = candles[candles.length - 1];
+      expect(last.time).to.equal(rows[2].timestamp - (rows[2].timestamp % HOUR));
+      expect(last.close).to.equal(await factory.getCurrentPrice(0));
+    });
+  });
+});
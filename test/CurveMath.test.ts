@@ -0,0 +1,338 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { curveMath, curves, CurveState, CurveType } from "../src/sdk";
+import { expWad, lnWad, MAX_EXPONENT, WAD } from "../src/sdk/curves/math";
+
+/**
+ * Off-chain Curve Math Differential Tests
+ *
+ * Fuzzes src/sdk/curveMath against BondingCurveFactory on the Hardhat
+ * network. Every quote must match the contract wei-for-wei, across every
+ * curve shape and several linear parameter sets including the slope == 0
+ * branch. Where the contract reverts, the off-chain math must throw.
+ *
+ * The PRNG is seeded so failures are reproducible.
+ */
+describe("CurveMath (differential)", function () {
+  const ITERATIONS = 40;
+  const MIN_PURCHASE = ethers.parseEther("0.001");
+  const CURVE_SUPPLY = ethers.parseEther("600000");
+
+  const PARAMETER_SETS: { label: string; curveType: CurveType; params: bigint[] }[] = [
+    { label: "default", curveType: CurveType.Linear, params: [ethers.parseEther("0.0001"), ethers.parseEther("0.000000002")] },
+    { label: "flat (slope 0)", curveType: CurveType.Linear, params: [ethers.parseEther("0.0001"), 0n] },
+    { label: "steep", curveType: CurveType.Linear, params: [ethers.parseEther("0.0001"), ethers.parseEther("0.000001")] },
+    { label: "tiny base price", curveType: CurveType.Linear, params: [1_000_000_000n, ethers.parseEther("0.000000002")] },
+    { label: "odd values", curveType: CurveType.Linear, params: [123_456_789_012_345n, 987_654_321n] },
+    // ~100x price increase across the 600k curve supply
+    { label: "exponential", curveType: CurveType.Exponential, params: [ethers.parseEther("0.0001"), 7_675_000_000_000n] },
+    { label: "constant product", curveType: CurveType.ConstantProduct, params: [ethers.parseEther("100"), ethers.parseEther("1073000")] },
+    {
+      label: "sigmoid",
+      curveType: CurveType.Sigmoid,
+      params: [ethers.parseEther("0.0001"), ethers.parseEther("300000"), ethers.parseEther("100000") ** 2n],
+    },
+  ];
+
+  // 64-bit LCG, good enough for reproducible fuzzing
+  function createRng(seed: bigint) {
+    let state = seed;
+    const next64 = () => {
+      state = (state * 6364136223846793005n + 1442695040888963407n) & (2n ** 64n - 1n);
+      return state;
+    };
+    return {
+      below(max: bigint): bigint {
+        return ((next64() << 64n) | next64()) % max;
+      },
+      between(min: bigint, max: bigint): bigint {
+        return min + ((next64() << 64n) | next64()) % (max - min + 1n);
+      },
+    };
+  }
+
+  async function deployFixture() {
+    const [owner, treasury, agent1, agent2, agent3, trader] = await ethers.getSigners();
+
+    const Factory = await ethers.getContractFactory("BondingCurveFactory");
+    const factory = await Factory.deploy(treasury.address, ethers.ZeroAddress);
+
+    return { factory, owner, treasury, agent1, agent2, agent3, trader };
+  }
+
+  async function createMarket(curveType: CurveType, params: bigint[], targetRaise?: bigint) {
+    const fixture = await loadFixture(deployFixture);
+    const { factory, agent1, agent2, agent3 } = fixture;
+
+    // Without a target, use the cost of the whole curve allocation: the
+    // largest reachable target, so fuzzed buys never trigger graduation
+    if (targetRaise === undefined) {
+      const curve = await ethers.getContractAt("IBondingCurve", await factory.curveImplementations(curveType));
+      targetRaise = await curve.getCostToBuy(0n, CURVE_SUPPLY, params);
+    }
+
+    // Fuzzed parameter sets deliberately sit outside the production bounds
+    await factory.setTargetRaiseBounds(1n, targetRaise);
+    await factory.setCurveParamBounds(curveType, [], []);
+    await factory.createMarketWithCurve(
+      [agent1.address, agent2.address, agent3.address],
+      [40, 35, 25],
+      "Fuzz Token",
+      "FUZZ",
+      "Differential testing",
+      curveType,
+      params,
+      targetRaise
+    );
+    const market = await factory.getMarket(0);
+    const token = await ethers.getContractAt("MarketToken", market.tokenAddress);
+
+    return { ...fixture, token, marketId: 0 };
+  }
+
+  // The off-chain result must equal the view, or throw where the view reverts
+  async function expectSameResult(label: string, local: () => bigint, remote: Promise<bigint>) {
+    let expected: bigint | undefined;
+    try {
+      expected = local();
+    } catch {
+      expected = undefined;
+    }
+
+    if (expected === undefined) {
+      await expect(remote, label).to.be.reverted;
+    } else {
+      expect(expected, label).to.equal(await remote);
+    }
+  }
+
+  describe("sqrt", function () {
+    it("Should match known integer square roots", async function () {
+      expect(curveMath.sqrt(0n)).to.equal(0n);
+      expect(curveMath.sqrt(1n)).to.equal(1n);
+      expect(curveMath.sqrt(2n)).to.equal(1n);
+      expect(curveMath.sqrt(3n)).to.equal(1n);
+      expect(curveMath.sqrt(4n)).to.equal(2n);
+      expect(curveMath.sqrt(10n ** 36n)).to.equal(10n ** 18n);
+      expect(curveMath.sqrt(10n ** 36n - 1n)).to.equal(10n ** 18n - 1n);
+      expect(curveMath.sqrt(2n ** 254n)).to.equal(2n ** 127n);
+    });
+
+    it("Should overflow on max uint256 like the Solidity (x + 1) / 2", async function () {
+      expect(() => curveMath.sqrt(curveMath.MAX_UINT256)).to.throw(RangeError, "Arithmetic overflow");
+    });
+  });
+
+  describe("expWad / lnWad", function () {
+    it("Should return exact values at the identities", async function () {
+      expect(expWad(0n)).to.equal(WAD);
+      expect(lnWad(WAD)).to.equal(0n);
+    });
+
+    it("Should stay within a small tolerance of the true value", async function () {
+      // e^1 and ln(2) to 18 decimals
+      expect(expWad(WAD)).to.be.closeTo(2_718281828459045235n, 100n);
+      expect(lnWad(2n * WAD)).to.be.closeTo(693147180559945309n, 100n);
+      expect(lnWad(expWad(5n * WAD))).to.be.closeTo(5n * WAD, 100n);
+    });
+
+    it("Should reject inputs outside the supported range", async function () {
+      expect(() => expWad(MAX_EXPONENT + 1n)).to.throw("Exponent too large");
+      expect(() => lnWad(WAD - 1n)).to.throw("Log below one");
+    });
+  });
+
+  for (const params of PARAMETER_SETS) {
+    describe(`Parameter set: ${params.label}`, function () {
+      it("Should match calculatePurchaseReturn and calculateSaleReturn for random inputs", async function () {
+        const { factory, trader, marketId } = await createMarket(params.curveType, params.params);
+        const rng = createRng(0xC0FFEEn + params.params[0] + params.params[1]);
+
+        // Move the curve off zero so sale quotes have something to sell
+        await factory.connect(trader).buy(marketId, 0, { value: ethers.parseEther("5") });
+        const m = await factory.getMarket(marketId);
+        const state: CurveState = { curveType: params.curveType, params: params.params, tokensSold: m.tokensSold };
+
+        for (let i = 0; i < ITERATIONS; i++) {
+          // Mix dust, typical and whale-sized amounts
+          const magnitude = [10n ** 3n, 10n ** 15n, 10n ** 18n, 10n ** 21n][i % 4];
+          const ethAmount = rng.between(1n, magnitude * 10n);
+          await expectSameResult(
+            `purchase ${ethAmount}`,
+            () => curveMath.calculatePurchase(state, ethAmount),
+            factory.calculatePurchaseReturn(marketId, ethAmount)
+          );
+
+          const tokenAmount = rng.below(state.tokensSold + 1n);
+          await expectSameResult(
+            `cost ${tokenAmount}`,
+            () => curveMath.calculateCost(state, tokenAmount),
+            factory.calculateCostForTokens(marketId, tokenAmount)
+          );
+          await expectSameResult(
+            `sale ${tokenAmount}`,
+            () => curveMath.calculateSale(state, tokenAmount),
+            factory.calculateSaleReturn(marketId, tokenAmount)
+          );
+        }
+
+        expect(curveMath.getCurrentPrice(state)).to.equal(await factory.getCurrentPrice(marketId));
+      });
+
+      it("Should track executed buys and sells wei-for-wei", async function () {
+        const { factory, token, trader, marketId } = await createMarket(params.curveType, params.params);
+        const rng = createRng(0xBADC0DEn + params.params[1]);
+        const feeBps = await factory.protocolFeeBps();
+
+        await token.connect(trader).approve(factory.target, ethers.MaxUint256);
+
+        let state: CurveState = { curveType: params.curveType, params: params.params, tokensSold: 0n };
+        let currentRaised = 0n;
+
+        for (let i = 0; i < ITERATIONS; i++) {
+          const balance = await token.balanceOf(trader.address);
+          const shouldSell = balance > 0n && rng.below(3n) === 0n;
+
+          if (shouldSell) {
+            const tokensIn = rng.between(1n, balance);
+            const quote = curveMath.quoteSell(state, tokensIn, feeBps);
+
+            if (quote.grossEth > currentRaised) {
+              await expect(factory.connect(trader).sell(marketId, tokensIn, 0)).to.be.revertedWith(
+                "Insufficient liquidity"
+              );
+              continue;
+            }
+
+            const nextState = curveMath.applySale(state, tokensIn);
+
+            await expect(factory.connect(trader).sell(marketId, tokensIn, quote.ethOut))
+              .to.emit(factory, "TokensSold")
+              .withArgs(marketId, trader.address, tokensIn, quote.ethOut, curveMath.getCurrentPrice(nextState));
+
+            state = nextState;
+            currentRaised -= quote.grossEth;
+          } else if (rng.below(2n) === 0n) {
+            // Size the exact buy from an ETH amount so it stays above MIN_PURCHASE
+            const tokensOut = curveMath.calculatePurchase(state, rng.between(2n * MIN_PURCHASE, ethers.parseEther("1")));
+            const quote = curveMath.quoteBuyExact(state, tokensOut, feeBps);
+            const nextState = curveMath.applyExactPurchase(state, tokensOut);
+
+            await expect(factory.connect(trader).buyExactTokens(marketId, tokensOut, quote.ethIn, { value: quote.ethIn }))
+              .to.emit(factory, "TokensPurchased")
+              .withArgs(marketId, trader.address, quote.ethIn, tokensOut, curveMath.getCurrentPrice(nextState));
+
+            state = nextState;
+            currentRaised += quote.cost;
+          } else {
+            const ethIn = rng.between(MIN_PURCHASE, ethers.parseEther("1"));
+            const quote = curveMath.quoteBuy(state, ethIn, feeBps);
+            const nextState = curveMath.applyPurchase(state, quote.netEth);
+
+            await expect(factory.connect(trader).buy(marketId, quote.tokensOut, { value: ethIn }))
+              .to.emit(factory, "TokensPurchased")
+              .withArgs(marketId, trader.address, ethIn, quote.tokensOut, curveMath.getCurrentPrice(nextState));
+
+            state = nextState;
+            currentRaised += quote.netEth;
+          }
+
+          const market = await factory.getMarket(marketId);
+          expect(market.tokensSold).to.equal(state.tokensSold);
+          expect(market.currentRaised).to.equal(currentRaised);
+        }
+      });
+    });
+  }
+
+  describe("Graduation Partial Fill", function () {
+    for (const params of PARAMETER_SETS) {
+      it(`Should quote the capped graduating buy wei-for-wei (${params.label})`, async function () {
+        const targetRaise = ethers.parseEther("3");
+        const { factory, trader, marketId } = await createMarket(params.curveType, params.params, targetRaise);
+        const feeBps = await factory.protocolFeeBps();
+
+        await factory.connect(trader).buy(marketId, 0, { value: ethers.parseEther("2") });
+        const market = await factory.getMarket(marketId);
+        const state: CurveState = { curveType: params.curveType, params: params.params, tokensSold: market.tokensSold };
+        const remaining = targetRaise - market.currentRaised;
+
+        const exact = curveMath.quoteBuyExact(state, ethers.parseEther("500000"), feeBps, remaining);
+        expect(exact.cost).to.equal(remaining);
+        expect(exact.tokensOut).to.equal(await factory.calculatePurchaseReturn(marketId, remaining));
+
+        const ethIn = ethers.parseEther("5");
+        const quote = curveMath.quoteBuy(state, ethIn, feeBps, remaining);
+        expect(quote.netEth).to.equal(remaining);
+
+        const tx = factory.connect(trader).buy(marketId, quote.tokensOut, { value: ethIn });
+        await expect(tx).to.changeEtherBalance(trader, quote.refund - ethIn);
+        await expect(tx)
+          .to.emit(factory, "TokensPurchased")
+          .withArgs(
+            marketId,
+            trader.address,
+            quote.netEth + quote.fee,
+            quote.tokensOut,
+            curveMath.getCurrentPrice(curveMath.applyPurchase(state, quote.netEth))
+          );
+        expect((await factory.getMarket(marketId)).graduated).to.be.true;
+      });
+    }
+  });
+
+  describe("Dust Remaining Raise", function () {
+    it("Should quote a full refund and no tokens once the remaining raise is dust", function () {
+      const { curveType, params } = PARAMETER_SETS[0];
+      const state: CurveState = { curveType, params, tokensSold: ethers.parseEther("100000") };
+      const remaining = MIN_PURCHASE - 1n;
+
+      const ethIn = ethers.parseEther("1");
+      expect(curveMath.quoteBuy(state, ethIn, 50n, remaining)).to.deep.equal({
+        ethIn,
+        fee: 0n,
+        netEth: 0n,
+        tokensOut: 0n,
+        refund: ethIn,
+      });
+      expect(curveMath.quoteBuyExact(state, ethers.parseEther("1000"), 50n, remaining)).to.deep.equal({
+        tokensOut: 0n,
+        cost: 0n,
+        fee: 0n,
+        ethIn: 0n,
+      });
+    });
+  });
+
+  describe("Overflow Behaviour", function () {
+    it("Should throw where the contract reverts on overflow", async function () {
+      const { curveType, params } = PARAMETER_SETS[0];
+      const { factory, marketId } = await createMarket(curveType, params);
+      const state: CurveState = { curveType, params, tokensSold: 0n };
+      const huge = 2n ** 200n;
+
+      expect(() => curveMath.calculatePurchase(state, huge)).to.throw(RangeError);
+      await expect(factory.calculatePurchaseReturn(marketId, huge)).to.be.reverted;
+    });
+
+    it("Should reject selling more than tokensSold", async function () {
+      const { curveType, params } = PARAMETER_SETS[0];
+      const { factory, marketId } = await createMarket(curveType, params);
+      const state: CurveState = { curveType, params, tokensSold: 0n };
+
+      expect(() => curveMath.calculateSale(state, 1n)).to.throw("Not enough tokens sold");
+      await expect(factory.calculateSaleReturn(marketId, 1n)).to.be.revertedWith("Not enough tokens sold");
+    });
+
+    it("Should throw where the exponential curve exceeds its exponent range", async function () {
+      const { curveType, params } = PARAMETER_SETS.find((p) => p.curveType === CurveType.Exponential)!;
+      const { factory, marketId } = await createMarket(curveType, params);
+      const curve = await ethers.getContractAt("ExponentialCurve", (await factory.getMarketCurve(marketId)).curve);
+      const tokens = ethers.parseEther("10000000");
+
+      expect(() => curves.exponentialCurve.getCostToBuy(0n, tokens, params)).to.throw("Exponent too large");
+      await expect(curve.getCostToBuy(0n, tokens, params)).to.be.revertedWith("Exponent too large");
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { GovernanceRelayer } from "../src/relayer";
+import { HeadlessMarketsClient, ProposalType, VoteType } from "../src/sdk";
+
+/**
+ * GovernanceRelayer Tests
+ *
+ * Agents sign approvals, proposals and votes through the SDK; a separate
+ * relayer account submits them in multicall batches and pays the gas.
+ */
+describe("GovernanceRelayer", function () {
+  async function deployRelayerFixture() {
+    const [owner, treasury, relayerSigner, agent1, agent2, agent3, agent4] =
+      await ethers.getSigners();
+
+    const Factory = await ethers.getContractFactory("BondingCurveFactory");
+    const factory = await Factory.deploy(treasury.address, ethers.ZeroAddress);
+
+    const Governance = await ethers.getContractFactory("QuorumGovernance");
+    const governance = await Governance.deploy(factory.target);
+    await factory.setGovernance(governance.target);
+
+    const addresses = {
+      factory: factory.target as string,
+      governance: governance.target as string,
+    };
+    const clientFor = (signer: typeof owner) =>
+      HeadlessMarketsClient.connect(signer, { addresses });
+
+    const relayer = new GovernanceRelayer(relayerSigner, addresses.governance);
+
+    return { factory, governance, relayer, clientFor, relayerSigner, agent1, agent2, agent3, agent4 };
+  }
+
+  async function deployWithMarketFixture() {
+    const fixture = await loadFixture(deployRelayerFixture);
+    const { agent1, agent2, agent3, clientFor } = fixture;
+
+    const { proposalId } = await (await clientFor(agent1)).proposeQuorum({
+      quorumAgents: [agent1.address, agent2.address, agent3.address],
+      weights: [40, 35, 25],
+      name: "Relayed Token",
+      symbol: "RLY",
+      thesis: "Gasless governance",
+    });
+    await (await clientFor(agent2)).approveQuorum(proposalId);
+    const { marketId } = await (await clientFor(agent3)).approveQuorum(proposalId);
+
+    return { ...fixture, marketId: marketId! };
+  }
+
+  it("Should relay quorum approvals without the agents spending gas", async function () {
+    const { factory, relayer, clientFor, agent1, agent2, agent3 } =
+      await loadFixture(deployRelayerFixture);
+
+    const { proposalId } = await (await clientFor(agent1)).proposeQuorum({
+      quorumAgents: [agent1.address, agent2.address, agent3.address],
+      weights: [40, 35, 25],
+      name: "Relayed Token",
+      symbol: "RLY",
+      thesis: "Gasless governance",
+    });
+
+    const balance2 = await ethers.provider.getBalance(agent2.address);
+    const balance3 = await ethers.provider.getBalance(agent3.address);
+
+    await relayer.add(await (await clientFor(agent2)).signApproveQuorum(proposalId));
+    await relayer.add(await (await clientFor(agent3)).signApproveQuorum(proposalId));
+    const [result] = await relayer.flush();
+
+    expect(result.relayed).to.have.length(2);
+    expect(result.rejected).to.be.empty;
+    expect(await factory.marketCount()).to.equal(1);
+    expect(await ethers.provider.getBalance(agent2.address)).to.equal(balance2);
+    expect(await ethers.provider.getBalance(agent3.address)).to.equal(balance3);
+  });
+
+  it("Should relay a proposal and its votes in one transaction", async function () {
+    const { governance, relayer, clientFor, agent1, agent2, agent4, marketId } =
+      await loadFixture(deployWithMarketFixture);
+
+    const client1 = await clientFor(agent1);
+    const nonce = await governance.nonces(agent1.address);
+
+    await relayer.add(
+      await client1.signPropose({
+        marketId,
+        pType: ProposalType.AddAgent,
+        target: agent4.address,
+        value: 10n,
+        description: "Add agent4",
+      })
+    );
+    await relayer.add(await client1.signVote(0, true, { nonce: nonce + 1n }));
+    await relayer.add(await (await clientFor(agent2)).signVote(0, true));
+    expect(relayer.pending).to.have.length(3);
+
+    const results = await relayer.flush();
+    expect(results).to.have.length(1);
+    expect(relayer.pending).to.be.empty;
+
+    const proposal = await governance.getProposal(0);
+    expect(proposal.proposer).to.equal(agent1.address);
+    expect(proposal.forVotes).to.equal(75);
+  });
+
+  it("Should refuse signatures not made by the claimed signer", async function () {
+    const { governance, relayer, clientFor, agent1, agent2, marketId } =
+      await loadFixture(deployWithMarketFixture);
+    await governance.connect(agent1).propose(marketId, 0, agent2.address, 0, "0x", "Proposal");
+
+    const vote = await (await clientFor(agent2)).signVote(0, true);
+    try {
+      await relayer.add({ ...vote, signer: agent1.address });
+      expect.fail("add should have thrown");
+    } catch (error: any) {
+      expect(error.message).to.equal(`Signature for vote was not made by ${agent1.address}`);
+    }
+    expect(relayer.pending).to.be.empty;
+  });
+
+  it("Should report failing actions and submit the rest", async function () {
+    const { governance, relayer, clientFor, agent1, agent2, agent3, marketId } =
+      await loadFixture(deployWithMarketFixture);
+    await governance.connect(agent1).propose(marketId, 0, agent2.address, 0, "0x", "Proposal");
+    await governance.connect(agent3).vote(0, true);
+
+    const deadline = BigInt(await time.latest()) + 60n;
+    const alreadyVoted = await (await clientFor(agent3)).signVote(0, false, { deadline: deadline + 3600n });
+    const expiring = await (await clientFor(agent2)).signVote(0, true, { deadline });
+    const valid = await (await clientFor(agent1)).signVote(0, true);
+
+    await relayer.add(alreadyVoted);
+    await relayer.add(expiring);
+    await relayer.add(valid);
+    await time.increase(120);
+
+    const [result] = await relayer.flush();
+    expect(result.receipt).to.not.be.null;
+    expect(result.relayed).to.deep.equal([valid]);
+    expect(result.rejected.map((r) => r.reason)).to.deep.equal(["Already voted", "Signature expired"]);
+    expect((await governance.getProposal(0)).forVotes).to.equal(65);
+  });
+
+  it("Should relay signed castVote abstentions with their reason", async function () {
+    const { governance, relayer, clientFor, agent1, agent2, marketId } = await loadFixture(deployWithMarketFixture);
+    await governance.connect(agent1).propose(marketId, 0, agent2.address, 0, "0x", "Proposal");
+
+    const abstain = await (await clientFor(agent2)).signCastVote(0, VoteType.Abstain, "Conflict of interest");
+    await relayer.add(abstain);
+
+    const [result] = await relayer.flush();
+    expect(result.relayed).to.deep.equal([abstain]);
+    const voteCast = result.receipt!.logs
+      .map((log) => governance.interface.parseLog(log))
+      .find((event) => event?.name === "VoteCast");
+    expect(voteCast?.args.voter).to.equal(agent2.address);
+    expect(voteCast?.args.support).to.equal(VoteType.Abstain);
+    expect(voteCast?.args.reason).to.equal("Conflict of interest");
+    expect((await governance.getProposal(0)).abstainVotes).to.equal(35);
+  });
+
+  it("Should keep a batch queued when submitting it fails", async function () {
+    const { governance, relayer, clientFor, agent1, agent2, marketId } = await loadFixture(deployWithMarketFixture);
+    await governance.connect(agent1).propose(marketId, 0, agent2.address, 0, "0x", "Proposal");
+    const vote = await (await clientFor(agent2)).signVote(0, true);
+
+    // A provider can simulate the batch but not send it
+    const readOnly = new GovernanceRelayer(ethers.provider, governance.target as string);
+    await readOnly.add(vote);
+    try {
+      await readOnly.flush();
+      expect.fail("flush should have thrown");
+    } catch (error: any) {
+      expect(error.message).to.not.equal("flush should have thrown");
+    }
+    expect(readOnly.pending).to.deep.equal([vote]);
+
+    await relayer.add(vote);
+    await relayer.flush();
+    expect(await governance.hasVoted(0, agent2.address)).to.be.true;
+  });
+
+  it("Should split large queues into batches of maxBatchSize", async function () {
+    const { governance, clientFor, relayerSigner, agent1, agent2, agent3, marketId } =
+      await loadFixture(deployWithMarketFixture);
+    for (let i = 0; i < 3; i++) {
+      await governance.connect(agent1).propose(marketId, 0, agent2.address, 0, "0x", `Proposal ${i}`);
+    }
+
+    const relayer = new GovernanceRelayer(relayerSigner, governance.target as string, { maxBatchSize: 2 });
+    const client3 = await clientFor(agent3);
+    const nonce = await governance.nonces(agent3.address);
+    for (let i = 0; i < 3; i++) {
+      await relayer.add(await client3.signVote(i, true, { nonce: nonce + BigInt(i) }));
+    }
+
+    const results = await relayer.flush();
+    expect(results.map((r) => r.relayed.length)).to.deep.equal([2, 1]);
+    for (let i = 0; i < 3; i++) {
+      expect(await governance.hasVoted(i, agent3.address)).to.be.true;
+    }
+  });
+});
@@ -0,0 +1,594 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {
+  CurveType,
+  encodeCall,
+  HeadlessMarketsClient,
+  ProposalStatus,
+  ProposalType,
+  QuorumStatus,
+  resolveAddresses,
+  VoteType,
+} from "../src/sdk";
+
+/**
+ * HeadlessMarketsClient SDK Tests
+ *
+ * Runs the SDK against fresh deployments on the Hardhat network, using
+ * explicit address overrides since deployments.json has no local entry.
+ */
+describe("HeadlessMarketsClient", function () {
+  async function deployClientFixture() {
+    const [owner, treasury, agent1, agent2, agent3, agent4, buyer1] =
+      await ethers.getSigners();
+
+    const Factory = await ethers.getContractFactory("BondingCurveFactory");
+    const factory = await Factory.deploy(treasury.address, ethers.ZeroAddress);
+
+    const Governance = await ethers.getContractFactory("QuorumGovernance");
+    const governance = await Governance.deploy(factory.target);
+    await factory.setGovernance(governance.target);
+
+    const addresses = {
+      factory: factory.target as string,
+      governance: governance.target as string,
+    };
+
+    const clientFor = (signer: typeof owner) =>
+      HeadlessMarketsClient.connect(signer, { addresses });
+
+    return { factory, governance, addresses, clientFor, owner, treasury, agent1, agent2, agent3, agent4, buyer1 };
+  }
+
+  async function deployWithMarketFixture() {
+    const fixture = await loadFixture(deployClientFixture);
+    const { agent1, agent2, agent3, clientFor } = fixture;
+
+    const client = await clientFor(agent1);
+    const { marketId } = await client.createMarket({
+      quorumAgents: [agent1.address, agent2.address, agent3.address],
+      weights: [40, 35, 25],
+      name: "SDK Token",
+      symbol: "SDK",
+      thesis: "Testing the SDK",
+    });
+
+    return { ...fixture, marketId };
+  }
+
+  async function deployWithQuorumFixture() {
+    const fixture = await loadFixture(deployClientFixture);
+    const { agent1, agent2, agent3, clientFor } = fixture;
+
+    const { proposalId } = await (await clientFor(agent1)).proposeQuorum({
+      quorumAgents: [agent1.address, agent2.address, agent3.address],
+      weights: [40, 35, 25],
+      name: "Quorum Token",
+      symbol: "QT",
+      thesis: "Governed by the SDK",
+    });
+    await (await clientFor(agent2)).approveQuorum(proposalId);
+    const { marketId } = await (await clientFor(agent3)).approveQuorum(proposalId);
+
+    return { ...fixture, marketId: marketId! };
+  }
+
+  describe("Address Resolution", function () {
+    it("Should resolve Base Sepolia addresses from deployments.json", async function () {
+      const addresses = resolveAddresses(84532);
+      expect(ethers.isAddress(addresses.factory)).to.be.true;
+      expect(ethers.isAddress(addresses.governance)).to.be.true;
+    });
+
+    it("Should throw for a chain without a deployment", async function () {
+      expect(() => resolveAddresses(1)).to.throw("No deployment found for chain 1");
+    });
+
+    it("Should throw when connecting on an unknown chain without overrides", async function () {
+      const [signer] = await ethers.getSigners();
+      try {
+        await HeadlessMarketsClient.connect(signer);
+        expect.fail("connect should have thrown");
+      } catch (error: any) {
+        expect(error.message).to.equal("No deployment found for chain 31337");
+      }
+    });
+  });
+
+  describe("Markets", function () {
+    it("Should create a market and return its ID", async function () {
+      const { factory, marketId } = await loadFixture(deployWithMarketFixture);
+
+      expect(marketId).to.equal(0n);
+      expect(await factory.marketCount()).to.equal(1);
+    });
+
+    it("Should return a named MarketView matching getMarket()", async function () {
+      const { factory, clientFor, agent1, agent2, agent3, marketId } =
+        await loadFixture(deployWithMarketFixture);
+
+      const view = await (await clientFor(agent1)).getMarket(marketId);
+      const raw = await factory.getMarket(marketId);
+
+      expect(view.marketId).to.equal(marketId);
+      expect(view.tokenAddress).to.equal(raw.tokenAddress);
+      expect(view.quorumAgents).to.deep.equal([agent1.address, agent2.address, agent3.address]);
+      expect(view.agentWeights).to.deep.equal([40n, 35n, 25n]);
+      expect(view.targetRaise).to.equal(ethers.parseEther("10"));
+      expect(view.currentRaised).to.equal(0n);
+      expect(view.graduated).to.be.false;
+      expect(view.active).to.be.true;
+      expect(view.thesis).to.equal("Testing the SDK");
+    });
+
+    it("Should quote a buy that matches the executed buy", async function () {
+      const { factory, clientFor, buyer1, marketId } = await loadFixture(deployWithMarketFixture);
+      const client = await clientFor(buyer1);
+      const ethIn = ethers.parseEther("1");
+
+      const quote = await client.quoteBuy(marketId, ethIn);
+      expect(quote.fee).to.equal((ethIn * 50n) / 10000n);
+      expect(quote.netEth).to.equal(ethIn - quote.fee);
+
+      const receipt = await client.buy(marketId, ethIn);
+      const event = receipt.logs
+        .map((log) => factory.interface.parseLog(log))
+        .find((e) => e?.name === "TokensPurchased");
+      expect(event!.args.tokenAmount).to.equal(quote.tokensOut);
+    });
+
+    it("Should quote the partial fill of a graduating buy", async function () {
+      const { factory, clientFor, buyer1, owner, marketId } = await loadFixture(deployWithMarketFixture);
+      await (await clientFor(owner)).buy(marketId, ethers.parseEther("9.9"));
+
+      const client = await clientFor(buyer1);
+      const quote = await client.quoteBuy(marketId, ethers.parseEther("3"));
+      const market = await factory.getMarket(marketId);
+      expect(quote.netEth).to.equal(market.targetRaise - market.currentRaised);
+      expect(quote.refund).to.equal(quote.ethIn - quote.netEth - quote.fee);
+      expect(quote.refund).to.be.greaterThan(ethers.parseEther("2.8"));
+
+      const receipt = await client.buy(marketId, quote.ethIn, quote.tokensOut);
+      const event = receipt.logs
+        .map((log) => factory.interface.parseLog(log))
+        .find((e) => e?.name === "TokensPurchased");
+      expect(event!.args.ethAmount).to.equal(quote.netEth + quote.fee);
+      expect(event!.args.tokenAmount).to.equal(quote.tokensOut);
+    });
+
+    it("Should derive minTokensOut from a fresh quote when omitted", async function () {
+      const { addresses, clientFor, buyer1, owner, marketId } = await loadFixture(deployWithMarketFixture);
+      const client = await HeadlessMarketsClient.connect(buyer1, { addresses, slippageBps: 0 });
+      const ethIn = ethers.parseEther("1");
+
+      // A stale quote fails once another buy moves the price, while an
+      // omitted minTokensOut re-quotes at send time
+      const quote = await client.quoteBuy(marketId, ethIn);
+      await (await clientFor(owner)).buy(marketId, ethers.parseEther("2"), 0n);
+
+      await expect(client.buy(marketId, ethIn, quote.tokensOut)).to.be.revertedWith("Slippage exceeded");
+      await expect(client.buy(marketId, ethIn)).to.not.be.reverted;
+    });
+
+    it("Should set trade deadlines from the configured TTL", async function () {
+      const { addresses, buyer1, marketId } = await loadFixture(deployWithMarketFixture);
+      const client = await HeadlessMarketsClient.connect(buyer1, { addresses, deadlineTtl: 90 });
+
+      expect(await client.getDeadline()).to.equal(BigInt(await time.latest()) + 90n);
+      await expect(client.buy(marketId, ethers.parseEther("0.1"))).to.not.be.reverted;
+
+      const expired = BigInt(await time.latest());
+      await expect(client.buy(marketId, ethers.parseEther("0.1"), 0n, expired)).to.be.revertedWith(
+        "Transaction expired"
+      );
+      await expect(client.sell(marketId, 1n, 0n, expired)).to.be.revertedWith("Transaction expired");
+      await expect(
+        client.buyExactTokens(marketId, ethers.parseEther("1000"), ethers.parseEther("1"), expired)
+      ).to.be.revertedWith("Transaction expired");
+    });
+
+    it("Should quote and buy an exact token amount", async function () {
+      const { factory, clientFor, buyer1, marketId } = await loadFixture(deployWithMarketFixture);
+      const client = await clientFor(buyer1);
+      const tokensOut = ethers.parseEther("5000");
+
+      const quote = await client.quoteBuyExact(marketId, tokensOut);
+      expect(quote.cost).to.equal(await factory.calculateCostForTokens(marketId, tokensOut));
+      expect(quote.ethIn).to.equal(quote.cost + (quote.cost * 50n) / 10000n);
+
+      // maxEthIn is sent as value; everything above the cost is refunded
+      const before = await ethers.provider.getBalance(buyer1.address);
+      const receipt = await client.buyExactTokens(marketId, tokensOut);
+      const gas = receipt.gasUsed * receipt.gasPrice;
+      expect(await ethers.provider.getBalance(buyer1.address)).to.equal(before - quote.ethIn - gas);
+      expect((await factory.getMarket(marketId)).tokensSold).to.equal(tokensOut);
+    });
+
+    it("Should approve and sell in one call", async function () {
+      const { clientFor, buyer1, marketId } = await loadFixture(deployWithMarketFixture);
+      const client = await clientFor(buyer1);
+
+      await client.buy(marketId, ethers.parseEther("1"));
+      const market = await client.getMarket(marketId);
+      const token = await ethers.getContractAt("MarketToken", market.tokenAddress);
+      const balance = await token.balanceOf(buyer1.address);
+
+      const ethBefore = await ethers.provider.getBalance(buyer1.address);
+      await client.sell(marketId, balance / 2n);
+      const ethAfter = await ethers.provider.getBalance(buyer1.address);
+
+      expect(await token.balanceOf(buyer1.address)).to.equal(balance - balance / 2n);
+      expect(ethAfter).to.be.greaterThan(ethBefore);
+    });
+
+    it("Should sell with a permit signature instead of an approve transaction", async function () {
+      const { factory, clientFor, buyer1, marketId } = await loadFixture(deployWithMarketFixture);
+      const client = await clientFor(buyer1);
+
+      await client.buy(marketId, ethers.parseEther("1"));
+      const token = await ethers.getContractAt("MarketToken", (await client.getMarket(marketId)).tokenAddress);
+      const balance = await token.balanceOf(buyer1.address);
+
+      const nonceBefore = await ethers.provider.getTransactionCount(buyer1.address);
+      await client.sellWithPermit(marketId, balance);
+
+      expect(await ethers.provider.getTransactionCount(buyer1.address)).to.equal(nonceBefore + 1);
+      expect(await token.balanceOf(buyer1.address)).to.equal(0);
+      expect(await token.allowance(buyer1.address, factory.target)).to.equal(0);
+    });
+
+    it("Should read parameter bounds and create a market with its own target raise", async function () {
+      const { factory, clientFor, agent1, agent2, agent3 } = await loadFixture(deployClientFixture);
+      const client = await clientFor(agent1);
+
+      const bounds = await client.getParameterBounds(CurveType.Linear);
+      expect(bounds.minTargetRaise).to.equal(await factory.minTargetRaise());
+      expect(bounds.maxParams).to.have.lengthOf(2);
+
+      const { marketId } = await client.createMarket({
+        quorumAgents: [agent1.address, agent2.address, agent3.address],
+        weights: [40, 35, 25],
+        name: "Custom Raise",
+        symbol: "CR",
+        thesis: "Own target raise",
+        targetRaise: bounds.maxTargetRaise,
+      });
+
+      expect((await client.getMarket(marketId)).targetRaise).to.equal(bounds.maxTargetRaise);
+      expect((await client.getCurveState(marketId)).params).to.deep.equal([
+        await factory.defaultBasePrice(),
+        await factory.defaultSlope(),
+      ]);
+    });
+
+    it("Should reject writes from a provider-only client", async function () {
+      const { addresses, marketId } = await loadFixture(deployWithMarketFixture);
+      const client = await HeadlessMarketsClient.connect(ethers.provider, { addresses });
+
+      expect((await client.getMarket(marketId)).active).to.be.true;
+      try {
+        await client.sell(marketId, 1n, 0n);
+        expect.fail("sell should have thrown");
+      } catch (error: any) {
+        expect(error.message).to.equal("A signer is required to send transactions");
+      }
+    });
+  });
+
+  describe("Governance", function () {
+    it("Should form a quorum and return the market ID on final approval", async function () {
+      const { governance, factory, marketId } = await loadFixture(deployWithQuorumFixture);
+
+      expect(marketId).to.equal(0n);
+      expect(await factory.marketCount()).to.equal(1);
+      const quorumProposal = await governance.getQuorumProposal(0);
+      expect(quorumProposal.executed).to.be.true;
+    });
+
+    it("Should propose a quorum with its own curve config", async function () {
+      const { governance, clientFor, agent1, agent2, agent3 } = await loadFixture(deployClientFixture);
+      const curveParams = [ethers.parseEther("0.0002"), ethers.parseEther("0.00000001")];
+
+      const { proposalId } = await (await clientFor(agent1)).proposeQuorum({
+        quorumAgents: [agent1.address, agent2.address, agent3.address],
+        weights: [40, 35, 25],
+        name: "Configured Quorum",
+        symbol: "CQ",
+        thesis: "Steeper curve",
+        curveType: CurveType.Linear,
+        curveParams,
+        targetRaise: ethers.parseEther("20"),
+      });
+
+      const config = await governance.getQuorumProposalConfig(proposalId);
+      expect(config.customCurve).to.be.true;
+      expect(config.curveParams).to.deep.equal(curveParams);
+      expect(config.targetRaise).to.equal(ethers.parseEther("20"));
+    });
+
+    it("Should return a named QuorumProposalView", async function () {
+      const { clientFor, agent1, agent2, agent3 } = await loadFixture(deployWithQuorumFixture);
+
+      const view = await (await clientFor(agent1)).getQuorumProposal(0);
+      expect(view.proposedAgents).to.deep.equal([agent1.address, agent2.address, agent3.address]);
+      expect(view.weights).to.deep.equal([40n, 35n, 25n]);
+      expect(view.approvalCount).to.equal(3n);
+      expect(view.executed).to.be.true;
+      expect(view.status).to.equal(QuorumStatus.Formed);
+    });
+
+    it("Should reject a quorum proposal", async function () {
+      const { clientFor, agent1, agent2, agent3 } = await loadFixture(deployClientFixture);
+
+      const { proposalId } = await (await clientFor(agent1)).proposeQuorum({
+        quorumAgents: [agent1.address, agent2.address, agent3.address],
+        weights: [40, 35, 25],
+        name: "Declined",
+        symbol: "DEC",
+        thesis: "Not this one",
+      });
+      const client = await clientFor(agent3);
+      await client.rejectQuorum(proposalId);
+
+      expect((await client.getQuorumProposal(proposalId)).status).to.equal(QuorumStatus.Rejected);
+    });
+
+    it("Should propose, vote and execute through the client", async function () {
+      const { governance, clientFor, agent1, agent2, agent3, agent4, marketId } =
+        await loadFixture(deployWithQuorumFixture);
+
+      const { proposalId } = await (await clientFor(agent1)).propose({
+        marketId,
+        pType: ProposalType.AddAgent,
+        target: agent4.address,
+        value: 20n,
+        description: "Add agent4",
+      });
+
+      await (await clientFor(agent1)).vote(proposalId, true);
+      await (await clientFor(agent2)).vote(proposalId, true);
+      await (await clientFor(agent3)).vote(proposalId, false);
+
+      await time.increase(3 * 24 * 60 * 60 + 1);
+      await (await clientFor(agent1)).execute(proposalId);
+
+      const proposal = await (await clientFor(agent1)).getProposal(proposalId);
+      expect(proposal.pType).to.equal(ProposalType.AddAgent);
+      expect(proposal.status).to.equal(ProposalStatus.Executed);
+      expect(proposal.forVotes).to.equal(75n);
+      expect(proposal.againstVotes).to.equal(25n);
+      expect(await governance.isQuorumMember(marketId, agent4.address)).to.be.true;
+    });
+
+    it("Should quote with the market fee set by an AdjustFees proposal", async function () {
+      const { clientFor, agent1, agent2, agent3, marketId } = await loadFixture(deployWithQuorumFixture);
+      const client = await clientFor(agent1);
+
+      const { proposalId } = await client.propose({
+        marketId,
+        pType: ProposalType.AdjustFees,
+        target: ethers.ZeroAddress,
+        value: 200n,
+        description: "Raise fee to 2%",
+      });
+      for (const agent of [agent1, agent2, agent3]) {
+        await (await clientFor(agent)).vote(proposalId, true);
+      }
+      await time.increase(3 * 24 * 60 * 60 + 1);
+      await client.execute(proposalId);
+
+      const ethIn = ethers.parseEther("1");
+      const quote = await client.quoteBuy(marketId, ethIn);
+      expect(quote.fee).to.equal((ethIn * 200n) / 10000n);
+      await client.buy(marketId, ethIn);
+      const sellQuote = await client.quoteSell(marketId, quote.tokensOut);
+      expect(sellQuote.fee).to.equal((sellQuote.grossEth * 200n) / 10000n);
+    });
+
+    it("Should queue a timelocked proposal and report its ETA", async function () {
+      const { governance, owner, clientFor, agent1, agent2, agent4, marketId } =
+        await loadFixture(deployWithQuorumFixture);
+      await governance.connect(owner).setMarketTimelockDelay(marketId, 3600);
+      const client = await clientFor(agent1);
+      expect(await client.getTimelockDelay(marketId)).to.equal(3600n);
+
+      const { proposalId } = await client.propose({
+        marketId,
+        pType: ProposalType.AddAgent,
+        target: agent4.address,
+        value: 10n,
+        description: "Add agent4",
+      });
+      await client.vote(proposalId, true);
+      await (await clientFor(agent2)).vote(proposalId, true);
+      await time.increase(3 * 24 * 60 * 60 + 1);
+
+      const { eta } = await client.queue(proposalId);
+      const proposal = await client.getProposal(proposalId);
+      expect(proposal.status).to.equal(ProposalStatus.Queued);
+      expect(proposal.eta).to.equal(eta);
+
+      await time.increaseTo(eta);
+      await client.execute(proposalId);
+      expect((await client.getProposal(proposalId)).status).to.equal(ProposalStatus.Executed);
+    });
+
+    it("Should delegate token votes and vote on the token-holder track", async function () {
+      const { governance, owner, clientFor, agent1, agent2, buyer1, marketId } =
+        await loadFixture(deployWithQuorumFixture);
+      await governance.connect(owner).setTokenVoteRequired(marketId, ProposalType.AdjustFees, true);
+
+      const holder = await clientFor(buyer1);
+      await holder.buy(marketId, ethers.parseEther("2"));
+      await holder.delegateTokenVotes(marketId);
+
+      const client = await clientFor(agent1);
+      const { proposalId } = await client.propose({
+        marketId,
+        pType: ProposalType.AdjustFees,
+        target: ethers.ZeroAddress,
+        value: 100n,
+        description: "Lower fees",
+      });
+      await client.vote(proposalId, true);
+      await (await clientFor(agent2)).vote(proposalId, true);
+      await holder.voteWithTokens(proposalId, true);
+
+      expect((await governance.tokenVotes(proposalId)).forVotes).to.be.greaterThan(0n);
+      await time.increase(3 * 24 * 60 * 60 + 1);
+      await client.execute(proposalId);
+      expect((await client.getProposal(proposalId)).status).to.equal(ProposalStatus.Executed);
+    });
+
+    it("Should delegate and reclaim agent weight", async function () {
+      const { clientFor, agent1, agent2, marketId } = await loadFixture(deployWithQuorumFixture);
+      const client = await clientFor(agent2);
+
+      await client.delegate(marketId, agent1.address);
+      expect(await client.getDelegate(marketId, agent2.address)).to.equal(agent1.address);
+      expect(await client.getDelegators(marketId, agent1.address)).to.deep.equal([agent2.address]);
+
+      await client.undelegate(marketId);
+      expect(await client.getDelegate(marketId, agent2.address)).to.be.null;
+      expect(await client.getDelegators(marketId, agent1.address)).to.deep.equal([]);
+    });
+
+    it("Should abstain with a reason", async function () {
+      const { governance, clientFor, agent1, agent4, marketId } = await loadFixture(deployWithQuorumFixture);
+      const client = await clientFor(agent1);
+      const { proposalId } = await client.propose({
+        marketId,
+        pType: ProposalType.AddAgent,
+        target: agent4.address,
+        value: 10n,
+        description: "Add agent4",
+      });
+
+      const receipt = await client.castVote(proposalId, VoteType.Abstain, "Conflict of interest");
+
+      const event = governance.interface.parseLog(receipt.logs[0])!;
+      expect(event.name).to.equal("VoteCast");
+      expect(event.args.support).to.equal(VoteType.Abstain);
+      expect(event.args.reason).to.equal("Conflict of interest");
+      expect((await client.getProposal(proposalId)).abstainVotes).to.equal(40n);
+    });
+
+    it("Should report whether a cancel call cancelled the proposal", async function () {
+      const { clientFor, agent1, agent2, agent4, marketId } = await loadFixture(deployWithQuorumFixture);
+      const client = await clientFor(agent1);
+      const propose = () =>
+        client.propose({
+          marketId,
+          pType: ProposalType.AddAgent,
+          target: agent4.address,
+          value: 10n,
+          description: "Add agent4",
+        });
+
+      const { proposalId: withdrawn } = await propose();
+      expect((await client.cancel(withdrawn)).cancelled).to.be.true;
+      expect((await client.getProposal(withdrawn)).status).to.equal(ProposalStatus.Cancelled);
+
+      const { proposalId } = await propose();
+      await client.vote(proposalId, true);
+      expect((await (await clientFor(agent2)).cancel(proposalId)).cancelled).to.be.false;
+      expect((await client.cancel(proposalId)).cancelled).to.be.true;
+    });
+
+    it("Should encode Call proposal calldata from an ABI fragment", async function () {
+      const { governance, factory, owner, clientFor, agent1, agent4, marketId } =
+        await loadFixture(deployWithQuorumFixture);
+      const { tokenAddress } = await factory.getMarket(marketId);
+      await governance.connect(owner).setCallTarget(tokenAddress, true);
+
+      const { proposalId } = await (await clientFor(agent1)).proposeCall({
+        marketId,
+        target: tokenAddress,
+        fragment: "function transfer(address to, uint256 amount)",
+        args: [agent4.address, 100n],
+        description: "Pay agent4",
+      });
+
+      const token = await ethers.getContractAt("MarketToken", tokenAddress);
+      const proposal = await governance.getProposal(proposalId);
+      expect(proposal.pType).to.equal(ProposalType.Call);
+      expect(await governance.getProposalData(proposalId)).to.equal(
+        token.interface.encodeFunctionData("transfer", [agent4.address, 100n])
+      );
+      expect(() => encodeCall("event Transfer(address from, address to, uint256 value)")).to.throw(
+        "Not a function fragment"
+      );
+    });
+
+    it("Should pay a token treasury spend from the market's vault", async function () {
+      const { factory, clientFor, agent1, agent2, agent3, agent4, marketId } =
+        await loadFixture(deployWithQuorumFixture);
+      const client = await clientFor(agent1);
+
+      const { tokenAddress } = await client.getMarket(marketId);
+      const token = await ethers.getContractAt("MarketToken", tokenAddress);
+      const amount = ethers.parseEther("500");
+      await token.connect(agent1).transfer(await client.getTreasuryAddress(marketId), amount);
+
+      const { proposalId } = await client.proposeTreasurySpend({
+        marketId,
+        recipient: agent4.address,
+        amount,
+        token: tokenAddress,
+        description: "Pay agent4",
+      });
+      for (const agent of [agent1, agent2, agent3]) {
+        await (await clientFor(agent)).vote(proposalId, true);
+      }
+      await time.increase(3 * 24 * 60 * 60 + 1);
+      await client.execute(proposalId);
+
+      expect((await client.getProposal(proposalId)).status).to.equal(ProposalStatus.Executed);
+      expect(await token.balanceOf(agent4.address)).to.equal(amount);
+      expect(await factory.marketCount()).to.equal(1);
+    });
+
+    it("Should rebalance weights in governance and the factory with proposeSetWeight", async function () {
+      const { factory, clientFor, agent1, agent2, agent3, marketId } = await loadFixture(deployWithQuorumFixture);
+      const client = await clientFor(agent1);
+
+      const { proposalId } = await client.proposeSetWeight({
+        marketId,
+        agents: [agent1.address, agent3.address],
+        weights: [30, 35],
+        description: "Rebalance",
+      });
+      for (const agent of [agent1, agent2, agent3]) {
+        await (await clientFor(agent)).vote(proposalId, true);
+      }
+      await time.increase(3 * 24 * 60 * 60 + 1);
+      await client.execute(proposalId);
+
+      expect((await client.getProposal(proposalId)).status).to.equal(ProposalStatus.Executed);
+      expect((await factory.getMarket(marketId)).agentWeights).to.deep.equal([30n, 35n, 35n]);
+    });
+
+    it("Should read the current quorum after membership proposals", async function () {
+      const { clientFor, agent1, agent2, agent3, marketId } = await loadFixture(deployWithQuorumFixture);
+      const client = await clientFor(agent1);
+
+      const { proposalId } = await client.propose({
+        marketId,
+        pType: ProposalType.RemoveAgent,
+        target: agent3.address,
+        description: "Remove agent3",
+      });
+      for (const agent of [agent1, agent2]) {
+        await (await clientFor(agent)).vote(proposalId, true);
+      }
+      await time.increase(3 * 24 * 60 * 60 + 1);
+      await client.execute(proposalId);
+
+      expect(await client.getQuorum(marketId)).to.deep.equal({
+        agents: [agent1.address, agent2.address],
+        weights: [40n, 35n],
+      });
+    });
+  });
+});
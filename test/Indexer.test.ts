@@ -0,0 +1,228 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { loadFixture, mine, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { IndexerDatabase, ProtocolIndexer } from "../src/indexer";
+
+/**
+ * Protocol Indexer Tests
+ *
+ * Drives real protocol activity on the Hardhat network and indexes it into an
+ * in-memory SQLite database. Reorgs are simulated with evm_snapshot/evm_revert
+ * followed by different transactions at the same heights.
+ */
+describe("ProtocolIndexer", function () {
+  async function deployIndexerFixture() {
+    const [owner, treasury, agent1, agent2, agent3, agent4, buyer1] = await ethers.getSigners();
+
+    const Factory = await ethers.getContractFactory("BondingCurveFactory");
+    const factory = await Factory.deploy(treasury.address, ethers.ZeroAddress);
+
+    const Governance = await ethers.getContractFactory("QuorumGovernance");
+    const governance = await Governance.deploy(factory.target);
+    await factory.setGovernance(governance.target);
+
+    // Form a quorum so both contracts have emitted events
+    const agents = [agent1.address, agent2.address, agent3.address];
+    await governance.connect(agent1).proposeQuorum(agents, [40, 35, 25], "Indexed Token", "IDX", "Indexer thesis");
+    await governance.connect(agent2).approveQuorum(0);
+    await governance.connect(agent3).approveQuorum(0);
+
+    const addresses = { factory: factory.target as string, governance: governance.target as string };
+    const token = await ethers.getContractAt("MarketToken", (await factory.getMarket(0)).tokenAddress);
+
+    return { factory, governance, token, addresses, owner, agent1, agent2, agent3, agent4, buyer1, marketId: 0 };
+  }
+
+  function createIndexer(addresses: { factory: string; governance: string }, options = {}) {
+    const db = new IndexerDatabase(":memory:");
+    const indexer = new ProtocolIndexer(ethers.provider, addresses, db, options);
+    return { db, indexer };
+  }
+
+  function countEvents(db: IndexerDatabase, name: string): number {
+    return (db.db.prepare("SELECT COUNT(*) AS n FROM events WHERE name = ?").get(name) as { n: number }).n;
+  }
+
+  describe("Sync", function () {
+    it("Should index factory and governance events across batches", async function () {
+      const { factory, governance, addresses, agent1, agent2, agent4, buyer1, marketId } =
+        await loadFixture(deployIndexerFixture);
+
+      await factory.connect(buyer1).buy(marketId, 0, { value: ethers.parseEther("1") });
+      await governance.connect(agent1).propose(marketId, 3, ethers.ZeroAddress, 100, "0x", "Lower fees");
+      await governance.connect(agent1).vote(0, true);
+      await governance
+        .connect(agent1)
+        .proposeQuorum([agent1.address, agent2.address, agent4.address], [40, 35, 25], "Declined", "DEC", "Rejected");
+      await governance.connect(agent4).rejectQuorum(1);
+
+      const { db, indexer } = createIndexer(addresses, { batchSize: 3 });
+      const result = await indexer.sync();
+      const head = await ethers.provider.getBlockNumber();
+
+      expect(result.toBlock).to.equal(head);
+      expect(db.getCheckpoint()!.blockNumber).to.equal(head);
+      expect(db.getCheckpoint()!.blockHash).to.equal((await ethers.provider.getBlock(head))!.hash);
+
+      for (const name of [
+        "QuorumProposalCreated",
+        "QuorumFormed",
+        "MarketCreated",
+        "MarketCurveConfigured",
+        "TokensPurchased",
+        "ProtocolFeeCollected",
+        "ProposalCreated",
+        "VoteCast",
+        "QuorumRejected",
+      ]) {
+        expect(countEvents(db, name), name).to.be.greaterThan(0);
+      }
+      expect(countEvents(db, "QuorumApproval")).to.equal(4);
+    });
+
+    it("Should decode args with names and bigints as strings", async function () {
+      const { addresses, agent1, agent2, agent3 } = await loadFixture(deployIndexerFixture);
+      const { db, indexer } = createIndexer(addresses);
+
+      await indexer.sync();
+
+      const row = db.db.prepare("SELECT * FROM events WHERE name = 'MarketCreated'").get() as any;
+      const args = JSON.parse(row.args);
+      expect(row.contract).to.equal("factory");
+      expect(row.market_id).to.equal("0");
+      expect(args.marketId).to.equal("0");
+      expect(args.quorumAgents).to.deep.equal([agent1.address, agent2.address, agent3.address]);
+      expect(args.thesis).to.equal("Indexer thesis");
+
+      const block = await ethers.provider.getBlock(row.block_number);
+      expect(row.timestamp).to.equal(block!.timestamp);
+    });
+
+    it("Should flatten buys and sells into trades", async function () {
+      const { factory, token, addresses, buyer1, marketId } = await loadFixture(deployIndexerFixture);
+
+      await factory.connect(buyer1).buy(marketId, 0, { value: ethers.parseEther("1") });
+      const bought = await token.balanceOf(buyer1.address);
+      await token.connect(buyer1).approve(factory.target, bought);
+      await factory.connect(buyer1).sell(marketId, bought / 2n, 0);
+
+      const { db, indexer } = createIndexer(addresses);
+      await indexer.sync();
+
+      const trades = db.db.prepare("SELECT * FROM trades ORDER BY block_number").all() as any[];
+      expect(trades.map((t) => t.side)).to.deep.equal(["buy", "sell"]);
+      expect(trades[0].trader).to.equal(buyer1.address);
+      expect(trades[0].eth_amount).to.equal(ethers.parseEther("1").toString());
+      expect(trades[0].token_amount).to.equal(bought.toString());
+      expect(trades[0].price).to.not.be.null;
+      expect(trades[1].token_amount).to.equal((bought / 2n).toString());
+    });
+
+    it("Should expose the ETA of queued proposals", async function () {
+      const { governance, owner, addresses, agent1, agent2, agent4, marketId } =
+        await loadFixture(deployIndexerFixture);
+
+      await governance.connect(owner).setMarketTimelockDelay(marketId, 3600);
+      await governance.connect(agent1).propose(marketId, 0, agent4.address, 10, "0x", "Add agent4");
+      await governance.connect(agent1).vote(0, true);
+      await governance.connect(agent2).vote(0, true);
+      await time.increase(3 * 24 * 60 * 60 + 1);
+      await governance.queue(0);
+
+      const { db, indexer } = createIndexer(addresses);
+      await indexer.sync();
+
+      const queued = db.getQueuedProposals(String(marketId));
+      expect(queued).to.have.lengthOf(1);
+      expect(queued[0].proposalId).to.equal("0");
+      expect(queued[0].eta).to.equal(Number((await governance.getProposal(0)).eta));
+      expect(db.getQueuedProposals("5")).to.be.empty;
+    });
+
+    it("Should resume from the checkpoint without duplicating rows", async function () {
+      const { factory, addresses, buyer1, marketId } = await loadFixture(deployIndexerFixture);
+      const { db, indexer } = createIndexer(addresses);
+
+      await indexer.sync();
+      await factory.connect(buyer1).buy(marketId, 0, { value: ethers.parseEther("1") });
+
+      const checkpoint = db.getCheckpoint()!;
+      const result = await indexer.sync();
+      expect(result.fromBlock).to.equal(checkpoint.blockNumber + 1);
+      expect(result.events).to.equal(2); // ProtocolFeeCollected + TokensPurchased
+
+      await indexer.sync();
+      expect(countEvents(db, "TokensPurchased")).to.equal(1);
+    });
+
+    it("Should stay behind head by the configured confirmations", async function () {
+      const { addresses } = await loadFixture(deployIndexerFixture);
+      const { db, indexer } = createIndexer(addresses, { confirmations: 2 });
+
+      await indexer.sync();
+      expect(db.getCheckpoint()!.blockNumber).to.equal((await ethers.provider.getBlockNumber()) - 2);
+    });
+
+    it("Should ignore blocks before the start block", async function () {
+      const { factory, addresses, buyer1, marketId } = await loadFixture(deployIndexerFixture);
+      const startBlock = (await ethers.provider.getBlockNumber()) + 1;
+      await factory.connect(buyer1).buy(marketId, 0, { value: ethers.parseEther("1") });
+
+      const { db, indexer } = createIndexer(addresses, { startBlock });
+      await indexer.sync();
+
+      expect(countEvents(db, "MarketCreated")).to.equal(0);
+      expect(countEvents(db, "TokensPurchased")).to.equal(1);
+    });
+  });
+
+  describe("Reorgs", function () {
+    it("Should roll back orphaned blocks and index the new canonical chain", async function () {
+      const { factory, addresses, buyer1, agent4, marketId } = await loadFixture(deployIndexerFixture);
+      const { db, indexer } = createIndexer(addresses);
+
+      await indexer.sync();
+      const ancestor = db.getCheckpoint()!;
+      const snapshot = await network.provider.send("evm_snapshot");
+
+      await factory.connect(buyer1).buy(marketId, 0, { value: ethers.parseEther("1") });
+      await indexer.sync();
+      expect((db.db.prepare("SELECT trader FROM trades").all() as any[]).map((t) => t.trader)).to.deep.equal([
+        buyer1.address,
+      ]);
+
+      // Replace the orphaned block with a different buy at the same height, then extend the chain
+      await network.provider.send("evm_revert", [snapshot]);
+      await factory.connect(agent4).buy(marketId, 0, { value: ethers.parseEther("2") });
+      await mine(2);
+
+      const result = await indexer.sync();
+      expect(result.reorgedTo).to.equal(ancestor.blockNumber);
+      expect((db.db.prepare("SELECT trader FROM trades").all() as any[]).map((t) => t.trader)).to.deep.equal([
+        agent4.address,
+      ]);
+      expect(countEvents(db, "TokensPurchased")).to.equal(1);
+      expect(db.getCheckpoint()!.blockHash).to.equal(
+        (await ethers.provider.getBlock(await ethers.provider.getBlockNumber()))!.hash
+      );
+    });
+
+    it("Should re-index from the start when no stored block is canonical", async function () {
+      const { factory, addresses, buyer1, marketId } = await loadFixture(deployIndexerFixture);
+      const startBlock = (await ethers.provider.getBlockNumber()) + 1;
+      const { db, indexer } = createIndexer(addresses, { startBlock });
+      const snapshot = await network.provider.send("evm_snapshot");
+
+      await factory.connect(buyer1).buy(marketId, 0, { value: ethers.parseEther("1") });
+      await indexer.sync();
+
+      await network.provider.send("evm_revert", [snapshot]);
+      await mine(3);
+
+      const result = await indexer.sync();
+      expect(result.reorgedTo).to.equal(-1);
+      expect(result.fromBlock).to.equal(startBlock);
+      expect(countEvents(db, "TokensPurchased")).to.equal(0);
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 
 /**
  * MEV (Maximal Extractable Value) Attack Simulations
@@ -16,6 +16,7 @@ import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
  * 5. Multi-Block MEV (cross-block strategies)
  * 6. Graduation Front-Running (DEX listing attacks)
  * 7. Price Manipulation Attacks
+ * 8. Delayed Execution (stale pending transactions)
  */
 describe("MEV Attack Simulations", function () {
   async function deployFixture() {
@@ -241,8 +242,12 @@ describe("MEV Attack Simulations", function () {
        * 2. When market is at 9.9 ETH, bot buys remaining
        * 3. Bot gets tokens at bonding curve price
        * 4. After graduation, tokens trade on Uniswap at potentially higher price
+       *
+       * Mitigation: the graduating buy is partially filled at exactly the
+       * remaining raise and the rest refunded, so the bot cannot buy past the
+       * target and the graduation price is the same however much it sends.
        */
-      it("MEV bot attempts graduation front-run", async function () {
+      it("MEV bot attempts graduation front-run - capped at the remaining raise", async function () {
         const { factory, token, mevBot, victim1 } = await loadFixture(deployFixture);
 
         // Build up to near graduation
@@ -250,21 +255,36 @@ describe("MEV Attack Simulations", function () {
 
         const market = await factory.getMarket(0);
         expect(market.graduated).to.be.false;
+        const remaining = market.targetRaise - market.currentRaised;
+        const expectedTokens = await factory.calculatePurchaseReturn(0, remaining);
 
-        // MEV bot front-runs the graduation trigger
-        // Buys remaining amount to trigger graduation + get tokens
-        await factory.connect(mevBot).buy(0, 0, { value: ethers.parseEther("1.0") });
+        // MEV bot front-runs the graduation trigger with far more than needed
+        const tx = factory.connect(mevBot).buy(0, 0, { value: ethers.parseEther("5.0") });
+        const ethSpent = remaining + (remaining * 50n) / 9950n;
+        await expect(tx).to.changeEtherBalance(mevBot, -ethSpent);
 
         const marketAfter = await factory.getMarket(0);
         expect(marketAfter.graduated).to.be.true;
+        expect(marketAfter.currentRaised).to.equal(marketAfter.targetRaise);
 
-        // Bot now holds tokens that are on Uniswap (if router was set)
-        const botTokens = await token.balanceOf(mevBot.address);
-        expect(botTokens).to.be.gt(0);
+        // Bot only receives the tokens left below the target
+        expect(await token.balanceOf(mevBot.address)).to.equal(expectedTokens);
+      });
+
+      it("Graduation price is the same regardless of the final buy size", async function () {
+        const graduationState = async (finalBuy: bigint) => {
+          const { factory, mevBot, victim1 } = await loadFixture(deployFixture);
+          await factory.connect(victim1).buy(0, 0, { value: ethers.parseEther("9.8") });
+          await factory.connect(mevBot).buy(0, 0, { value: finalBuy });
+          const market = await factory.getMarket(0);
+          return { price: await factory.getCurrentPrice(0), tokensSold: market.tokensSold };
+        };
 
-        // This is a known "attack" - but it's more of a race condition
-        // The tokens were fairly purchased on the curve
-        // The "front-running" just means bot triggered graduation
+        const small = await graduationState(ethers.parseEther("0.3"));
+        const whale = await graduationState(ethers.parseEther("50"));
+
+        expect(whale.price).to.equal(small.price);
+        expect(whale.tokensSold).to.equal(small.tokensSold);
       });
 
       it("Graduation front-running with multiple bots racing", async function () {
@@ -280,6 +300,10 @@ describe("MEV Attack Simulations", function () {
         const market = await factory.getMarket(0);
         expect(market.graduated).to.be.true;
 
+        // Winning the race is worth at most the ~0.2 ETH left below the target
+        const winnerTokens = await token.balanceOf(mevBot.address);
+        expect(winnerTokens).to.be.lt(await token.balanceOf(victim1.address) / 40n);
+
         // Second bot's tx would fail (market already graduated)
         await expect(
           factory.connect(victim2).buy(0, 0, { value: ethers.parseEther("0.3") })
@@ -431,6 +455,52 @@ describe("MEV Attack Simulations", function () {
     });
   });
 
+  // ============ DELAYED EXECUTION ============
+  describe("Delayed Execution", function () {
+    /**
+     * Attack Pattern:
+     * 1. Victim's tx is underpriced or withheld and sits in the mempool
+     * 2. Price moves; minTokensOut still passes while the trade is no longer wanted
+     * 3. Tx executes much later at a price the victim never agreed to
+     *
+     * Mitigation: buyWithDeadline / sellWithDeadline revert after the deadline
+     */
+    it("Stale buy executes without a deadline", async function () {
+      const { factory, token, victim1 } = await loadFixture(deployFixture);
+
+      // Loose slippage signed an hour ago still executes today
+      await time.increase(3600);
+      await factory.connect(victim1).buy(0, 1, { value: ethers.parseEther("0.1") });
+      expect(await token.balanceOf(victim1.address)).to.be.gt(0);
+    });
+
+    it("Stale buy is rejected after its deadline - MITIGATED", async function () {
+      const { factory, victim1 } = await loadFixture(deployFixture);
+
+      const deadline = BigInt(await time.latest()) + 60n;
+      await time.increase(3600);
+
+      await expect(
+        factory.connect(victim1).buyWithDeadline(0, 1, deadline, { value: ethers.parseEther("0.1") })
+      ).to.be.revertedWith("Transaction expired");
+    });
+
+    it("Stale sell is rejected after its deadline - MITIGATED", async function () {
+      const { factory, token, victim1 } = await loadFixture(deployFixture);
+
+      await factory.connect(victim1).buy(0, 0, { value: ethers.parseEther("1") });
+      const balance = await token.balanceOf(victim1.address);
+      await token.connect(victim1).approve(factory.target, balance);
+
+      const deadline = BigInt(await time.latest()) + 60n;
+      await time.increase(3600);
+
+      await expect(
+        factory.connect(victim1).sellWithDeadline(0, balance, 0, deadline)
+      ).to.be.revertedWith("Transaction expired");
+    });
+  });
+
   // ============ MITIGATION EFFECTIVENESS ============
   describe("Slippage Protection Effectiveness", function () {
     it("Calculate optimal slippage tolerance", async function () {
@@ -1,7 +1,8 @@
 import { expect } from "chai";
-import { ethers } from "hardhat";
+import { ethers, network } from "hardhat";
 import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { QuorumGovernance, BondingCurveFactory } from "../typechain-types";
+import { encodeCall, signApproveQuorum, signCastVote, signPropose, signVote } from "../src/sdk";
 
 describe("QuorumGovernance", function () {
   // Fixture to deploy governance with factory
@@ -16,6 +17,7 @@ describe("QuorumGovernance", function () {
     // Deploy governance with factory address
     const Governance = await ethers.getContractFactory("QuorumGovernance");
     const governance = await Governance.deploy(factory.target);
+    await factory.setGovernance(governance.target);
 
     // Constants from contract
     const votingPeriod = 3 * 24 * 60 * 60; // 3 days (constant in contract)
@@ -220,6 +222,143 @@ describe("QuorumGovernance", function () {
     });
   });
 
+  describe("Quorum Rejection", function () {
+    // Mirrors QuorumGovernance.QuorumStatus
+    const Pending = 0n, Formed = 1n, Rejected = 2n, Expired = 3n;
+
+    async function deployWithQuorumProposalFixture() {
+      const fixture = await deployGovernanceFixture();
+      const { governance, agent1, agent2, agent3 } = fixture;
+
+      await governance.connect(agent1).proposeQuorum(
+        [agent1.address, agent2.address, agent3.address],
+        [40, 35, 25],
+        "Token",
+        "TK",
+        "Thesis"
+      );
+
+      return fixture;
+    }
+
+    it("Should report a new quorum proposal as pending", async function () {
+      const { governance } = await loadFixture(deployWithQuorumProposalFixture);
+
+      expect((await governance.getQuorumProposal(0)).status).to.equal(Pending);
+    });
+
+    it("Should let a proposed agent reject and end the proposal", async function () {
+      const { governance, factory, agent2, agent3 } = await loadFixture(deployWithQuorumProposalFixture);
+      await governance.connect(agent2).approveQuorum(0);
+
+      await expect(governance.connect(agent3).rejectQuorum(0))
+        .to.emit(governance, "QuorumRejected")
+        .withArgs(0, agent3.address);
+
+      expect((await governance.getQuorumProposal(0)).status).to.equal(Rejected);
+      await expect(governance.connect(agent3).approveQuorum(0)).to.be.revertedWith("Quorum rejected");
+      expect(await factory.marketCount()).to.equal(0);
+    });
+
+    it("Should let the proposer withdraw by rejecting", async function () {
+      const { governance, agent1, agent2 } = await loadFixture(deployWithQuorumProposalFixture);
+
+      await governance.connect(agent1).rejectQuorum(0);
+
+      expect((await governance.getQuorumProposal(0)).status).to.equal(Rejected);
+      await expect(governance.connect(agent2).rejectQuorum(0)).to.be.revertedWith("Quorum not pending");
+    });
+
+    it("Should reject rejections from agents outside the proposal", async function () {
+      const { governance, voter1 } = await loadFixture(deployWithQuorumProposalFixture);
+
+      await expect(governance.connect(voter1).rejectQuorum(0)).to.be.revertedWith("Not in proposed quorum");
+    });
+
+    it("Should report expired and formed proposals and refuse to reject them", async function () {
+      const { governance, agent1, agent2, agent3, votingPeriod } =
+        await loadFixture(deployWithQuorumProposalFixture);
+
+      await governance.connect(agent1).proposeQuorum(
+        [agent1.address, agent2.address, agent3.address],
+        [40, 35, 25],
+        "Formed",
+        "FM",
+        "Thesis"
+      );
+      await governance.connect(agent2).approveQuorum(1);
+      await governance.connect(agent3).approveQuorum(1);
+      expect((await governance.getQuorumProposal(1)).status).to.equal(Formed);
+      await expect(governance.connect(agent2).rejectQuorum(1)).to.be.revertedWith("Quorum not pending");
+
+      await time.increase(votingPeriod);
+      expect((await governance.getQuorumProposal(0)).status).to.equal(Expired);
+      await expect(governance.connect(agent2).rejectQuorum(0)).to.be.revertedWith("Quorum not pending");
+    });
+  });
+
+  describe("Quorum Market Config", function () {
+    const Linear = 0;
+
+    it("Should create the market with the quorum's curve and target raise", async function () {
+      const { governance, factory, agent1, agent2, agent3 } =
+        await loadFixture(deployGovernanceFixture);
+      const params = [ethers.parseEther("0.0002"), ethers.parseEther("0.00000001")];
+
+      await governance.connect(agent1).proposeQuorumWithCurve(
+        [agent1.address, agent2.address, agent3.address],
+        [40, 35, 25],
+        "Custom Token",
+        "CT",
+        "Custom curve",
+        Linear,
+        params,
+        ethers.parseEther("25")
+      );
+
+      const config = await governance.getQuorumProposalConfig(0);
+      expect(config.customCurve).to.be.true;
+      expect(config.curveParams).to.deep.equal(params);
+      expect(config.targetRaise).to.equal(ethers.parseEther("25"));
+
+      await governance.connect(agent2).approveQuorum(0);
+      await governance.connect(agent3).approveQuorum(0);
+
+      expect((await factory.getMarket(0)).targetRaise).to.equal(ethers.parseEther("25"));
+      expect((await factory.getMarketCurve(0)).params).to.deep.equal(params);
+    });
+
+    it("Should reject out-of-bounds configs at proposal time", async function () {
+      const { governance, agent1, agent2, agent3 } = await loadFixture(deployGovernanceFixture);
+      const agents = [agent1.address, agent2.address, agent3.address];
+      const params = [ethers.parseEther("0.0001"), ethers.parseEther("0.000000002")];
+
+      await expect(
+        governance.connect(agent1).proposeQuorumWithCurve(agents, [40, 35, 25], "T", "T", "Thesis", Linear, params, ethers.parseEther("1000"))
+      ).to.be.revertedWith("Target raise out of bounds");
+
+      await expect(
+        governance.connect(agent1).proposeQuorumWithCurve(agents, [40, 35, 25], "T", "T", "Thesis", Linear, [1n, 0n], ethers.parseEther("10"))
+      ).to.be.revertedWith("Curve param out of bounds");
+    });
+
+    it("Should report the default config for plain quorum proposals", async function () {
+      const { governance, agent1, agent2, agent3 } = await loadFixture(deployGovernanceFixture);
+
+      await governance.connect(agent1).proposeQuorum(
+        [agent1.address, agent2.address, agent3.address],
+        [40, 35, 25],
+        "Token",
+        "TK",
+        "Thesis"
+      );
+
+      const config = await governance.getQuorumProposalConfig(0);
+      expect(config.customCurve).to.be.false;
+      expect(config.curveParams).to.deep.equal([]);
+    });
+  });
+
   describe("View Functions", function () {
     it("Should return correct quorum proposal details", async function () {
       const { governance, agent1, agent2, agent3 } =
@@ -273,6 +412,7 @@ describe("QuorumGovernance", function () {
     // Deploy governance with factory address
     const Governance = await ethers.getContractFactory("QuorumGovernance");
     const governance = await Governance.deploy(factory.target);
+    await factory.setGovernance(governance.target);
 
     // Create a quorum proposal and execute it to get a market
     await governance.connect(agent1).proposeQuorum(
@@ -385,7 +525,7 @@ describe("QuorumGovernance", function () {
 
       await expect(governance.connect(agent2).vote(0, true))
         .to.emit(governance, "VoteCast")
-        .withArgs(0, agent2.address, true, 35); // agent2 has weight 35
+        .withArgs(0, agent2.address, 1, 35, ""); // agent2 has weight 35
     });
 
     it("Should allow quorum member to vote against", async function () {
@@ -403,7 +543,7 @@ describe("QuorumGovernance", function () {
 
       await expect(governance.connect(agent3).vote(0, false))
         .to.emit(governance, "VoteCast")
-        .withArgs(0, agent3.address, false, 25); // agent3 has weight 25
+        .withArgs(0, agent3.address, 0, 25, ""); // agent3 has weight 25
     });
 
     it("Should reject vote from non-quorum member", async function () {
@@ -489,6 +629,45 @@ describe("QuorumGovernance", function () {
       expect(proposal.forVotes).to.equal(65); // 40 + 25
       expect(proposal.againstVotes).to.equal(35);
     });
+
+    it("Should record abstentions and emit the vote reason", async function () {
+      const { governance, agent1, agent3, agent4, marketId } =
+        await loadFixture(deployWithMarketFixture);
+
+      await governance.connect(agent1).propose(marketId, 0, agent4.address, 0, "0x", "Add agent4");
+
+      await expect(governance.connect(agent3).castVote(0, 2, "No strong view"))
+        .to.emit(governance, "VoteCast")
+        .withArgs(0, agent3.address, 2, 25, "No strong view");
+
+      const proposal = await governance.getProposal(0);
+      expect(proposal.abstainVotes).to.equal(25);
+      expect(proposal.forVotes).to.equal(0);
+      expect(proposal.againstVotes).to.equal(0);
+
+      await expect(governance.connect(agent1).castVote(0, 3, "")).to.be.revertedWith("Invalid vote type");
+    });
+
+    it("Should count abstentions toward quorum but not the majority", async function () {
+      const { governance, agent1, agent2, agent3, agent4, marketId, votingPeriod } =
+        await loadFixture(deployWithMarketFixture);
+
+      await governance.connect(agent1).propose(marketId, 0, agent4.address, 10, "0x", "Add agent4");
+      await governance.connect(agent1).propose(marketId, 0, agent4.address, 10, "0x", "Add agent4 again");
+
+      // 35 for + 40 abstain reaches the 2/3 quorum and passes
+      await governance.connect(agent1).castVote(0, 2, "Conflicted");
+      await governance.connect(agent2).castVote(0, 1, "Good fit");
+
+      // 40 abstain + 35 against + 25 for reaches quorum but is defeated
+      await governance.connect(agent1).castVote(1, 2, "");
+      await governance.connect(agent2).castVote(1, 0, "");
+      await governance.connect(agent3).castVote(1, 1, "");
+
+      await time.increase(votingPeriod + 1);
+      await expect(governance.execute(0)).to.emit(governance, "ProposalExecuted").withArgs(0, true);
+      await expect(governance.execute(1)).to.emit(governance, "ProposalExecuted").withArgs(1, false);
+    });
   });
 
   describe("Proposal Execution", function () {
@@ -558,9 +737,12 @@ describe("QuorumGovernance", function () {
     });
 
     it("Should execute TreasurySpend proposal", async function () {
-      const { governance, agent1, agent2, agent3, treasury, marketId, votingPeriod } =
+      const { governance, owner, agent1, agent2, agent3, treasury, marketId, votingPeriod } =
         await loadFixture(deployWithMarketFixture);
 
+      const vault = await governance.marketTreasury(marketId);
+      await owner.sendTransaction({ to: vault, value: ethers.parseEther("1") });
+
       await governance.connect(agent1).propose(
         marketId,
         2, // ProposalType.TreasurySpend
@@ -579,10 +761,11 @@ describe("QuorumGovernance", function () {
       await expect(governance.execute(0))
         .to.emit(governance, "ProposalExecuted")
         .withArgs(0, true);
+      expect(await ethers.provider.getBalance(vault)).to.equal(0);
     });
 
     it("Should execute AdjustFees proposal", async function () {
-      const { governance, agent1, agent2, agent3, marketId, votingPeriod } =
+      const { governance, factory, agent1, agent2, agent3, marketId, votingPeriod } =
         await loadFixture(deployWithMarketFixture);
 
       await governance.connect(agent1).propose(
@@ -603,12 +786,32 @@ describe("QuorumGovernance", function () {
       await expect(governance.execute(0))
         .to.emit(governance, "ProposalExecuted")
         .withArgs(0, true);
+      expect(await factory.getMarketFeeBps(marketId)).to.equal(100);
+    });
+
+    it("Should fail an AdjustFees proposal outside the factory's fee bounds", async function () {
+      const { governance, factory, agent1, agent2, agent3, marketId, votingPeriod } =
+        await loadFixture(deployWithMarketFixture);
+
+      await governance.connect(agent1).propose(marketId, 3, ethers.ZeroAddress, 501, "0x", "Fee too high");
+      await governance.connect(agent1).vote(0, true);
+      await governance.connect(agent2).vote(0, true);
+      await governance.connect(agent3).vote(0, true);
+      await time.increase(votingPeriod + 1);
+
+      await expect(governance.execute(0))
+        .to.emit(governance, "ProposalExecuted")
+        .withArgs(0, false);
+      expect((await governance.getProposal(0)).status).to.equal(2); // Failed
+      expect(await factory.hasMarketFee(marketId)).to.be.false;
     });
 
     it("Should execute ForceGraduate proposal", async function () {
-      const { governance, agent1, agent2, agent3, marketId, votingPeriod } =
+      const { governance, factory, agent1, agent2, agent3, voter1, marketId, votingPeriod } =
         await loadFixture(deployWithMarketFixture);
 
+      await factory.connect(voter1).buy(marketId, 0, { value: ethers.parseEther("1") });
+
       await governance.connect(agent1).propose(
         marketId,
         4, // ProposalType.ForceGraduate
@@ -627,6 +830,28 @@ describe("QuorumGovernance", function () {
       await expect(governance.execute(0))
         .to.emit(governance, "ProposalExecuted")
         .withArgs(0, true);
+      expect((await factory.getMarket(marketId)).graduated).to.be.true;
+    });
+
+    it("Should fail a ForceGraduate proposal below the graduation floor", async function () {
+      const { governance, factory, agent1, agent2, agent3, voter1, marketId, votingPeriod } =
+        await loadFixture(deployWithMarketFixture);
+
+      // 0.1 ETH raised, under the 0.5 ETH default floor
+      await factory.connect(voter1).buy(marketId, 0, { value: ethers.parseEther("0.1") });
+
+      await governance.connect(agent1).propose(marketId, 4, ethers.ZeroAddress, 0, "0x", "Graduate on dust");
+      await governance.connect(agent1).vote(0, true);
+      await governance.connect(agent2).vote(0, true);
+      await governance.connect(agent3).vote(0, true);
+      await time.increase(votingPeriod + 1);
+
+      await expect(governance.execute(0))
+        .to.emit(governance, "ProposalExecuted")
+        .withArgs(0, false)
+        .and.not.to.emit(governance, "ForceGraduationApproved");
+      expect((await governance.getProposal(0)).status).to.equal(2); // Failed
+      expect((await factory.getMarket(marketId)).graduated).to.be.false;
     });
 
     it("Should fail proposal without quorum", async function () {
@@ -1086,7 +1311,7 @@ describe("QuorumGovernance", function () {
       // since they're not in the original factory agents array
       await expect(governance.connect(voter1).vote(1, true))
         .to.emit(governance, "VoteCast")
-        .withArgs(1, voter1.address, true, 0); // weight is 0
+        .withArgs(1, voter1.address, 1, 0, ""); // weight is 0
     });
 
     it("Should verify _executeQuorumProposal internal guard for already executed", async function () {
@@ -1222,62 +1447,1187 @@ describe("QuorumGovernance", function () {
     });
   });
 
-  describe("Governance Event Emissions", function () {
-    it("Should emit TreasurySpendApproved on treasury spend execution", async function () {
-      const { governance, agent1, agent2, agent3, treasury, marketId, votingPeriod } =
-        await loadFixture(deployWithMarketFixture);
+  describe("Market Treasury", function () {
+    async function passTreasurySpend(
+      fixture: Awaited<ReturnType<typeof deployWithMarketFixture>>,
+      recipient: string,
+      amount: bigint,
+      data = "0x"
+    ) {
+      const { governance, agent1, agent2, agent3, marketId, votingPeriod } = fixture;
+      await governance.connect(agent1).propose(marketId, 2, recipient, amount, data, "Treasury spend");
+      const proposalId = (await governance.proposalCount()) - 1n;
+      await governance.connect(agent1).vote(proposalId, true);
+      await governance.connect(agent2).vote(proposalId, true);
+      await governance.connect(agent3).vote(proposalId, true);
+      await time.increase(votingPeriod + 1);
+      return proposalId;
+    }
 
-      const spendAmount = ethers.parseEther("1");
+    it("Should deploy a treasury for each formed market", async function () {
+      const { governance, marketId } = await loadFixture(deployWithMarketFixture);
 
-      await governance.connect(agent1).propose(
-        marketId,
-        2, // ProposalType.TreasurySpend
-        treasury.address,
-        spendAmount,
-        "0x",
-        "Spend treasury funds"
+      const vault = await ethers.getContractAt("MarketTreasury", await governance.marketTreasury(marketId));
+      expect(await vault.governance()).to.equal(governance.target);
+      expect(await vault.marketId()).to.equal(marketId);
+
+      const deployer = await ethers.getContractAt("MarketTreasuryDeployer", await governance.treasuryDeployer());
+      await expect(deployer.deploy(marketId)).to.be.revertedWith("Only governance");
+    });
+
+    it("Should emit MarketTreasuryCreated when a quorum forms", async function () {
+      const { governance, agent1, agent2, agent3 } = await loadFixture(deployGovernanceFixture);
+
+      await governance.connect(agent1).proposeQuorum(
+        [agent1.address, agent2.address, agent3.address],
+        [40, 35, 25],
+        "Vault Token",
+        "VLT",
+        "Treasury"
       );
+      await governance.connect(agent2).approveQuorum(0);
+      await expect(governance.connect(agent3).approveQuorum(0)).to.emit(governance, "MarketTreasuryCreated");
+      expect(await governance.marketTreasury(0)).to.not.equal(ethers.ZeroAddress);
+    });
+
+    it("Should pay market tokens when data names the token", async function () {
+      const fixture = await loadFixture(deployWithMarketFixture);
+      const { governance, factory, agent1, agent4, marketId } = fixture;
+
+      const market = await factory.getMarket(marketId);
+      const token = await ethers.getContractAt("MarketToken", market.tokenAddress);
+      const vault = await governance.marketTreasury(marketId);
+      const amount = ethers.parseEther("1000");
+      await token.connect(agent1).transfer(vault, amount);
+
+      const data = ethers.AbiCoder.defaultAbiCoder().encode(["address"], [market.tokenAddress]);
+      const proposalId = await passTreasurySpend(fixture, agent4.address, amount, data);
+
+      await expect(governance.execute(proposalId))
+        .to.emit(governance, "TreasurySpendApproved")
+        .withArgs(marketId, agent4.address, amount);
+      expect(await token.balanceOf(agent4.address)).to.equal(amount);
+      expect(await token.balanceOf(vault)).to.equal(0);
+    });
 
+    it("Should fail the proposal when the treasury cannot pay", async function () {
+      const fixture = await loadFixture(deployWithMarketFixture);
+      const { governance, agent4 } = fixture;
+
+      const proposalId = await passTreasurySpend(fixture, agent4.address, ethers.parseEther("1"));
+
+      await expect(governance.execute(proposalId))
+        .to.emit(governance, "ProposalExecuted")
+        .withArgs(proposalId, false)
+        .and.not.to.emit(governance, "TreasurySpendApproved");
+      expect((await governance.getProposal(proposalId)).status).to.equal(2); // Failed
+    });
+
+    it("Should only let governance spend from the treasury", async function () {
+      const { governance, owner, agent1, marketId } = await loadFixture(deployWithMarketFixture);
+
+      const vault = await ethers.getContractAt("MarketTreasury", await governance.marketTreasury(marketId));
+      await owner.sendTransaction({ to: vault.target, value: ethers.parseEther("1") });
+
+      await expect(
+        vault.connect(agent1).spendETH(agent1.address, ethers.parseEther("1"))
+      ).to.be.revertedWith("Only governance");
+      await expect(
+        vault.connect(agent1).spendToken(ethers.ZeroAddress, agent1.address, 1)
+      ).to.be.revertedWith("Only governance");
+    });
+  });
+
+  describe("Token-Holder Voting", function () {
+    const AdjustFees = 3;
+
+    // Market requiring a token vote on AdjustFees, with one delegated holder
+    // and an AdjustFees proposal the agents have passed
+    async function deployWithTokenVoteFixture() {
+      const fixture = await deployWithMarketFixture();
+      const { governance, factory, owner, agent1, agent2, agent3, voter1, marketId } = fixture;
+      const token = await ethers.getContractAt("MarketToken", (await factory.getMarket(marketId)).tokenAddress);
+
+      await governance.connect(owner).setTokenVoteRequired(marketId, AdjustFees, true);
+      await factory.connect(voter1).buy(marketId, 0, { value: ethers.parseEther("2") });
+      await token.connect(voter1).delegate(voter1.address);
+
+      await governance.connect(agent1).propose(marketId, AdjustFees, ethers.ZeroAddress, 100, "0x", "Lower fees");
       await governance.connect(agent1).vote(0, true);
       await governance.connect(agent2).vote(0, true);
       await governance.connect(agent3).vote(0, true);
 
+      return { ...fixture, token };
+    }
+
+    it("Should let only the owner configure the token track", async function () {
+      const { governance, owner, agent1, marketId } = await loadFixture(deployWithMarketFixture);
+
+      await expect(governance.connect(owner).setTokenVoteRequired(marketId, AdjustFees, true))
+        .to.emit(governance, "TokenVoteRequirementUpdated")
+        .withArgs(marketId, AdjustFees, true);
+      expect(await governance.tokenVoteRequired(marketId, AdjustFees)).to.be.true;
+
+      await expect(governance.connect(owner).setTokenQuorumBps(500))
+        .to.emit(governance, "TokenQuorumUpdated")
+        .withArgs(500);
+      await expect(governance.connect(owner).setTokenQuorumBps(10001)).to.be.revertedWith("Invalid bps");
+      await expect(
+        governance.connect(agent1).setTokenVoteRequired(marketId, AdjustFees, false)
+      ).to.be.revertedWithCustomError(governance, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should count checkpointed votes from the block before the proposal", async function () {
+      const { governance, factory, token, voter1, agent5, marketId } = await loadFixture(deployWithTokenVoteFixture);
+      const created = (await governance.queryFilter(governance.filters.ProposalCreated(0)))[0];
+
+      const tally = await governance.tokenVotes(0);
+      expect(tally.required).to.be.true;
+      expect(tally.snapshot).to.equal(created.blockNumber - 1);
+
+      await expect(governance.connect(voter1).voteWithTokens(0, true))
+        .to.emit(governance, "TokenVoteCast")
+        .withArgs(0, voter1.address, true, await token.balanceOf(voter1.address));
+
+      // Bought and delegated after the proposal
+      await factory.connect(agent5).buy(marketId, 0, { value: ethers.parseEther("1") });
+      await token.connect(agent5).delegate(agent5.address);
+      await expect(governance.connect(agent5).voteWithTokens(0, true)).to.be.revertedWith("No voting power");
+    });
+
+    it("Should execute when both the agents and token holders pass it", async function () {
+      const { governance, factory, voter1, marketId, votingPeriod } = await loadFixture(deployWithTokenVoteFixture);
+
+      await governance.connect(voter1).voteWithTokens(0, true);
       await time.increase(votingPeriod + 1);
 
-      await expect(governance.execute(0))
-        .to.emit(governance, "TreasurySpendApproved")
-        .withArgs(marketId, treasury.address, spendAmount);
+      await expect(governance.execute(0)).to.emit(governance, "ProposalExecuted").withArgs(0, true);
+      expect(await factory.getMarketFeeBps(marketId)).to.equal(100);
     });
 
-    it("Should emit FeeAdjustmentApproved on fee adjustment execution", async function () {
-      const { governance, agent1, agent2, agent3, marketId, votingPeriod } =
-        await loadFixture(deployWithMarketFixture);
+    it("Should defeat a proposal the token holders vote against", async function () {
+      const { governance, owner, voter1, marketId, votingPeriod } = await loadFixture(deployWithTokenVoteFixture);
+      await governance.connect(owner).setMarketTimelockDelay(marketId, 3600);
 
-      const newFeeBps = 100; // 1%
+      await governance.connect(voter1).voteWithTokens(0, false);
+      await time.increase(votingPeriod + 1);
 
-      await governance.connect(agent1).propose(
-        marketId,
-        3, // ProposalType.AdjustFees
-        ethers.ZeroAddress,
-        newFeeBps,
-        "0x",
-        "Adjust fees to 1%"
-      );
+      await expect(governance.queue(0)).to.be.revertedWith("Proposal defeated");
+      await expect(governance.execute(0)).to.emit(governance, "ProposalExecuted").withArgs(0, false);
+      expect((await governance.getProposal(0)).status).to.equal(2); // Failed
+    });
+
+    it("Should defeat a proposal without enough token participation", async function () {
+      const { governance, owner, token, voter1, votingPeriod } = await loadFixture(deployWithTokenVoteFixture);
+      const { snapshot } = await governance.tokenVotes(0);
+      const held = await token.balanceOf(voter1.address);
+      const bps = (held * 10000n) / (await token.getPastCirculatingSupply(snapshot)) + 1n;
+      await governance.connect(owner).setTokenQuorumBps(bps);
+
+      await governance.connect(voter1).voteWithTokens(0, true);
+      await time.increase(votingPeriod + 1);
 
+      await expect(governance.execute(0)).to.emit(governance, "ProposalExecuted").withArgs(0, false);
+    });
+
+    it("Should measure the token quorum against supply outside the factory", async function () {
+      const { governance, factory, owner, token, voter1, votingPeriod } = await loadFixture(deployWithTokenVoteFixture);
+      const { snapshot } = await governance.tokenVotes(0);
+      const total = await token.getPastTotalSupply(snapshot);
+      const circulating = await token.getPastCirculatingSupply(snapshot);
+      expect(total - circulating).to.equal(await token.getPastVotes(factory.target, snapshot));
+      expect(circulating).to.be.lessThan(total);
+
+      // voter1 holds enough of the circulating supply, but not of the total
+      const held = await token.balanceOf(voter1.address);
+      const bps = (held * 10000n) / circulating;
+      expect(held * 10000n).to.be.lessThan(total * bps);
+      await governance.connect(owner).setTokenQuorumBps(bps);
+
+      await governance.connect(voter1).voteWithTokens(0, true);
+      await time.increase(votingPeriod + 1);
+      await expect(governance.execute(0)).to.emit(governance, "ProposalExecuted").withArgs(0, true);
+    });
+
+    it("Should not let holders delegate to the factory", async function () {
+      const { factory, token, voter1 } = await loadFixture(deployWithTokenVoteFixture);
+      expect(await token.delegates(factory.target)).to.equal(factory.target);
+      await expect(token.connect(voter1).delegate(factory.target)).to.be.revertedWith("Cannot delegate to factory");
+    });
+
+    it("Should reject token votes on proposals without a token track and repeat votes", async function () {
+      const { governance, token, agent1, agent4, agent5, voter1, marketId } = await loadFixture(deployWithTokenVoteFixture);
+
+      await governance.connect(voter1).voteWithTokens(0, true);
+      await expect(governance.connect(voter1).voteWithTokens(0, true)).to.be.revertedWith("Already voted");
+
+      // Undelegated balances carry no votes
+      await token.connect(voter1).transfer(agent5.address, 1n);
+      await governance.connect(agent1).propose(marketId, AdjustFees, ethers.ZeroAddress, 50, "0x", "Fees again");
+      await expect(governance.connect(agent5).voteWithTokens(1, true)).to.be.revertedWith("No voting power");
+
+      await governance.connect(agent1).propose(marketId, 0, agent4.address, 10, "0x", "Add agent4");
+      await expect(governance.connect(voter1).voteWithTokens(2, true)).to.be.revertedWith("No token vote");
+    });
+  });
+
+  describe("Vote Snapshots", function () {
+    const day = 24 * 60 * 60;
+
+    // Proposal 0 changes membership and passes; proposal 1 opens a day later,
+    // so proposal 0 executes while proposal 1 is still being voted on
+    async function deployWithOverlappingProposalsFixture(pType: number, target: (f: any) => string, value: number) {
+      const fixture = await deployWithMarketFixture();
+      const { governance, agent1, agent2, agent3, marketId } = fixture;
+
+      await governance.connect(agent1).propose(marketId, pType, target(fixture), value, "0x", "Change members");
       await governance.connect(agent1).vote(0, true);
       await governance.connect(agent2).vote(0, true);
       await governance.connect(agent3).vote(0, true);
 
+      await time.increase(day);
+      await governance.connect(agent1).propose(marketId, 3, ethers.ZeroAddress, 100, "0x", "Lower fees");
+
+      return fixture;
+    }
+
+    const addAgent4Fixture = () => deployWithOverlappingProposalsFixture(0, (f) => f.agent4.address, 50);
+    const removeAgent3Fixture = () => deployWithOverlappingProposalsFixture(1, (f) => f.agent3.address, 0);
+
+    it("Should keep the quorum denominator when an agent is added mid-vote", async function () {
+      const { governance, agent1, agent2, agent4, marketId } = await loadFixture(addAgent4Fixture);
+
+      // 75 of 100 weight votes for proposal 1
+      await governance.connect(agent1).vote(1, true);
+      await governance.connect(agent2).vote(1, true);
+
+      // Adding agent4 with 50 makes the live total 150, where 75 misses 2/3
+      await time.increase(2 * day + 1);
+      await governance.execute(0);
+      expect(await governance.marketTotalWeight(marketId)).to.equal(150);
+
+      await time.increase(day);
+      await expect(governance.execute(1)).to.emit(governance, "ProposalExecuted").withArgs(1, true);
+    });
+
+    it("Should not let an agent added mid-vote vote on open proposals", async function () {
+      const { governance, agent1, agent4, marketId } = await loadFixture(addAgent4Fixture);
+      await time.increase(2 * day + 1);
+      await governance.execute(0);
+
+      await expect(governance.connect(agent4).vote(1, true)).to.be.revertedWith("Not quorum member");
+      const [weight, totalWeight] = await governance.getProposalWeight(1, agent4.address);
+      expect(weight).to.equal(0);
+      expect(totalWeight).to.equal(100);
+
+      // Proposals created after the change include agent4
+      await governance.connect(agent1).propose(marketId, 3, ethers.ZeroAddress, 50, "0x", "Fees again");
+      expect(await governance.getProposalWeight(2, agent4.address)).to.deep.equal([50n, 150n]);
+      await expect(governance.connect(agent4).vote(2, true))
+        .to.emit(governance, "VoteCast")
+        .withArgs(2, agent4.address, 1, 50, "");
+    });
+
+    it("Should let an agent removed mid-vote vote with their snapshot weight", async function () {
+      const { governance, agent1, agent3, marketId } = await loadFixture(removeAgent3Fixture);
+      await time.increase(2 * day + 1);
+      await governance.execute(0);
+      expect(await governance.isQuorumMember(marketId, agent3.address)).to.be.false;
+
+      await expect(governance.connect(agent3).vote(1, false))
+        .to.emit(governance, "VoteCast")
+        .withArgs(1, agent3.address, 0, 25, "");
+
+      await governance.connect(agent1).propose(marketId, 3, ethers.ZeroAddress, 50, "0x", "Fees again");
+      await expect(governance.connect(agent3).vote(2, false)).to.be.revertedWith("Not quorum member");
+    });
+  });
+
+  describe("Delegation", function () {
+    async function deployWithProposalFixture() {
+      const fixture = await deployWithMarketFixture();
+      const { governance, agent1, agent4, marketId } = fixture;
+
+      await governance.connect(agent1).propose(marketId, 0, agent4.address, 10, "0x", "Add agent4");
+
+      return fixture;
+    }
+
+    it("Should count delegated weight in the delegatee's vote", async function () {
+      const { governance, agent1, agent2, agent4, marketId, votingPeriod } =
+        await loadFixture(deployWithProposalFixture);
+
+      await expect(governance.connect(agent2).delegate(marketId, agent1.address))
+        .to.emit(governance, "DelegateChanged")
+        .withArgs(marketId, agent2.address, agent2.address, agent1.address);
+      expect(await governance.delegates(marketId, agent2.address)).to.equal(agent1.address);
+      expect(await governance.getDelegators(marketId, agent1.address)).to.deep.equal([agent2.address]);
+
+      // 40 + 35 reaches the 2/3 quorum without agent2 voting
+      await expect(governance.connect(agent1).vote(0, true))
+        .to.emit(governance, "VoteCast")
+        .withArgs(0, agent1.address, 1, 75, "");
+      expect(await governance.hasVoted(0, agent2.address)).to.be.true;
+
       await time.increase(votingPeriod + 1);
+      await governance.execute(0);
+      expect(await governance.isQuorumMember(marketId, agent4.address)).to.be.true;
+    });
 
-      await expect(governance.execute(0))
-        .to.emit(governance, "FeeAdjustmentApproved")
-        .withArgs(marketId, newFeeBps);
+    it("Should reject delegation loops and chains", async function () {
+      const { governance, agent1, agent2, agent3, voter1, marketId } = await loadFixture(deployWithProposalFixture);
+
+      await governance.connect(agent2).delegate(marketId, agent1.address);
+
+      // Loop back to the delegator
+      await expect(governance.connect(agent1).delegate(marketId, agent2.address)).to.be.revertedWith(
+        "Delegatee has delegated"
+      );
+      // Chains in either direction
+      await expect(governance.connect(agent1).delegate(marketId, agent3.address)).to.be.revertedWith(
+        "Sender has delegators"
+      );
+      await expect(governance.connect(agent3).delegate(marketId, agent2.address)).to.be.revertedWith(
+        "Delegatee has delegated"
+      );
+      await expect(governance.connect(agent3).delegate(marketId, voter1.address)).to.be.revertedWith(
+        "Delegatee not quorum member"
+      );
+      await expect(governance.connect(voter1).delegate(marketId, agent1.address)).to.be.revertedWith(
+        "Not quorum member"
+      );
     });
 
-    it("Should emit ForceGraduationApproved on force graduation execution", async function () {
-      const { governance, agent1, agent2, agent3, marketId, votingPeriod } =
-        await loadFixture(deployWithMarketFixture);
+    it("Should make delegators take their weight back before voting", async function () {
+      const { governance, agent1, agent2, marketId } = await loadFixture(deployWithProposalFixture);
+
+      await governance.connect(agent2).delegate(marketId, agent1.address);
+      await expect(governance.connect(agent2).vote(0, true)).to.be.revertedWith("Weight delegated");
+
+      await expect(governance.connect(agent2).delegate(marketId, agent2.address))
+        .to.emit(governance, "DelegateChanged")
+        .withArgs(marketId, agent2.address, agent1.address, agent2.address);
+      expect(await governance.delegates(marketId, agent2.address)).to.equal(ethers.ZeroAddress);
+      expect(await governance.getDelegators(marketId, agent1.address)).to.be.empty;
+
+      await expect(governance.connect(agent2).vote(0, true))
+        .to.emit(governance, "VoteCast")
+        .withArgs(0, agent2.address, 1, 35, "");
+    });
+
+    it("Should count weight once when re-delegating mid-vote", async function () {
+      const { governance, agent1, agent2, agent3, marketId } = await loadFixture(deployWithProposalFixture);
+
+      await governance.connect(agent2).delegate(marketId, agent1.address);
+      await governance.connect(agent1).vote(0, true);
+
+      // agent2's weight was already cast through agent1
+      await governance.connect(agent2).delegate(marketId, agent3.address);
+      await expect(governance.connect(agent3).vote(0, false))
+        .to.emit(governance, "VoteCast")
+        .withArgs(0, agent3.address, 0, 25, "");
+
+      await governance.connect(agent2).delegate(marketId, agent2.address);
+      await expect(governance.connect(agent2).vote(0, false)).to.be.revertedWith("Already voted");
+
+      const proposal = await governance.getProposal(0);
+      expect(proposal.forVotes).to.equal(75);
+      expect(proposal.againstVotes).to.equal(25);
+    });
+
+    it("Should drop a removed member's own delegation", async function () {
+      const { governance, agent1, agent2, agent3, marketId, votingPeriod } = await loadFixture(deployWithMarketFixture);
+
+      await governance.connect(agent3).delegate(marketId, agent1.address);
+      await governance.connect(agent1).propose(marketId, 1, agent3.address, 0, "0x", "Remove agent3");
+      await governance.connect(agent1).vote(0, true);
+      await governance.connect(agent2).vote(0, true);
+      await time.increase(votingPeriod + 1);
+
+      await expect(governance.execute(0))
+        .to.emit(governance, "DelegateChanged")
+        .withArgs(marketId, agent3.address, agent1.address, agent3.address);
+      expect(await governance.delegates(marketId, agent3.address)).to.equal(ethers.ZeroAddress);
+      expect(await governance.getDelegators(marketId, agent1.address)).to.be.empty;
+    });
+
+    it("Should return delegators' weight when their delegatee is removed", async function () {
+      const { governance, agent1, agent2, agent3, marketId, votingPeriod } = await loadFixture(deployWithMarketFixture);
+
+      await governance.connect(agent2).delegate(marketId, agent3.address);
+      await governance.connect(agent1).propose(marketId, 1, agent3.address, 0, "0x", "Remove agent3");
+      await governance.connect(agent1).vote(0, true);
+      await governance.connect(agent3).vote(0, true);
+      await time.increase(votingPeriod + 1);
+
+      await expect(governance.execute(0))
+        .to.emit(governance, "DelegateChanged")
+        .withArgs(marketId, agent2.address, agent3.address, agent2.address);
+      expect(await governance.delegates(marketId, agent2.address)).to.equal(ethers.ZeroAddress);
+      expect(await governance.getDelegators(marketId, agent3.address)).to.be.empty;
+
+      // agent2 votes with its own weight again
+      await governance.connect(agent1).propose(marketId, 3, ethers.ZeroAddress, 100, "0x", "Fees");
+      await expect(governance.connect(agent2).vote(1, true))
+        .to.emit(governance, "VoteCast")
+        .withArgs(1, agent2.address, 1, 35, "");
+    });
+
+    it("Should not count a delegator who voted before delegating", async function () {
+      const { governance, agent1, agent2, marketId } = await loadFixture(deployWithProposalFixture);
+
+      await governance.connect(agent2).vote(0, false);
+      await governance.connect(agent2).delegate(marketId, agent1.address);
+
+      await expect(governance.connect(agent1).vote(0, true))
+        .to.emit(governance, "VoteCast")
+        .withArgs(0, agent1.address, 1, 40, "");
+    });
+  });
+
+  describe("Cancellation", function () {
+    async function deployWithProposalFixture() {
+      const fixture = await deployWithMarketFixture();
+      const { governance, agent1, agent4, marketId } = fixture;
+      await governance.connect(agent1).propose(marketId, 0, agent4.address, 10, "0x", "Add agent4");
+      return fixture;
+    }
+
+    it("Should let the proposer withdraw before any votes", async function () {
+      const { governance, agent1 } = await loadFixture(deployWithProposalFixture);
+
+      await expect(governance.connect(agent1).cancel(0))
+        .to.emit(governance, "ProposalCancelled")
+        .withArgs(0);
+      expect((await governance.getProposal(0)).status).to.equal(4); // Cancelled
+
+      await expect(governance.connect(agent1).vote(0, true)).to.be.revertedWith("Proposal not active");
+      await expect(governance.connect(agent1).cancel(0)).to.be.revertedWith("Proposal not active");
+    });
+
+    it("Should count a proposer's cancel as a vote once votes are cast", async function () {
+      const { governance, agent1, agent2 } = await loadFixture(deployWithProposalFixture);
+      await governance.connect(agent2).vote(0, true);
+
+      await expect(governance.connect(agent1).cancel(0))
+        .to.emit(governance, "CancelVoteCast")
+        .withArgs(0, agent1.address, 40)
+        .and.not.to.emit(governance, "ProposalCancelled");
+      expect((await governance.getProposal(0)).status).to.equal(0); // Active
+      expect(await governance.cancelVotes(0)).to.equal(40);
+    });
+
+    it("Should cancel once 2/3 of the weight votes to cancel", async function () {
+      const { governance, agent1, agent2, agent3 } = await loadFixture(deployWithProposalFixture);
+      await governance.connect(agent1).vote(0, true);
+
+      await governance.connect(agent3).cancel(0); // 25
+      await expect(governance.connect(agent3).cancel(0)).to.be.revertedWith("Already voted to cancel");
+      await governance.connect(agent1).cancel(0); // 65 < 66.66
+      expect((await governance.getProposal(0)).status).to.equal(0);
+
+      await expect(governance.connect(agent2).cancel(0)) // 100
+        .to.emit(governance, "ProposalCancelled")
+        .withArgs(0);
+    });
+
+    it("Should count delegated weight toward a cancel vote", async function () {
+      const { governance, agent1, agent2, agent3, marketId } = await loadFixture(deployWithProposalFixture);
+      await governance.connect(agent3).vote(0, true);
+      await governance.connect(agent2).delegate(marketId, agent1.address);
+
+      await expect(governance.connect(agent2).cancel(0)).to.be.revertedWith("Weight delegated");
+      await expect(governance.connect(agent1).cancel(0)) // 40 + 35 delegated
+        .to.emit(governance, "CancelVoteCast")
+        .withArgs(0, agent1.address, 75)
+        .and.to.emit(governance, "ProposalCancelled");
+    });
+
+    it("Should reject cancellation by non-members and of unknown proposals", async function () {
+      const { governance, agent1, voter1 } = await loadFixture(deployWithProposalFixture);
+      await governance.connect(agent1).vote(0, true);
+
+      await expect(governance.connect(voter1).cancel(0)).to.be.revertedWith("Not quorum member");
+      await expect(governance.connect(agent1).cancel(7)).to.be.revertedWith("Unknown proposal");
+    });
+
+    it("Should cancel a queued proposal before it executes", async function () {
+      const { governance, owner, agent1, agent2, agent3, marketId, votingPeriod } =
+        await loadFixture(deployWithProposalFixture);
+      await governance.connect(owner).setMarketTimelockDelay(marketId, 3600);
+      await governance.connect(agent1).vote(0, true);
+      await governance.connect(agent2).vote(0, true);
+      await time.increase(votingPeriod + 1);
+      await governance.queue(0);
+
+      await governance.connect(agent2).cancel(0);
+      await governance.connect(agent3).cancel(0);
+      await expect(governance.connect(agent1).cancel(0)).to.emit(governance, "ProposalCancelled");
+
+      await time.increase(3600);
+      await expect(governance.execute(0)).to.be.revertedWith("Proposal not active");
+    });
+
+    it("Should not cancel an executed proposal", async function () {
+      const { governance, agent1, agent2, agent3, votingPeriod } = await loadFixture(deployWithProposalFixture);
+      await governance.connect(agent1).vote(0, true);
+      await governance.connect(agent2).vote(0, true);
+      await time.increase(votingPeriod + 1);
+      await governance.execute(0);
+
+      await expect(governance.connect(agent3).cancel(0)).to.be.revertedWith("Proposal not active");
+    });
+
+    describe("Racing execute at the deadline", function () {
+      // Mines a cancel and an execute in the same block at exactly the voting
+      // deadline, in the given order
+      async function raceAtDeadline(cancelFirst: boolean) {
+        const fixture = await loadFixture(deployWithProposalFixture);
+        const { governance, agent1, agent2, agent3, voter1 } = fixture;
+        for (const agent of [agent1, agent2, agent3]) {
+          await governance.connect(agent).vote(0, true);
+        }
+        await governance.connect(agent1).cancel(0); // 40 of the 66.66 needed; agent2's 35 completes it
+        const { deadline } = await governance.getProposal(0);
+
+        await time.setNextBlockTimestamp(deadline);
+        await network.provider.send("evm_setAutomine", [false]);
+        try {
+          const sendCancel = () => governance.connect(agent2).cancel(0, { gasLimit: 500_000 });
+          const sendExecute = () => governance.connect(voter1).execute(0, { gasLimit: 1_000_000 });
+          const first = await (cancelFirst ? sendCancel() : sendExecute());
+          const second = await (cancelFirst ? sendExecute() : sendCancel());
+          await network.provider.send("evm_mine");
+          return { ...fixture, deadline, cancelTx: cancelFirst ? first : second, executeTx: cancelFirst ? second : first };
+        } finally {
+          await network.provider.send("evm_setAutomine", [true]);
+        }
+      }
+
+      it("Should block execution when the cancel lands first", async function () {
+        const { governance, deadline, cancelTx, executeTx } = await raceAtDeadline(true);
+
+        // Mined transactions carry no revert reason; the final status shows why
+        await expect(cancelTx).to.emit(governance, "ProposalCancelled");
+        await expect(executeTx).to.be.reverted;
+
+        const block = await ethers.provider.getBlock((await cancelTx.wait())!.blockNumber);
+        expect(block!.timestamp).to.equal(deadline);
+        expect((await governance.getProposal(0)).status).to.equal(4); // Cancelled
+      });
+
+      it("Should reject the cancel when execute lands first", async function () {
+        const { governance, agent4, marketId, cancelTx, executeTx } = await raceAtDeadline(false);
+
+        await expect(executeTx).to.emit(governance, "ProposalExecuted").withArgs(0, true);
+        await expect(cancelTx).to.be.reverted;
+        expect((await governance.getProposal(0)).status).to.equal(3); // Executed
+        expect(await governance.isQuorumMember(marketId, agent4.address)).to.be.true;
+      });
+    });
+  });
+
+  describe("Timelock", function () {
+    const delay = 2 * 24 * 60 * 60; // 2 days
+
+    async function deployWithTimelockFixture() {
+      const fixture = await deployWithMarketFixture();
+      const { governance, owner, agent1, agent2, agent3, agent4, marketId } = fixture;
+
+      await governance.connect(owner).setMarketTimelockDelay(marketId, delay);
+      await governance.connect(agent1).propose(marketId, 0, agent4.address, 10, "0x", "Add agent4");
+      await governance.connect(agent1).vote(0, true);
+      await governance.connect(agent2).vote(0, true);
+      await governance.connect(agent3).vote(0, false);
+
+      return fixture;
+    }
+
+    it("Should let only the owner set delays up to MAX_TIMELOCK_DELAY", async function () {
+      const { governance, owner, agent1, marketId } = await loadFixture(deployWithMarketFixture);
+
+      await expect(governance.connect(owner).setMarketTimelockDelay(marketId, delay))
+        .to.emit(governance, "TimelockDelayUpdated")
+        .withArgs(marketId, delay);
+      expect(await governance.marketTimelockDelay(marketId)).to.equal(delay);
+
+      await expect(
+        governance.connect(owner).setMarketTimelockDelay(marketId, 3 * 24 * 60 * 60 + 1)
+      ).to.be.revertedWith("Delay too long");
+      await expect(
+        governance.connect(agent1).setMarketTimelockDelay(marketId, 0)
+      ).to.be.revertedWithCustomError(governance, "OwnableUnauthorizedAccount");
+      await expect(
+        governance.connect(agent1).setDefaultTimelockDelay(0)
+      ).to.be.revertedWithCustomError(governance, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should give newly formed markets the default delay", async function () {
+      const { governance, owner, agent1, agent2, agent3 } = await loadFixture(deployGovernanceFixture);
+      await governance.connect(owner).setDefaultTimelockDelay(delay);
+
+      await governance.connect(agent1).proposeQuorum(
+        [agent1.address, agent2.address, agent3.address],
+        [40, 35, 25],
+        "Timelocked Token",
+        "TLT",
+        "Slow governance"
+      );
+      await governance.connect(agent2).approveQuorum(0);
+      await governance.connect(agent3).approveQuorum(0);
+
+      expect(await governance.marketTimelockDelay(0)).to.equal(delay);
+    });
+
+    it("Should require queueing before execution", async function () {
+      const { governance, votingPeriod } = await loadFixture(deployWithTimelockFixture);
+      await time.increase(votingPeriod + 1);
+
+      await expect(governance.execute(0)).to.be.revertedWith("Proposal not queued");
+    });
+
+    it("Should queue with an ETA and execute once the delay has passed", async function () {
+      const { governance, agent4, marketId, votingPeriod } = await loadFixture(deployWithTimelockFixture);
+      await time.increase(votingPeriod + 1);
+
+      const tx = await governance.queue(0);
+      const eta = BigInt((await ethers.provider.getBlock(tx.blockNumber!))!.timestamp) + BigInt(delay);
+      await expect(tx).to.emit(governance, "ProposalQueued").withArgs(0, marketId, eta);
+
+      const proposal = await governance.getProposal(0);
+      expect(proposal.status).to.equal(5); // Queued
+      expect(proposal.eta).to.equal(eta);
+
+      await expect(governance.execute(0)).to.be.revertedWith("Timelock not expired");
+
+      await time.increaseTo(eta);
+      await expect(governance.execute(0)).to.emit(governance, "ProposalExecuted").withArgs(0, true);
+      expect(await governance.isQuorumMember(marketId, agent4.address)).to.be.true;
+    });
+
+    it("Should reject queueing defeated, unfinished or already queued proposals", async function () {
+      const { governance, agent1, agent2, agent3, agent4, marketId, votingPeriod } =
+        await loadFixture(deployWithTimelockFixture);
+
+      await expect(governance.queue(0)).to.be.revertedWith("Voting ongoing");
+
+      await governance.connect(agent1).propose(marketId, 0, agent4.address, 10, "0x", "Defeated");
+      await governance.connect(agent1).vote(1, false);
+      await governance.connect(agent2).vote(1, false);
+      await governance.connect(agent3).vote(1, true);
+
+      await time.increase(votingPeriod + 1);
+      await governance.queue(0);
+      await expect(governance.queue(0)).to.be.revertedWith("Proposal not active");
+      await expect(governance.queue(1)).to.be.revertedWith("Proposal defeated");
+
+      // Defeated proposals are still closed out through execute
+      await expect(governance.execute(1)).to.emit(governance, "ProposalExecuted").withArgs(1, false);
+    });
+
+    it("Should not queue when the ETA would fall outside the execution window", async function () {
+      const { governance, votingPeriod } = await loadFixture(deployWithTimelockFixture);
+      const executionWindow = 7 * 24 * 60 * 60;
+
+      await time.increase(votingPeriod + executionWindow - delay + 10);
+      await expect(governance.queue(0)).to.be.revertedWith("Timelock exceeds window");
+    });
+
+    it("Should not execute a queued proposal after the execution window", async function () {
+      const { governance, votingPeriod } = await loadFixture(deployWithTimelockFixture);
+      const executionWindow = 7 * 24 * 60 * 60;
+
+      await time.increase(votingPeriod + 1);
+      await governance.queue(0);
+      await time.increase(executionWindow);
+
+      await expect(governance.execute(0)).to.be.revertedWith("Execution expired");
+    });
+  });
+
+  describe("SetWeight Proposals", function () {
+    const SetWeight = 7;
+    const encodeWeights = (agents: string[], weights: number[]) =>
+      ethers.AbiCoder.defaultAbiCoder().encode(["address[]", "uint256[]"], [agents, weights]);
+
+    async function proposeSetWeight(
+      fixture: Awaited<ReturnType<typeof deployWithMarketFixture>>,
+      agents: string[],
+      weights: number[]
+    ) {
+      const { governance, agent1, agent2, agent3, marketId } = fixture;
+      await governance
+        .connect(agent1)
+        .propose(marketId, SetWeight, ethers.ZeroAddress, 0, encodeWeights(agents, weights), "Rebalance");
+      const proposalId = (await governance.proposalCount()) - 1n;
+      await governance.connect(agent1).vote(proposalId, true);
+      await governance.connect(agent2).vote(proposalId, true);
+      await governance.connect(agent3).vote(proposalId, true);
+      return proposalId;
+    }
+
+    it("Should set several weights together and keep the total consistent", async function () {
+      const fixture = await loadFixture(deployWithMarketFixture);
+      const { governance, factory, agent1, agent2, marketId, votingPeriod } = fixture;
+      const proposalId = await proposeSetWeight(fixture, [agent1.address, agent2.address], [50, 20]);
+      await time.increase(votingPeriod + 1);
+
+      await expect(governance.execute(proposalId))
+        .to.emit(governance, "AgentWeightUpdated")
+        .withArgs(marketId, agent1.address, 50)
+        .and.to.emit(governance, "AgentWeightUpdated")
+        .withArgs(marketId, agent2.address, 20);
+
+      expect(await governance.agentWeight(marketId, agent1.address)).to.equal(50);
+      expect(await governance.agentWeight(marketId, agent2.address)).to.equal(20);
+      expect(await governance.marketTotalWeight(marketId)).to.equal(95);
+      expect((await factory.getMarket(marketId)).agentWeights).to.deep.equal([50n, 20n, 25n]);
+    });
+
+    it("Should reject invalid weight changes when proposed", async function () {
+      const { governance, agent1, agent2, agent3, voter1, marketId } = await loadFixture(deployWithMarketFixture);
+      const propose = (data: string) =>
+        governance.connect(agent1).propose(marketId, SetWeight, ethers.ZeroAddress, 0, data, "Rebalance");
+
+      await expect(propose(encodeWeights([voter1.address], [10]))).to.be.revertedWith("Invalid weights");
+      await expect(propose(encodeWeights([agent1.address, agent1.address], [10, 20]))).to.be.revertedWith(
+        "Invalid weights"
+      );
+      await expect(propose(encodeWeights([agent1.address], [10, 20]))).to.be.revertedWith("Invalid weights");
+      await expect(propose(encodeWeights([], []))).to.be.revertedWith("Invalid weights");
+      await expect(
+        propose(encodeWeights([agent1.address, agent2.address, agent3.address], [0, 0, 0]))
+      ).to.be.revertedWith("Invalid weights");
+    });
+
+    it("Should change nothing when an agent was removed before execution", async function () {
+      const fixture = await loadFixture(deployWithMarketFixture);
+      const { governance, agent1, agent2, agent3, marketId, votingPeriod } = fixture;
+
+      await governance.connect(agent1).propose(marketId, 1, agent3.address, 0, "0x", "Remove agent3");
+      await governance.connect(agent1).vote(0, true);
+      await governance.connect(agent2).vote(0, true);
+      await time.increase(24 * 60 * 60);
+      const proposalId = await proposeSetWeight(fixture, [agent1.address, agent3.address], [60, 10]);
+
+      await time.increase(votingPeriod);
+      await governance.execute(0);
+      await time.increase(24 * 60 * 60);
+
+      await expect(governance.execute(proposalId))
+        .to.emit(governance, "ProposalExecuted")
+        .withArgs(proposalId, false);
+      expect(await governance.agentWeight(marketId, agent1.address)).to.equal(40);
+    });
+
+    it("Should change nothing when the factory sync fails", async function () {
+      const fixture = await loadFixture(deployWithMarketFixture);
+      const { governance, agent1, agent2, marketId, votingPeriod } = fixture;
+      const proposalId = await proposeSetWeight(fixture, [agent1.address, agent2.address], [50, 20]);
+      await fixture.factory.connect(fixture.owner).setGovernance(fixture.owner.address);
+      await time.increase(votingPeriod + 1);
+
+      await expect(governance.execute(proposalId))
+        .to.emit(governance, "ProposalExecuted")
+        .withArgs(proposalId, false);
+      expect(await governance.agentWeight(marketId, agent1.address)).to.equal(40);
+      expect(await governance.marketTotalWeight(marketId)).to.equal(100);
+    });
+  });
+
+  describe("Factory Quorum Sync", function () {
+    async function passProposal(
+      fixture: Awaited<ReturnType<typeof deployWithMarketFixture>>,
+      pType: number,
+      target: string,
+      value: number,
+      voters: typeof fixture.agent1[],
+      data = "0x"
+    ) {
+      const { governance, marketId, votingPeriod } = fixture;
+      await governance.connect(voters[0]).propose(marketId, pType, target, value, data, "Membership");
+      const proposalId = (await governance.proposalCount()) - 1n;
+      for (const voter of voters) {
+        await governance.connect(voter).vote(proposalId, true);
+      }
+      await time.increase(votingPeriod + 1);
+      return governance.execute(proposalId);
+    }
+
+    it("Should mirror AddAgent and RemoveAgent in the factory's quorum", async function () {
+      const fixture = await loadFixture(deployWithMarketFixture);
+      const { factory, agent1, agent2, agent3, agent4, marketId } = fixture;
+
+      await expect(passProposal(fixture, 0, agent4.address, 20, [agent1, agent2, agent3]))
+        .to.emit(factory, "QuorumMemberUpdated")
+        .withArgs(marketId, agent4.address, true, 20);
+      await expect(passProposal(fixture, 1, agent1.address, 0, [agent2, agent3, agent4]))
+        .to.emit(factory, "QuorumMemberUpdated")
+        .withArgs(marketId, agent1.address, false, 0);
+
+      const [agents, weights] = await factory.getQuorum(marketId);
+      expect(agents).to.deep.equal([agent4.address, agent2.address, agent3.address]);
+      expect(weights).to.deep.equal([20n, 35n, 25n]);
+      expect((await factory.getMarket(marketId)).quorumAgents).to.deep.equal(agents);
+    });
+
+    it("Should keep governance and factory weights equal through every membership change", async function () {
+      const fixture = await loadFixture(deployWithMarketFixture);
+      const { governance, factory, agent1, agent2, agent3, agent4, marketId } = fixture;
+      const setWeight = (agents: string[], weights: number[]) =>
+        ethers.AbiCoder.defaultAbiCoder().encode(["address[]", "uint256[]"], [agents, weights]);
+
+      const expectInSync = async () => {
+        const [agents, weights] = await factory.getQuorum(marketId);
+        expect(await governance.getQuorum(marketId)).to.deep.equal([agents, weights]);
+        for (let i = 0; i < agents.length; i++) {
+          expect(await governance.isQuorumMember(marketId, agents[i])).to.be.true;
+          expect(await governance.agentWeight(marketId, agents[i])).to.equal(weights[i]);
+        }
+        for (const signer of [agent1, agent2, agent3, agent4]) {
+          expect(await governance.isQuorumMember(marketId, signer.address)).to.equal(agents.includes(signer.address));
+        }
+        expect(await governance.marketTotalWeight(marketId)).to.equal(weights.reduce((a, b) => a + b, 0n));
+      };
+
+      await expectInSync(); // Formation
+      await passProposal(fixture, 0, agent4.address, 20, [agent1, agent2, agent3]);
+      await expectInSync();
+      await passProposal(fixture, 7, ethers.ZeroAddress, 0, [agent1, agent2, agent3, agent4], setWeight([agent4.address, agent1.address], [30, 45]));
+      await expectInSync();
+      await passProposal(fixture, 1, agent2.address, 0, [agent1, agent3, agent4]);
+      await expectInSync();
+      await passProposal(fixture, 0, agent2.address, 0, [agent1, agent3, agent4]);
+      await expectInSync();
+    });
+
+    it("Should fail membership changes the factory rejects", async function () {
+      const fixture = await loadFixture(deployWithMarketFixture);
+      const { governance, factory, owner, agent1, agent2, agent3, agent4, marketId } = fixture;
+      await factory.connect(owner).setGovernance(owner.address);
+
+      await expect(passProposal(fixture, 0, agent4.address, 20, [agent1, agent2, agent3]))
+        .to.emit(governance, "ProposalExecuted")
+        .withArgs(0, false);
+      expect(await governance.isQuorumMember(marketId, agent4.address)).to.be.false;
+      expect(await governance.marketTotalWeight(marketId)).to.equal(100);
+    });
+  });
+
+  describe("Call Proposals", function () {
+    async function passCall(
+      fixture: Awaited<ReturnType<typeof deployWithMarketFixture>>,
+      target: string,
+      value: bigint,
+      data: string
+    ) {
+      const { governance, agent1, agent2, agent3, marketId, votingPeriod } = fixture;
+      await governance.connect(agent1).propose(marketId, 6, target, value, data, "Call");
+      const proposalId = (await governance.proposalCount()) - 1n;
+      await governance.connect(agent1).vote(proposalId, true);
+      await governance.connect(agent2).vote(proposalId, true);
+      await governance.connect(agent3).vote(proposalId, true);
+      await time.increase(votingPeriod + 1);
+      return proposalId;
+    }
+
+    it("Should let only the owner allowlist call targets", async function () {
+      const { governance, factory, owner, agent1 } = await loadFixture(deployGovernanceFixture);
+
+      await expect(governance.connect(owner).setCallTarget(factory.target, true))
+        .to.emit(governance, "CallTargetUpdated")
+        .withArgs(factory.target, true);
+      expect(await governance.allowedCallTargets(factory.target)).to.be.true;
+
+      await expect(
+        governance.connect(agent1).setCallTarget(factory.target, false)
+      ).to.be.revertedWithCustomError(governance, "OwnableUnauthorizedAccount");
+      await expect(
+        governance.connect(owner).setCallTarget(ethers.ZeroAddress, true)
+      ).to.be.revertedWith("Zero address");
+    });
+
+    it("Should reject Call proposals to targets not on the allowlist", async function () {
+      const { governance, factory, agent1, marketId } = await loadFixture(deployWithMarketFixture);
+
+      await expect(
+        governance.connect(agent1).propose(marketId, 6, factory.target, 0, "0x", "Not allowed")
+      ).to.be.revertedWith("Target not allowed");
+    });
+
+    it("Should call the target with value from the market treasury", async function () {
+      const fixture = await loadFixture(deployWithMarketFixture);
+      const { governance, factory, owner, marketId } = fixture;
+      await governance.connect(owner).setCallTarget(factory.target, true);
+
+      const vault = await governance.marketTreasury(marketId);
+      await owner.sendTransaction({ to: vault, value: ethers.parseEther("1") });
+
+      // The treasury buys its own market's tokens
+      const data = encodeCall("function buy(uint256 marketId, uint256 minTokensOut)", [marketId, 0]);
+      const proposalId = await passCall(fixture, factory.target as string, ethers.parseEther("1"), data);
+
+      await expect(governance.execute(proposalId))
+        .to.emit(governance, "CallExecuted")
+        .withArgs(marketId, factory.target, ethers.parseEther("1"))
+        .and.to.emit(factory, "TokensPurchased");
+
+      const token = await ethers.getContractAt("MarketToken", (await factory.getMarket(marketId)).tokenAddress);
+      expect(await token.balanceOf(vault)).to.be.gt(0);
+      expect(await ethers.provider.getBalance(vault)).to.equal(0);
+    });
+
+    it("Should fail the proposal when the call reverts", async function () {
+      const fixture = await loadFixture(deployWithMarketFixture);
+      const { governance, factory, owner, agent4, marketId } = fixture;
+      const { tokenAddress } = await factory.getMarket(marketId);
+      await governance.connect(owner).setCallTarget(tokenAddress, true);
+
+      // The treasury holds no tokens
+      const data = encodeCall("function transfer(address to, uint256 amount)", [agent4.address, 1]);
+      const proposalId = await passCall(fixture, tokenAddress, 0n, data);
+
+      await expect(governance.execute(proposalId))
+        .to.emit(governance, "ProposalExecuted")
+        .withArgs(proposalId, false);
+      expect((await governance.getProposal(proposalId)).status).to.equal(2); // Failed
+    });
+
+    it("Should fail the proposal when the target is removed from the allowlist", async function () {
+      const fixture = await loadFixture(deployWithMarketFixture);
+      const { governance, factory, owner, agent1, agent4, marketId } = fixture;
+      const { tokenAddress } = await factory.getMarket(marketId);
+      await governance.connect(owner).setCallTarget(tokenAddress, true);
+
+      const token = await ethers.getContractAt("MarketToken", tokenAddress);
+      await token.connect(agent1).transfer(await governance.marketTreasury(marketId), 100);
+      const data = encodeCall("function transfer(address to, uint256 amount)", [agent4.address, 100]);
+      const proposalId = await passCall(fixture, tokenAddress, 0n, data);
+
+      await governance.connect(owner).setCallTarget(tokenAddress, false);
+
+      await expect(governance.execute(proposalId))
+        .to.emit(governance, "ProposalExecuted")
+        .withArgs(proposalId, false);
+      expect(await token.balanceOf(agent4.address)).to.equal(0);
+    });
+
+    it("Should only let governance call through the treasury", async function () {
+      const { governance, factory, agent1, marketId } = await loadFixture(deployWithMarketFixture);
+
+      const vault = await ethers.getContractAt("MarketTreasury", await governance.marketTreasury(marketId));
+      await expect(vault.connect(agent1).execute(factory.target, 0, "0x")).to.be.revertedWith("Only governance");
+    });
+  });
+
+  describe("Signed Actions", function () {
+    const hour = 3600n;
+
+    it("Should approve a quorum with agents' signatures submitted by anyone", async function () {
+      const { governance, factory, agent1, agent2, agent3, voter1 } =
+        await loadFixture(deployGovernanceFixture);
+
+      await governance.connect(agent1).proposeQuorum(
+        [agent1.address, agent2.address, agent3.address],
+        [40, 35, 25],
+        "Signed Token",
+        "SIG",
+        "Gasless approvals"
+      );
+
+      const deadline = BigInt(await time.latest()) + hour;
+      const sig2 = await signApproveQuorum(agent2, governance, 0, { deadline });
+      const sig3 = await signApproveQuorum(agent3, governance, 0, { deadline });
+
+      await expect(governance.connect(voter1).approveQuorumBySig(0, agent2.address, deadline, sig2.signature))
+        .to.emit(governance, "QuorumApproval")
+        .withArgs(0, agent2.address);
+      await expect(governance.connect(voter1).approveQuorumBySig(0, agent3.address, deadline, sig3.signature))
+        .to.emit(governance, "QuorumFormed");
+
+      expect(await factory.marketCount()).to.equal(1);
+      expect(await governance.nonces(agent2.address)).to.equal(1);
+      expect(await governance.nonces(voter1.address)).to.equal(0);
+    });
+
+    it("Should propose and vote by signature on behalf of the signer", async function () {
+      const { governance, agent1, agent2, agent4, voter1, marketId } =
+        await loadFixture(deployWithMarketFixture);
+      const deadline = BigInt(await time.latest()) + hour;
+
+      const proposal = await signPropose(
+        agent1,
+        governance,
+        { marketId, pType: 0, target: agent4.address, value: 10n, description: "Add agent4" },
+        { deadline }
+      );
+      await expect(
+        governance.connect(voter1).proposeBySig(
+          marketId, 0, agent4.address, 10n, "0x", "Add agent4", agent1.address, deadline, proposal.signature
+        )
+      )
+        .to.emit(governance, "ProposalCreated")
+        .withArgs(0, marketId, 0, agent1.address, "Add agent4");
+
+      // agent1's next signature uses the next nonce
+      const vote1 = await signVote(agent1, governance, 0, true, { deadline });
+      const vote2 = await signVote(agent2, governance, 0, false, { deadline });
+      expect(vote1.nonce).to.equal(1);
+
+      await expect(governance.connect(voter1).voteBySig(0, true, agent1.address, deadline, vote1.signature))
+        .to.emit(governance, "VoteCast")
+        .withArgs(0, agent1.address, 1, 40, "");
+      await governance.connect(voter1).voteBySig(0, false, agent2.address, deadline, vote2.signature);
+
+      const p = await governance.getProposal(0);
+      expect(p.proposer).to.equal(agent1.address);
+      expect(p.forVotes).to.equal(40);
+      expect(p.againstVotes).to.equal(35);
+      expect(await governance.hasVoted(0, voter1.address)).to.be.false;
+    });
+
+    it("Should cast an abstention with a reason by signature", async function () {
+      const { governance, agent1, agent2, agent4, voter1, marketId } =
+        await loadFixture(deployWithMarketFixture);
+      await governance.connect(agent1).propose(marketId, 0, agent4.address, 0, "0x", "Add agent4");
+      const deadline = BigInt(await time.latest()) + hour;
+
+      const vote = await signCastVote(agent2, governance, 0, 2, "Conflict of interest", { deadline });
+
+      // The reason is part of the signed message
+      await expect(
+        governance.connect(voter1).castVoteBySig(0, 2, "Changed my mind", agent2.address, deadline, vote.signature)
+      ).to.be.revertedWith("Invalid signature");
+
+      await expect(
+        governance.connect(voter1).castVoteBySig(0, 2, "Conflict of interest", agent2.address, deadline, vote.signature)
+      )
+        .to.emit(governance, "VoteCast")
+        .withArgs(0, agent2.address, 2, 35, "Conflict of interest");
+      expect((await governance.getProposal(0)).abstainVotes).to.equal(35);
+      expect(await governance.nonces(agent2.address)).to.equal(1);
+    });
+
+    it("Should reject replayed, expired, forged and tampered signatures", async function () {
+      const { governance, agent1, agent2, agent4, voter1, marketId } =
+        await loadFixture(deployWithMarketFixture);
+      await governance.connect(agent1).propose(marketId, 0, agent4.address, 0, "0x", "Add agent4");
+      const deadline = BigInt(await time.latest()) + hour;
+
+      // Signed by agent4 but claimed for agent2
+      const forged = await signVote(agent4, governance, 0, true, { deadline, nonce: 0n });
+      await expect(
+        governance.connect(voter1).voteBySig(0, true, agent2.address, deadline, forged.signature)
+      ).to.be.revertedWith("Invalid signature");
+
+      // Signed for support=true but submitted as false
+      const vote = await signVote(agent2, governance, 0, true, { deadline });
+      await expect(
+        governance.connect(voter1).voteBySig(0, false, agent2.address, deadline, vote.signature)
+      ).to.be.revertedWith("Invalid signature");
+
+      // Nonce is consumed, so the same signature cannot be replayed
+      await governance.connect(voter1).voteBySig(0, true, agent2.address, deadline, vote.signature);
+      await expect(
+        governance.connect(voter1).voteBySig(0, true, agent2.address, deadline, vote.signature)
+      ).to.be.revertedWith("Invalid signature");
+
+      const expired = BigInt(await time.latest());
+      const late = await signVote(agent1, governance, 0, true, { deadline: expired });
+      await expect(
+        governance.connect(voter1).voteBySig(0, true, agent1.address, expired, late.signature)
+      ).to.be.revertedWith("Signature expired");
+    });
+
+    it("Should batch signed actions through multicall", async function () {
+      const { governance, agent1, agent2, agent3, agent4, voter1, marketId } =
+        await loadFixture(deployWithMarketFixture);
+      const deadline = BigInt(await time.latest()) + hour;
+
+      const proposal = await signPropose(
+        agent1,
+        governance,
+        { marketId, pType: 0, target: agent4.address, description: "Add agent4" },
+        { deadline }
+      );
+      const votes = await Promise.all(
+        [agent1, agent2, agent3].map((agent, i) =>
+          signVote(agent, governance, 0, true, { deadline, nonce: i === 0 ? 1n : 0n })
+        )
+      );
+
+      await governance.connect(voter1).multicall([
+        governance.interface.encodeFunctionData("proposeBySig", [
+          marketId, 0, agent4.address, 0, "0x", "Add agent4", agent1.address, deadline, proposal.signature,
+        ]),
+        ...votes.map((v) =>
+          governance.interface.encodeFunctionData("voteBySig", [0, true, v.signer, deadline, v.signature])
+        ),
+      ]);
+
+      expect((await governance.getProposal(0)).forVotes).to.equal(100);
+    });
+  });
+
+  describe("Governance Event Emissions", function () {
+    it("Should emit TreasurySpendApproved on treasury spend execution", async function () {
+      const { governance, owner, agent1, agent2, agent3, treasury, marketId, votingPeriod } =
+        await loadFixture(deployWithMarketFixture);
+
+      const spendAmount = ethers.parseEther("1");
+      await owner.sendTransaction({ to: await governance.marketTreasury(marketId), value: spendAmount });
+
+      await governance.connect(agent1).propose(
+        marketId,
+        2, // ProposalType.TreasurySpend
+        treasury.address,
+        spendAmount,
+        "0x",
+        "Spend treasury funds"
+      );
+
+      await governance.connect(agent1).vote(0, true);
+      await governance.connect(agent2).vote(0, true);
+      await governance.connect(agent3).vote(0, true);
+
+      await time.increase(votingPeriod + 1);
+
+      await expect(governance.execute(0))
+        .to.emit(governance, "TreasurySpendApproved")
+        .withArgs(marketId, treasury.address, spendAmount);
+    });
+
+    it("Should emit FeeAdjustmentApproved on fee adjustment execution", async function () {
+      const { governance, agent1, agent2, agent3, marketId, votingPeriod } =
+        await loadFixture(deployWithMarketFixture);
+
+      const newFeeBps = 100; // 1%
+
+      await governance.connect(agent1).propose(
+        marketId,
+        3, // ProposalType.AdjustFees
+        ethers.ZeroAddress,
+        newFeeBps,
+        "0x",
+        "Adjust fees to 1%"
+      );
+
+      await governance.connect(agent1).vote(0, true);
+      await governance.connect(agent2).vote(0, true);
+      await governance.connect(agent3).vote(0, true);
+
+      await time.increase(votingPeriod + 1);
+
+      await expect(governance.execute(0))
+        .to.emit(governance, "FeeAdjustmentApproved")
+        .withArgs(marketId, newFeeBps);
+    });
+
+    it("Should emit ForceGraduationApproved on force graduation execution", async function () {
+      const { governance, factory, agent1, agent2, agent3, voter1, marketId, votingPeriod } =
+        await loadFixture(deployWithMarketFixture);
+
+      await factory.connect(voter1).buy(marketId, 0, { value: ethers.parseEther("1") });
 
       await governance.connect(agent1).propose(
         marketId,